@@ -0,0 +1,102 @@
+// server/bff/calitateAer.ts
+import { BffConfig } from './config';
+import { UpstreamError, getJson, toArray, toNumber } from './upstream';
+
+type Query = URLSearchParams;
+
+const POLLUTANT_ALIASES: Record<string, string[]> = {
+  pm25: ['pm25', 'pm2_5', 'pm2.5', 'PM2.5', 'PM25'],
+  pm10: ['pm10', 'PM10'],
+  no2: ['no2', 'NO2'],
+  o3: ['o3', 'O3'],
+  so2: ['so2', 'SO2'],
+  co: ['co', 'CO'],
+};
+
+type JsonObject = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonObject =>
+  value && typeof value === 'object' ? (value as JsonObject) : {};
+
+const pollutants = (item: JsonObject) =>
+  Object.fromEntries(
+    Object.entries(POLLUTANT_ALIASES).map(([pollutant, aliases]) => [
+      pollutant,
+      toNumber(aliases.map(alias => item[alias]).find(value => value !== undefined)),
+    ])
+  );
+
+// Units the source reports per pollutant, if it says; passed on as given
+// and converted by the client
+const units = (item: JsonObject) => {
+  const reported = asRecord(item.units);
+  const entries = Object.entries(POLLUTANT_ALIASES).flatMap(([pollutant, aliases]) => {
+    const unit = aliases.map(alias => reported[alias]).find(value => typeof value === 'string');
+    return unit ? [[pollutant, unit]] : [];
+  });
+  return entries.length > 0 ? { units: Object.fromEntries(entries) } : {};
+};
+
+const normalizeStation = (value: unknown) => {
+  const station = asRecord(value);
+  return {
+    id: toNumber(station.id),
+    name: String(station.name ?? ''),
+    latitude: toNumber(station.latitude ?? station.lat),
+    longitude: toNumber(station.longitude ?? station.lon),
+    county: String(station.county ?? ''),
+    city: station.city !== undefined ? String(station.city) : undefined,
+  };
+};
+
+const stationId = (value: string): string => {
+  if (!/^\d+$/.test(value)) {
+    throw new UpstreamError(`Invalid station id "${value}"`, 400);
+  }
+  return value;
+};
+
+/**
+ * Proxy for the calitateaer.ro routes used by CalitateAerService. The
+ * credentials never leave the server; responses are normalized to numbers
+ * (missing or invalid readings become null).
+ */
+export function createCalitateAerHandlers({ calitateAer, timeoutMs }: BffConfig) {
+  const headers: Record<string, string> = calitateAer.username && calitateAer.password
+    ? { Authorization: `Basic ${Buffer.from(`${calitateAer.username}:${calitateAer.password}`).toString('base64')}` }
+    : {};
+
+  const get = (path: string, query?: Record<string, string | undefined>) =>
+    getJson({ url: calitateAer.baseURL.replace(/\/$/, '') + path, query, headers, timeoutMs });
+
+  return {
+    async stations() {
+      const payload = await get('/stations');
+      return toArray(payload, 'stations')
+        .map(normalizeStation)
+        .filter(station => station.id !== null);
+    },
+
+    async current(id: string) {
+      const item = asRecord(await get(`/measurements/station/${stationId(id)}/current`));
+      return {
+        stationId: toNumber(item.stationId) ?? Number(id),
+        // Left null rather than made up, so a station without a time shows as such
+        timestamp: typeof item.timestamp === 'string' ? item.timestamp : null,
+        ...pollutants(item),
+        ...units(item),
+      };
+    },
+
+    async historical(id: string, query: Query) {
+      const payload = await get(`/measurements/station/${stationId(id)}/historical`, {
+        startDate: query.get('startDate') || undefined,
+        endDate: query.get('endDate') || undefined,
+      });
+      return toArray(payload, 'measurements')
+        .map(asRecord)
+        .filter(item => typeof item.date === 'string')
+        .map(item => ({ date: item.date as string, ...pollutants(item), ...units(item) }));
+    },
+  };
+}
@@ -0,0 +1,68 @@
+// server/bff/config.ts
+
+export type CopernicusProvider = 'open-meteo' | 'passthrough';
+
+export interface BffConfig {
+  port: number;
+  /** Production build of the dashboard, served on the same origin */
+  staticDir: string;
+  timeoutMs: number;
+  ingestion: {
+    /** Where the time-series store keeps its files */
+    dataDir: string;
+    /** Minutes between two polls; 0 disables ingestion in the server */
+    intervalMinutes: number;
+    /** How far back missing hours are backfilled */
+    backfillDays: number;
+  };
+  calitateAer: {
+    baseURL: string;
+    username: string;
+    password: string;
+  };
+  copernicus: {
+    /**
+     * `open-meteo` answers from the Copernicus-based Open-Meteo APIs
+     * (ERA5 reanalysis, ECMWF forecasts). `passthrough` forwards the
+     * requests unchanged to `baseURL`, e.g. the mock upstream server.
+     */
+    provider: CopernicusProvider;
+    baseURL: string;
+    archiveURL: string;
+    /** CAMS air quality forecasts */
+    airQualityURL: string;
+    apiKey: string;
+  };
+}
+
+const env = (name: string, fallback = ''): string => process.env[name] || fallback;
+
+export function loadConfig(): BffConfig {
+  const provider = env('COPERNICUS_PROVIDER', 'open-meteo');
+  if (provider !== 'open-meteo' && provider !== 'passthrough') {
+    throw new Error(`COPERNICUS_PROVIDER must be "open-meteo" or "passthrough", got "${provider}"`);
+  }
+
+  return {
+    port: Number(env('BFF_PORT', '4000')),
+    staticDir: env('BFF_STATIC_DIR', 'build'),
+    timeoutMs: Number(env('BFF_UPSTREAM_TIMEOUT_MS', '8000')),
+    ingestion: {
+      dataDir: env('DATA_DIR', 'data'),
+      intervalMinutes: Number(env('INGEST_INTERVAL_MINUTES', '60')),
+      backfillDays: Number(env('INGEST_BACKFILL_DAYS', '7')),
+    },
+    calitateAer: {
+      baseURL: env('CALITATE_AER_BASE_URL', 'https://calitateaer.ro:8443'),
+      username: env('CALITATE_AER_USERNAME'),
+      password: env('CALITATE_AER_PASSWORD'),
+    },
+    copernicus: {
+      provider,
+      baseURL: env('COPERNICUS_BASE_URL', provider === 'open-meteo' ? 'https://api.open-meteo.com/v1' : ''),
+      archiveURL: env('COPERNICUS_ARCHIVE_URL', 'https://archive-api.open-meteo.com/v1'),
+      airQualityURL: env('COPERNICUS_AIR_QUALITY_URL', 'https://air-quality-api.open-meteo.com/v1'),
+      apiKey: env('COPERNICUS_API_KEY'),
+    },
+  };
+}
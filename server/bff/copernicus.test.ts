@@ -0,0 +1,65 @@
+import { loadConfig } from './config';
+import { createCopernicusHandlers } from './copernicus';
+import { UpstreamRequest, getJson } from './upstream';
+
+jest.mock('./upstream', () => ({ ...jest.requireActual('./upstream'), getJson: jest.fn() }));
+
+const HOUR = 3600 * 1000;
+const now = new Date('2026-03-10T12:30:00Z');
+
+const getJsonMock = getJson as jest.MockedFunction<typeof getJson>;
+
+// Open-Meteo's hourly series over [from, to), as unix seconds
+const series = (from: string, to: string) => {
+  const time = [];
+  for (let hour = Date.parse(from); hour < Date.parse(to); hour += HOUR) time.push(hour / 1000);
+  return { hourly: { time, temperature_2m: time.map(() => 5) } };
+};
+
+describe('historicalClimate', () => {
+  const handlers = createCopernicusHandlers(loadConfig());
+  const requests = () => getJsonMock.mock.calls.map(([request]) => request as UpstreamRequest);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+    // ERA5 has none of the recent days yet
+    getJsonMock.mockReset().mockImplementation(async ({ url }) =>
+      url.endsWith('/archive') ? series(now.toISOString(), now.toISOString()) : series('2026-03-08T22:00:00Z', '2026-03-11T22:00:00Z')
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('asks Open-Meteo for the days of the browser time zone', async () => {
+    await handlers.historicalClimate(
+      new URLSearchParams({ startDate: '2026-03-02', endDate: '2026-03-03', timezone: 'Europe/Bucharest' })
+    );
+
+    expect(requests().map(request => request.query?.timezone)).toEqual(['Europe/Bucharest', 'Europe/Bucharest']);
+  });
+
+  it('starts the recent hours at local midnight and stops at the current hour', async () => {
+    const points = await handlers.historicalClimate(
+      new URLSearchParams({ startDate: '2026-03-10', endDate: '2026-03-10', timezone: 'Europe/Bucharest' })
+    );
+
+    expect(requests()[1].query).toMatchObject({ timezone: 'Europe/Bucharest', past_days: 1 });
+    const dates = points.map(point => point.date as string);
+    // Midnight in Bucharest is 22:00 UTC the day before
+    expect(dates[0]).toBe('2026-03-09T22:00:00.000Z');
+    expect(dates[dates.length - 1]).toBe('2026-03-10T12:00:00.000Z');
+  });
+
+  it('keeps UTC days when no time zone is given and rejects unknown ones', async () => {
+    await handlers.historicalClimate(new URLSearchParams({ startDate: '2026-03-02', endDate: '2026-03-03' }));
+    expect(requests()[0].query?.timezone).toBe('UTC');
+
+    await expect(
+      handlers.historicalClimate(
+        new URLSearchParams({ startDate: '2026-03-02', endDate: '2026-03-03', timezone: 'Mars/Olympus' })
+      )
+    ).rejects.toThrow('timezone');
+  });
+});
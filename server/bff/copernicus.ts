@@ -0,0 +1,290 @@
+// server/bff/copernicus.ts
+import { BffConfig } from './config';
+import { UpstreamError, getJson, toArray, toNumber } from './upstream';
+
+type Query = URLSearchParams;
+type JsonObject = Record<string, unknown>;
+
+// Used when the browser does not send coordinates
+const BUCHAREST = { lat: 44.4268, lon: 26.1025 };
+
+// Wind, precipitation and the boundary layer explain most pollution episodes:
+// a low mixing height under calm, dry weather traps emissions near the ground
+const DISPERSION_VARIABLES = [
+  'wind_direction_10m',
+  'wind_gusts_10m',
+  'precipitation',
+  'cloud_cover',
+  'boundary_layer_height',
+];
+
+const WEATHER_VARIABLES = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'wind_speed_10m',
+  'surface_pressure',
+  'uv_index',
+  'visibility',
+  ...DISPERSION_VARIABLES,
+];
+// ERA5 has no visibility
+const CLIMATE_VARIABLES = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'wind_speed_10m',
+  'surface_pressure',
+  ...DISPERSION_VARIABLES,
+];
+
+const MAX_FORECAST_HOURS = 72;
+
+// ERA5 lags about five days behind; the last days come from the forecast
+// API's own analyses instead
+const RECENT_DAYS = 7;
+
+const DAY = 24 * 3600 * 1000;
+
+// CAMS species in μg/m³, in the order of the normalized fields
+const AIR_QUALITY_VARIABLES = ['pm2_5', 'pm10', 'nitrogen_dioxide', 'ozone', 'sulphur_dioxide'];
+
+// The CAMS European forecast runs four days ahead
+const MAX_AIR_QUALITY_FORECAST_HOURS = 96;
+
+interface OpenMeteoSeries {
+  time?: number[];
+  [variable: string]: unknown;
+}
+
+const coordinates = (query: Query) => {
+  const lat = toNumber(query.get('lat')) ?? BUCHAREST.lat;
+  const lon = toNumber(query.get('lon')) ?? BUCHAREST.lon;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new UpstreamError('lat/lon out of range', 400);
+  }
+  return { latitude: lat, longitude: lon };
+};
+
+const isoDate = (query: Query, name: string): string => {
+  const value = query.get(name) || '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new UpstreamError(`${name} must be yyyy-MM-dd`, 400);
+  }
+  return value;
+};
+
+// Calendar days of the historical range are those of `timezone`, the
+// browser's own, so they match the days it caches; UTC when it does not say
+const timeZone = (query: Query): string => {
+  const value = query.get('timezone') || 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+  } catch (error) {
+    throw new UpstreamError('timezone must be an IANA time zone', 400);
+  }
+  return value;
+};
+
+// Offset of `zone` from UTC at `time`, in ms
+const zoneOffset = (time: number, zone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(time)
+      .map(part => [part.type, Number(part.value)])
+  );
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return local - (time - (time % 1000));
+};
+
+/** First instant of the yyyy-MM-dd `date` in `zone` */
+const startOfZonedDay = (date: string, zone: string): number => {
+  const midnight = Date.parse(`${date}T00:00:00Z`);
+  return midnight - zoneOffset(midnight - zoneOffset(midnight, zone), zone);
+};
+
+const dispersionFields = (item: JsonObject) => ({
+  windDirection: toNumber(item.windDirection ?? item.wind_direction_10m),
+  windGusts: toNumber(item.windGusts ?? item.wind_gusts_10m),
+  precipitation: toNumber(item.precipitation),
+  cloudCover: toNumber(item.cloudCover ?? item.cloud_cover),
+  boundaryLayerHeight: toNumber(item.boundaryLayerHeight ?? item.boundary_layer_height),
+});
+
+const weatherFields = (item: JsonObject) => ({
+  temperature: toNumber(item.temperature ?? item.temperature_2m),
+  humidity: toNumber(item.humidity ?? item.relative_humidity_2m),
+  windSpeed: toNumber(item.windSpeed ?? item.wind_speed_10m),
+  pressure: toNumber(item.pressure ?? item.surface_pressure),
+  uvIndex: toNumber(item.uvIndex ?? item.uv_index),
+  visibility: toNumber(item.visibility),
+  ...dispersionFields(item),
+});
+
+// Open-Meteo reports visibility in metres, the normalized shape in km
+const openMeteoWeatherFields = (item: JsonObject) => {
+  const fields = weatherFields(item);
+  return { ...fields, visibility: fields.visibility === null ? null : Number((fields.visibility / 1000).toFixed(2)) };
+};
+
+const climateFields = (item: JsonObject) => {
+  const { temperature, humidity, windSpeed, pressure } = weatherFields(item);
+  return { temperature, humidity, windSpeed, pressure, ...dispersionFields(item) };
+};
+
+const airQualityFields = (item: JsonObject) => ({
+  pm25: toNumber(item.pm25 ?? item.pm2_5),
+  pm10: toNumber(item.pm10),
+  no2: toNumber(item.no2 ?? item.nitrogen_dioxide),
+  o3: toNumber(item.o3 ?? item.ozone),
+  so2: toNumber(item.so2 ?? item.sulphur_dioxide),
+});
+
+const unixToISO = (seconds: unknown): string => new Date(Number(seconds) * 1000).toISOString();
+
+/** Turn Open-Meteo's column arrays into one object per timestamp */
+const rows = (series: OpenMeteoSeries | undefined): JsonObject[] => {
+  if (!series || !Array.isArray(series.time)) {
+    throw new UpstreamError('Expected an hourly series from upstream', 502);
+  }
+  return series.time.map((time, i) => {
+    const row: JsonObject = { time: unixToISO(time) };
+    Object.entries(series).forEach(([variable, values]) => {
+      if (variable !== 'time' && Array.isArray(values)) row[variable] = values[i];
+    });
+    return row;
+  });
+};
+
+/**
+ * Implementation of the /api/copernicus routes CopernicusService calls.
+ * Whatever the provider, the browser gets the same normalized shapes.
+ */
+export function createCopernicusHandlers({ copernicus, timeoutMs }: BffConfig) {
+  const apiKey = copernicus.apiKey ? { apikey: copernicus.apiKey } : {};
+
+  const openMeteo = (base: string, path: string, query: Record<string, string | number>) =>
+    getJson<JsonObject>({
+      url: base.replace(/\/$/, '') + path,
+      query: { timezone: 'GMT', ...query, ...apiKey, timeformat: 'unixtime' },
+      timeoutMs,
+    });
+
+  const passthrough = (path: string, query: Query) =>
+    getJson({
+      url: `${copernicus.baseURL.replace(/\/$/, '')}${path}?${query.toString()}`,
+      headers: copernicus.apiKey ? { Authorization: `Bearer ${copernicus.apiKey}` } : {},
+      timeoutMs,
+    });
+
+  return {
+    async currentWeather(query: Query) {
+      if (copernicus.provider === 'passthrough') {
+        const item = (await passthrough('/current-weather', query)) as JsonObject;
+        return { time: item.time ?? new Date().toISOString(), ...weatherFields(item) };
+      }
+
+      const payload = await openMeteo(copernicus.baseURL, '/forecast', {
+        ...coordinates(query),
+        current: WEATHER_VARIABLES.join(','),
+      });
+      const current = (payload.current || {}) as JsonObject;
+      return { time: unixToISO(current.time), ...openMeteoWeatherFields(current) };
+    },
+
+    async hourlyForecast(query: Query) {
+      const hours = Math.min(MAX_FORECAST_HOURS, Math.max(1, toNumber(query.get('hours')) ?? 24));
+
+      if (copernicus.provider === 'passthrough') {
+        return toArray(await passthrough('/hourly-forecast', query), 'forecast hours')
+          .map(item => item as JsonObject)
+          .map(item => ({ time: item.time, ...weatherFields(item) }));
+      }
+
+      const payload = await openMeteo(copernicus.baseURL, '/forecast', {
+        ...coordinates(query),
+        hourly: WEATHER_VARIABLES.join(','),
+        forecast_hours: hours,
+      });
+      return rows(payload.hourly as OpenMeteoSeries).map(row => ({ time: row.time, ...openMeteoWeatherFields(row) }));
+    },
+
+    async airQualityForecast(query: Query) {
+      const hours = Math.min(MAX_AIR_QUALITY_FORECAST_HOURS, Math.max(1, toNumber(query.get('hours')) ?? 72));
+
+      if (copernicus.provider === 'passthrough') {
+        return toArray(await passthrough('/air-quality-forecast', query), 'forecast hours')
+          .map(item => item as JsonObject)
+          .map(item => ({ time: item.time, ...airQualityFields(item) }));
+      }
+
+      const payload = await openMeteo(copernicus.airQualityURL, '/air-quality', {
+        ...coordinates(query),
+        hourly: AIR_QUALITY_VARIABLES.join(','),
+        forecast_hours: hours,
+      });
+      return rows(payload.hourly as OpenMeteoSeries).map(row => ({ time: row.time, ...airQualityFields(row) }));
+    },
+
+    async historicalClimate(query: Query) {
+      if (copernicus.provider === 'passthrough') {
+        return toArray(await passthrough('/historical-climate', query), 'climate points')
+          .map(item => item as JsonObject)
+          .map(item => ({ date: item.date, ...climateFields(item) }));
+      }
+
+      const startDate = isoDate(query, 'startDate');
+      const endDate = isoDate(query, 'endDate');
+      const timezone = timeZone(query);
+      const now = Date.now();
+      const dayAfterEnd = new Date(Date.parse(endDate) + DAY).toISOString().slice(0, 10);
+      const rangeEnd = Math.min(now, startOfZonedDay(dayAfterEnd, timezone));
+      const recentStart = Math.max(startOfZonedDay(startDate, timezone), now - RECENT_DAYS * DAY);
+
+      // ERA5 lags a few days behind, hours it does not have yet come back as null
+      const [archive, recent] = await Promise.all([
+        openMeteo(copernicus.archiveURL, '/archive', {
+          ...coordinates(query),
+          start_date: startDate,
+          end_date: endDate,
+          hourly: CLIMATE_VARIABLES.join(','),
+          timezone,
+        }),
+        recentStart < rangeEnd
+          ? openMeteo(copernicus.baseURL, '/forecast', {
+              ...coordinates(query),
+              hourly: CLIMATE_VARIABLES.join(','),
+              past_days: Math.ceil((now - recentStart) / DAY),
+              forecast_days: 1,
+              timezone,
+            })
+          : null,
+      ]);
+
+      const points = (payload: JsonObject) =>
+        rows(payload.hourly as OpenMeteoSeries)
+          .map(row => ({ date: row.time as string, ...climateFields(row) }))
+          .filter(point => point.temperature !== null);
+
+      // Reanalysis where it exists, the forecast API's analyses for the
+      // recent hours it does not have yet
+      const byHour = new Map(points(archive).map(point => [point.date, point]));
+      if (recent) {
+        points(recent)
+          .filter(point => {
+            const time = Date.parse(point.date);
+            return time >= recentStart && time < rangeEnd && !byHour.has(point.date);
+          })
+          .forEach(point => byHour.set(point.date, point));
+      }
+      return Array.from(byHour.values()).sort((a, b) => a.date.localeCompare(b.date));
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHistoryHandler } from './history';
+import { TimeSeriesStore } from './store';
+
+describe('GET /api/history', () => {
+  let dir: string;
+  let history: ReturnType<typeof createHistoryHandler>;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+    const store = new TimeSeriesStore(dir);
+    await store.append('station-4', [
+      { hour: '2026-03-01T08:00:00.000Z', source: 'current', values: { pm25: 10, no2: 20 } },
+      { hour: '2026-03-01T09:00:00.000Z', source: 'current', values: { pm25: 30, no2: 40 } },
+      { hour: '2026-03-02T08:00:00.000Z', source: 'backfill', values: { pm25: 50, no2: 60 } },
+    ]);
+    history = createHistoryHandler(store);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('aggregates the requested fields by day', async () => {
+    const result = await history(
+      new URLSearchParams({ stationId: '4', pollutant: 'pm25', start: '2026-03-01', end: '2026-03-03' })
+    );
+
+    expect(result.resolution).toBe('daily');
+    expect(result.points).toEqual([
+      { date: '2026-03-01T00:00:00.000Z', count: 2, mean: { pm25: 20 }, min: { pm25: 10 }, max: { pm25: 30 } },
+      { date: '2026-03-02T00:00:00.000Z', count: 1, mean: { pm25: 50 }, min: { pm25: 50 }, max: { pm25: 50 } },
+    ]);
+  });
+
+  it('returns every stored field hour by hour', async () => {
+    const result = await history(
+      new URLSearchParams({ stationId: '4', resolution: 'hourly', start: '2026-03-01T08:00:00Z', end: '2026-03-01T09:00:00Z' })
+    );
+
+    expect(result.points.map(point => point.mean)).toEqual([
+      { pm25: 10, no2: 20 },
+      { pm25: 30, no2: 40 },
+    ]);
+  });
+
+  it('rejects invalid parameters and ranges too long for the resolution', () => {
+    expect(() => history(new URLSearchParams({ stationId: '../4' }))).toThrow('stationId');
+    expect(() => history(new URLSearchParams({ stationId: '4', resolution: 'weekly' }))).toThrow('resolution');
+    expect(() => history(new URLSearchParams({ stationId: '4', pollutant: 'pm25;rm' }))).toThrow('pollutant');
+    expect(() =>
+      history(new URLSearchParams({ stationId: '4', resolution: 'hourly', start: '2025-01-01', end: '2026-01-01' }))
+    ).toThrow('at most 93 days');
+    expect(() => history(new URLSearchParams({ stationId: '4', start: '2026-03-02', end: '2026-03-01' }))).toThrow(
+      'start must be before end'
+    );
+  });
+});
@@ -0,0 +1,67 @@
+// server/bff/history.ts
+import { WEATHER_SERIES, stationSeries } from './ingest';
+import { RESOLUTIONS, Resolution, TimeSeriesStore } from './store';
+import { UpstreamError } from './upstream';
+
+const DAY = 24 * 3600 * 1000;
+
+// Keep responses bounded: hourly points are only served for short ranges
+const MAX_DAYS: Record<Resolution, number> = {
+  hourly: 93,
+  daily: 5 * 366,
+  monthly: 20 * 366,
+};
+
+const FIELDS = /^[a-zA-Z0-9]+(,[a-zA-Z0-9]+)*$/;
+
+const parseDate = (value: string | null, fallback: Date, name: string): Date => {
+  if (!value) return fallback;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new UpstreamError(`${name} is not a valid date`, 400);
+  }
+  return date;
+};
+
+/**
+ * GET /api/history?stationId=1&pollutant=pm25,no2&resolution=daily&start=2023-01-01&end=2025-12-31
+ *
+ * `stationId=weather` returns the weather series. Without `pollutant` every
+ * stored field is returned. The range defaults to the last year.
+ */
+export function createHistoryHandler(store: TimeSeriesStore) {
+  return (query: URLSearchParams) => {
+    const stationId = query.get('stationId') || '';
+    if (stationId !== WEATHER_SERIES && !/^\d+$/.test(stationId)) {
+      throw new UpstreamError('stationId must be a station id or "weather"', 400);
+    }
+
+    const resolution = (query.get('resolution') || 'daily') as Resolution;
+    if (!RESOLUTIONS.includes(resolution)) {
+      throw new UpstreamError(`resolution must be one of ${RESOLUTIONS.join(', ')}`, 400);
+    }
+
+    const pollutant = query.get('pollutant');
+    if (pollutant && !FIELDS.test(pollutant)) {
+      throw new UpstreamError('pollutant must be a comma separated list of field names', 400);
+    }
+
+    const end = parseDate(query.get('end'), new Date(), 'end');
+    const start = parseDate(query.get('start'), new Date(end.getTime() - 365 * DAY), 'start');
+    if (start > end) {
+      throw new UpstreamError('start must be before end', 400);
+    }
+    if (end.getTime() - start.getTime() > MAX_DAYS[resolution] * DAY) {
+      throw new UpstreamError(`${resolution} queries cover at most ${MAX_DAYS[resolution]} days`, 400);
+    }
+
+    const series = stationId === WEATHER_SERIES ? WEATHER_SERIES : stationSeries(stationId);
+    return Promise.resolve({
+      stationId,
+      resolution,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      points: store.query(series, start, end, resolution, pollutant ? pollutant.split(',') : undefined),
+    });
+  };
+}
@@ -0,0 +1,149 @@
+// server/bff/index.ts
+//
+// Backend-for-frontend: the only server the browser talks to. It keeps the
+// calitateaer.ro credentials and the Copernicus API key out of the JS bundle,
+// proxies /api/calitateaer/* and implements /api/copernicus/*. In production
+// it also serves the built dashboard so everything is same-origin; in
+// development the CRA dev server forwards /api to it (see "proxy" in
+// package.json). Unless disabled, it also runs the ingestion job that feeds
+// the local time-series store behind /api/history.
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { URL } from 'url';
+import { createCalitateAerHandlers } from './calitateAer';
+import { loadConfig } from './config';
+import { createCopernicusHandlers } from './copernicus';
+import { createHistoryHandler } from './history';
+import { Ingestor } from './ingest';
+import { TimeSeriesStore } from './store';
+import { UpstreamError } from './upstream';
+
+type Handler = (params: string[], query: URLSearchParams) => Promise<unknown>;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.ico': 'image/x-icon',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.map': 'application/json',
+};
+
+const config = loadConfig();
+const calitateAer = createCalitateAerHandlers(config);
+const copernicus = createCopernicusHandlers(config);
+const store = new TimeSeriesStore(config.ingestion.dataDir);
+const history = createHistoryHandler(store);
+
+const routes: Array<{ pattern: RegExp; handler: Handler }> = [
+  { pattern: /^\/api\/calitateaer\/stations$/, handler: () => calitateAer.stations() },
+  { pattern: /^\/api\/calitateaer\/measurements\/station\/([^/]+)\/current$/, handler: ([id]) => calitateAer.current(id) },
+  {
+    pattern: /^\/api\/calitateaer\/measurements\/station\/([^/]+)\/historical$/,
+    handler: ([id], query) => calitateAer.historical(id, query),
+  },
+  { pattern: /^\/api\/copernicus\/current-weather$/, handler: (_, query) => copernicus.currentWeather(query) },
+  { pattern: /^\/api\/copernicus\/hourly-forecast$/, handler: (_, query) => copernicus.hourlyForecast(query) },
+  { pattern: /^\/api\/copernicus\/air-quality-forecast$/, handler: (_, query) => copernicus.airQualityForecast(query) },
+  { pattern: /^\/api\/copernicus\/historical-climate$/, handler: (_, query) => copernicus.historicalClimate(query) },
+  { pattern: /^\/api\/history$/, handler: (_, query) => history(query) },
+];
+
+const startIngestion = () => {
+  const { intervalMinutes, backfillDays } = config.ingestion;
+  if (!(intervalMinutes > 0)) return;
+
+  const ingestor = new Ingestor(store, calitateAer, copernicus, backfillDays);
+  let running = false;
+  const run = async () => {
+    // A slow upstream must not stack runs on top of each other
+    if (running) return;
+    running = true;
+    try {
+      const report = await ingestor.run();
+      console.log(`Ingestion: ${report.appended} readings, ${report.backfilled} backfilled, ${report.errors.length} errors`);
+      report.errors.forEach(error => console.warn(`  ${error}`));
+    } catch (error) {
+      // The store or the file system failed; the next run tries again
+      console.error('Ingestion run failed:', error instanceof Error ? error.message : error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, intervalMinutes * 60 * 1000);
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const serveStatic = (res: http.ServerResponse, pathname: string) => {
+  const root = path.resolve(config.staticDir);
+  let requested: string;
+  try {
+    requested = path.resolve(root, `.${decodeURIComponent(pathname)}`);
+  } catch (error) {
+    sendJson(res, 400, { error: 'Malformed path' });
+    return;
+  }
+  // Unknown paths fall back to index.html; nothing outside the build is served
+  const file = requested.startsWith(root + path.sep) && fs.existsSync(requested) && fs.statSync(requested).isFile()
+    ? requested
+    : path.join(root, 'index.html');
+
+  fs.readFile(file, (error, content) => {
+    if (error) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+    res.end(content);
+  });
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (!url.pathname.startsWith('/api/')) {
+    serveStatic(res, url.pathname);
+    return;
+  }
+
+  const route = routes.find(({ pattern }) => pattern.test(url.pathname));
+  if (!route) {
+    sendJson(res, 404, { error: `No route for ${url.pathname}` });
+    return;
+  }
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: 'Only GET is supported' }, { Allow: 'GET' });
+    return;
+  }
+
+  const started = Date.now();
+  try {
+    const params = (url.pathname.match(route.pattern) || []).slice(1);
+    sendJson(res, 200, await route.handler(params, url.searchParams));
+    console.log(`GET ${url.pathname} 200 ${Date.now() - started}ms`);
+  } catch (error) {
+    const status = error instanceof UpstreamError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    const headers = error instanceof UpstreamError && error.retryAfter ? { 'Retry-After': error.retryAfter } : {};
+    console.warn(`GET ${url.pathname} ${status} ${Date.now() - started}ms: ${message}`);
+    sendJson(res, status, { error: message }, headers);
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`BFF listening on http://localhost:${config.port}`);
+  console.log(`  calitateaer.ro -> ${config.calitateAer.baseURL}${config.calitateAer.username ? ' (authenticated)' : ''}`);
+  console.log(`  copernicus     -> ${config.copernicus.provider} ${config.copernicus.baseURL}`);
+  startIngestion();
+});
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { convert } from '../../src/services/unitConversion';
+import { CalitateAer, Copernicus, Ingestor, WEATHER_SERIES, stationSeries } from './ingest';
+import { TimeSeriesStore } from './store';
+
+const HOUR = 3600 * 1000;
+const now = new Date('2026-03-10T12:30:00Z');
+
+// Every hour of the requested days, like the historical endpoints
+const hoursOf = (query: URLSearchParams, values: Record<string, number>) => {
+  const points = [];
+  const end = new Date(`${query.get('endDate')}T23:00:00Z`).getTime();
+  for (let time = new Date(`${query.get('startDate')}T00:00:00Z`).getTime(); time <= end; time += HOUR) {
+    points.push({ date: new Date(time).toISOString(), ...values });
+  }
+  return points;
+};
+
+type Mocked<T> = { [K in keyof T]: T[K] extends (...args: infer A) => infer R ? jest.Mock<R, A> : never };
+
+const station = { id: 1 };
+const reading = { stationId: 1, timestamp: now.toISOString() as string | null, pm25: 12, no2: 40 };
+const weather = { time: now.toISOString(), temperature: 9, pressure: 1010, visibility: 12 };
+
+const upstreams = () => {
+  const calitateAer: Mocked<CalitateAer> = {
+    stations: jest.fn(async () => [station]),
+    current: jest.fn(async (_id: string) => reading),
+    historical: jest.fn(async (_id: string, query: URLSearchParams) => hoursOf(query, { pm25: 8, no2: 30 })),
+  };
+  const copernicus: Mocked<Copernicus> = {
+    currentWeather: jest.fn(async (_query: URLSearchParams) => weather),
+    historicalClimate: jest.fn(async (query: URLSearchParams) => hoursOf(query, { temperature: 5, pressure: 1012 })),
+  };
+  return { calitateAer, copernicus };
+};
+
+const ingestor = (store: TimeSeriesStore, { calitateAer, copernicus }: ReturnType<typeof upstreams>) =>
+  new Ingestor(store, calitateAer, copernicus, 3);
+
+const spans = (mock: jest.Mock) =>
+  mock.mock.calls.map(call => {
+    const query = call[call.length - 1] as URLSearchParams;
+    return [query.get('startDate'), query.get('endDate')];
+  });
+
+describe('Ingestor', () => {
+  let dir: string;
+  let store: TimeSeriesStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-'));
+    store = new TimeSeriesStore(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores the current readings and backfills the missing days in one request', async () => {
+    const mocks = upstreams();
+    const report = await ingestor(store, mocks).run(now);
+
+    expect(report).toMatchObject({ stations: 1, appended: 2, errors: [] });
+    expect(spans(mocks.calitateAer.historical)).toEqual([['2026-03-07', '2026-03-10']]);
+    // From 12:00 three days ago up to the polled hour
+    expect(report.backfilled).toBe(2 * 72);
+    expect(store.missingHours(stationSeries(1), new Date('2026-03-07T12:00:00Z'), now)).toEqual([]);
+  });
+
+  it('requests one span per run of consecutive days that have gaps', async () => {
+    const complete = [];
+    for (let time = Date.parse('2026-03-08T00:00:00Z'); time <= Date.parse('2026-03-08T23:00:00Z'); time += HOUR) {
+      complete.push({ hour: new Date(time).toISOString(), source: 'backfill' as const, values: { pm25: 1 } });
+    }
+    await store.append(stationSeries(1), complete);
+    const mocks = upstreams();
+
+    await ingestor(store, mocks).run(now);
+
+    expect(spans(mocks.calitateAer.historical)).toEqual([
+      ['2026-03-07', '2026-03-07'],
+      ['2026-03-09', '2026-03-10'],
+    ]);
+  });
+
+  it('never overwrites a polled reading with backfilled data', async () => {
+    const mocks = upstreams();
+    await ingestor(store, mocks).run(now);
+
+    const [polled] = store.query(stationSeries(1), new Date('2026-03-10T12:00:00Z'), now, 'hourly');
+    expect(polled.mean).toMatchObject({ pm25: 12, no2: 40 });
+    const [weather] = store.query(WEATHER_SERIES, new Date('2026-03-10T12:00:00Z'), now, 'hourly');
+    expect(weather.mean).toMatchObject({ temperature: 9 });
+  });
+
+  it('leaves visibility out of the weather series, as the historical points do', async () => {
+    await ingestor(store, upstreams()).run(now);
+
+    const [polled, backfilled] = [new Date('2026-03-10T12:00:00Z'), new Date('2026-03-09T12:00:00Z')].map(
+      hour => store.query(WEATHER_SERIES, hour, hour, 'hourly')[0]
+    );
+    expect(Object.keys(polled.mean).sort()).toEqual(Object.keys(backfilled.mean).sort());
+    expect(polled.mean).not.toHaveProperty('visibility');
+  });
+
+  it('stores readings in the units and with the conversions of the dashboard', async () => {
+    const mocks = upstreams();
+    mocks.calitateAer.current.mockResolvedValueOnce({
+      ...reading,
+      no2: 53,
+      co: 1,
+      so2: 4,
+      units: { no2: 'ppb', co: 'PPM', so2: 'ppt' },
+    });
+
+    await ingestor(store, mocks).run(now);
+
+    const [point] = store.query(stationSeries(1), new Date('2026-03-10T12:00:00Z'), now, 'hourly');
+    expect(point.mean).toEqual({
+      pm25: 12,
+      pm10: null,
+      no2: convert('no2', { value: 53, unit: 'ppb' }, 'μg/m³'),
+      o3: null,
+      so2: null,
+      co: convert('co', { value: 1, unit: 'ppm' }, 'mg/m³'),
+    });
+  });
+
+  it('stores a reading at the hour it was measured', async () => {
+    const mocks = upstreams();
+    mocks.calitateAer.current.mockResolvedValueOnce({ ...reading, timestamp: '2026-03-10T11:55:00Z' });
+
+    await ingestor(store, mocks).run(now);
+
+    const points = store.query(stationSeries(1), new Date('2026-03-10T11:00:00Z'), now, 'hourly');
+    expect(points.map(point => [point.date, point.mean.pm25])).toEqual([['2026-03-10T11:00:00.000Z', 12]]);
+  });
+
+  it('skips readings that are stale or have no time, so the backfill can fill their hours', async () => {
+    const mocks = upstreams();
+    mocks.calitateAer.current.mockResolvedValueOnce({ ...reading, timestamp: '2026-03-10T06:00:00Z' });
+    mocks.calitateAer.current.mockResolvedValueOnce({ ...reading, timestamp: null });
+    mocks.calitateAer.stations.mockResolvedValueOnce([station, { ...station, id: 2 }]);
+
+    const report = await ingestor(store, mocks).run(now);
+
+    expect(report.appended).toBe(1);
+    expect(report.errors).toEqual([
+      'station 1: no recent reading (2026-03-10T06:00:00Z)',
+      'station 2: no recent reading (no timestamp)',
+    ]);
+    // Six hours ago was backfilled with the historical value
+    const [point] = store.query(stationSeries(1), new Date('2026-03-10T06:00:00Z'), new Date('2026-03-10T06:00:00Z'), 'hourly');
+    expect(point.mean.pm25).toBe(8);
+  });
+
+  it('reports failures per station and keeps going', async () => {
+    const mocks = upstreams();
+    mocks.calitateAer.current.mockRejectedValueOnce(new Error('timeout'));
+
+    const report = await ingestor(store, mocks).run(now);
+
+    expect(report.errors).toEqual(['station 1: timeout']);
+    expect(report.appended).toBe(1);
+  });
+});
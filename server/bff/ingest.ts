@@ -0,0 +1,200 @@
+// server/bff/ingest.ts
+import { normalizeUnits } from '../../src/services/unitConversion';
+import { StoredRecord, TimeSeriesStore, floorToHour } from './store';
+
+export const WEATHER_SERIES = 'weather';
+
+export const stationSeries = (stationId: number | string) => `station-${stationId}`;
+
+const POLLUTANT_FIELDS = ['pm25', 'pm10', 'no2', 'o3', 'so2', 'co'];
+// Wind direction is left out: the store's hourly-to-daily means are
+// arithmetic, which is meaningless for angles. So is visibility, which the
+// historical endpoint lacks and backfilled hours could not fill.
+const WEATHER_FIELDS = [
+  'temperature',
+  'humidity',
+  'windSpeed',
+  'pressure',
+  'windGusts',
+  'precipitation',
+  'cloudCover',
+  'boundaryLayerHeight',
+];
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+// A reading older than this is not polled again; the backfill fills its
+// hours once the historical endpoint has them
+const MAX_READING_AGE = 3 * HOUR;
+
+/**
+ * Hour a reading is stored at: the hour it was measured, not the hour it was
+ * polled. Null for readings without a time or too old, which would otherwise
+ * copy the last value of a stuck station into every hour and keep the
+ * backfill from writing the real data there.
+ */
+const readingHour = (time: unknown, now: Date): string | null => {
+  const measured = typeof time === 'string' ? new Date(time).getTime() : NaN;
+  if (isNaN(measured) || measured > now.getTime() + HOUR || now.getTime() - measured > MAX_READING_AGE) return null;
+  return floorToHour(new Date(measured));
+};
+
+// The store keeps μg/m³ (CO mg/m³). Sources that report other units are
+// converted with the client's own conversions, at 25 °C and 1 atm.
+const inStoredUnits = (item: Record<string, unknown>): Record<string, unknown> => ({
+  ...item,
+  ...normalizeUnits(item, item.units && typeof item.units === 'object' ? (item.units as Record<string, unknown>) : {}),
+});
+
+type Row = Record<string, unknown>;
+
+/** What the ingestion reads of the calitateaer.ro handlers */
+export interface CalitateAer {
+  stations(): Promise<Array<{ id: number | null }>>;
+  current(id: string): Promise<Row & { timestamp: string | null }>;
+  historical(id: string, query: URLSearchParams): Promise<Row[]>;
+}
+
+/** What the ingestion reads of the Copernicus handlers */
+export interface Copernicus {
+  currentWeather(query: URLSearchParams): Promise<Row>;
+  historicalClimate(query: URLSearchParams): Promise<Row[]>;
+}
+
+export interface IngestionReport {
+  stations: number;
+  appended: number;
+  backfilled: number;
+  errors: string[];
+}
+
+const pick = (item: Record<string, unknown>, fields: string[]): Record<string, number | null> =>
+  Object.fromEntries(fields.map(field => [field, typeof item[field] === 'number' ? (item[field] as number) : null]));
+
+/** Group hours into [first day, last day] spans of consecutive UTC days */
+const daySpans = (hours: string[]): Array<[string, string]> => {
+  const days = Array.from(new Set(hours.map(hour => hour.slice(0, 10)))).sort();
+  const spans: Array<[string, string]> = [];
+
+  days.forEach(day => {
+    const last = spans[spans.length - 1];
+    if (last && new Date(day).getTime() - new Date(last[1]).getTime() === DAY) {
+      last[1] = day;
+    } else {
+      spans.push([day, day]);
+    }
+  });
+  return spans;
+};
+
+const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Polls the current readings of every station and the weather into the
+ * store, and fills hours it missed (downtime, new stations) from the
+ * historical endpoints.
+ */
+export class Ingestor {
+  constructor(
+    private store: TimeSeriesStore,
+    private calitateAer: CalitateAer,
+    private copernicus: Copernicus,
+    private backfillDays: number
+  ) {}
+
+  async run(now: Date = new Date()): Promise<IngestionReport> {
+    const report: IngestionReport = { stations: 0, appended: 0, backfilled: 0, errors: [] };
+
+    let stations: Array<{ id: number | null }> = [];
+    try {
+      stations = await this.calitateAer.stations();
+      report.stations = stations.length;
+    } catch (error) {
+      report.errors.push(`stations: ${message(error)}`);
+    }
+
+    for (const { id } of stations) {
+      if (id === null) continue;
+      try {
+        const current = await this.calitateAer.current(String(id));
+        const hour = readingHour(current.timestamp, now);
+        if (hour) {
+          await this.store.append(stationSeries(id), [
+            { hour, source: 'current', values: pick(inStoredUnits(current), POLLUTANT_FIELDS) },
+          ]);
+          report.appended += 1;
+        } else {
+          report.errors.push(`station ${id}: no recent reading (${current.timestamp ?? 'no timestamp'})`);
+        }
+      } catch (error) {
+        report.errors.push(`station ${id}: ${message(error)}`);
+      }
+
+      report.backfilled += await this.backfill(stationSeries(id), now, report, async (start, end) =>
+        (await this.calitateAer.historical(String(id), new URLSearchParams({ startDate: start, endDate: end }))).map(
+          inStoredUnits
+        )
+      );
+    }
+
+    try {
+      const weather = await this.copernicus.currentWeather(new URLSearchParams());
+      const hour = readingHour(weather.time, now);
+      if (hour) {
+        await this.store.append(WEATHER_SERIES, [{ hour, source: 'current', values: pick(weather, WEATHER_FIELDS) }]);
+        report.appended += 1;
+      } else {
+        report.errors.push(`weather: no recent reading (${weather.time ?? 'no timestamp'})`);
+      }
+    } catch (error) {
+      report.errors.push(`weather: ${message(error)}`);
+    }
+
+    report.backfilled += await this.backfill(WEATHER_SERIES, now, report, (start, end) =>
+      this.copernicus.historicalClimate(new URLSearchParams({ startDate: start, endDate: end }))
+    );
+
+    return report;
+  }
+
+  /**
+   * Fetch the missing hours of the last `backfillDays` days, one request per
+   * run of consecutive days. Only hours that are still missing are written,
+   * polled readings are never overwritten.
+   */
+  private async backfill(
+    series: string,
+    now: Date,
+    report: IngestionReport,
+    fetchSpan: (startDate: string, endDate: string) => Promise<Array<Record<string, unknown>>>
+  ): Promise<number> {
+    const currentHour = floorToHour(now);
+    const missing = this.store
+      .missingHours(series, new Date(now.getTime() - this.backfillDays * DAY), now)
+      .filter(hour => hour !== currentHour);
+    if (missing.length === 0) return 0;
+
+    const wanted = new Set(missing);
+    const fields = series === WEATHER_SERIES ? WEATHER_FIELDS : POLLUTANT_FIELDS;
+    let written = 0;
+
+    for (const [startDate, endDate] of daySpans(missing)) {
+      try {
+        const points = await fetchSpan(startDate, endDate);
+        const records: StoredRecord[] = points
+          .filter(point => typeof point.date === 'string')
+          .map(point => ({ hour: floorToHour(point.date as string), source: 'backfill' as const, values: pick(point, fields) }))
+          .filter(record => wanted.delete(record.hour));
+
+        if (records.length > 0) {
+          await this.store.append(series, records);
+          written += records.length;
+        }
+      } catch (error) {
+        report.errors.push(`${series} backfill ${startDate}..${endDate}: ${message(error)}`);
+      }
+    }
+    return written;
+  }
+}
@@ -0,0 +1,33 @@
+// server/bff/ingestCli.ts
+//
+// One-off ingestion run, e.g. from cron or to seed a new store:
+//   npm run ingest                    # poll now, backfill INGEST_BACKFILL_DAYS
+//   npm run ingest -- --backfill 365  # backfill a whole year
+
+import { createCalitateAerHandlers } from './calitateAer';
+import { loadConfig } from './config';
+import { createCopernicusHandlers } from './copernicus';
+import { Ingestor } from './ingest';
+import { TimeSeriesStore } from './store';
+
+const config = loadConfig();
+const flag = process.argv.indexOf('--backfill');
+const backfillDays = flag >= 0 ? Number(process.argv[flag + 1]) : config.ingestion.backfillDays;
+
+if (!(backfillDays >= 0)) {
+  console.error('--backfill expects a number of days');
+  process.exit(1);
+}
+
+const ingestor = new Ingestor(
+  new TimeSeriesStore(config.ingestion.dataDir),
+  createCalitateAerHandlers(config),
+  createCopernicusHandlers(config),
+  backfillDays
+);
+
+ingestor.run().then(report => {
+  console.log(`${report.stations} stations, ${report.appended} readings, ${report.backfilled} hours backfilled`);
+  report.errors.forEach(error => console.warn(`  ${error}`));
+  process.exit(report.errors.length > 0 && report.appended === 0 ? 1 : 0);
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StoredRecord, TimeSeriesStore } from './store';
+
+const record = (hour: string, values: Record<string, number | null>, source: StoredRecord['source'] = 'current') => ({
+  hour,
+  source,
+  values,
+});
+
+describe('TimeSeriesStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('splits records into monthly files and reads across the month boundary', async () => {
+    const store = new TimeSeriesStore(dir);
+    await store.append('station-1', [
+      record('2026-01-31T22:00:00.000Z', { pm25: 10 }),
+      record('2026-01-31T23:00:00.000Z', { pm25: 20 }),
+      record('2026-02-01T00:00:00.000Z', { pm25: 30 }),
+    ]);
+
+    expect(fs.readdirSync(path.join(dir, 'station-1')).sort()).toEqual(['2026-01.ndjson', '2026-02.ndjson']);
+
+    const reloaded = new TimeSeriesStore(dir);
+    const points = reloaded.query(
+      'station-1',
+      new Date('2026-01-31T23:00:00Z'),
+      new Date('2026-02-01T00:00:00Z'),
+      'hourly'
+    );
+    expect(points.map(point => [point.date, point.mean.pm25])).toEqual([
+      ['2026-01-31T23:00:00.000Z', 20],
+      ['2026-02-01T00:00:00.000Z', 30],
+    ]);
+  });
+
+  it('keeps the last record written for an hour, also after a reload', async () => {
+    const store = new TimeSeriesStore(dir);
+    await store.append('station-1', [record('2026-03-01T10:00:00.000Z', { pm25: 10 }, 'backfill')]);
+    await store.append('station-1', [record('2026-03-01T10:00:00.000Z', { pm25: 12 })]);
+
+    const range = [new Date('2026-03-01T00:00:00Z'), new Date('2026-03-01T23:00:00Z')] as const;
+    for (const instance of [store, new TimeSeriesStore(dir)]) {
+      const [point] = instance.query('station-1', ...range, 'hourly');
+      expect(point.count).toBe(1);
+      expect(point.mean.pm25).toBe(12);
+    }
+  });
+
+  it('lists the hours without a record', async () => {
+    const store = new TimeSeriesStore(dir);
+    await store.append('weather', [record('2026-03-01T01:00:00.000Z', { temperature: 4 })]);
+
+    expect(store.missingHours('weather', new Date('2026-03-01T00:30:00Z'), new Date('2026-03-01T03:00:00Z'))).toEqual([
+      '2026-03-01T00:00:00.000Z',
+      '2026-03-01T02:00:00.000Z',
+      '2026-03-01T03:00:00.000Z',
+    ]);
+  });
+
+  it('aggregates hours into daily and monthly buckets without counting nulls', async () => {
+    const store = new TimeSeriesStore(dir);
+    await store.append('station-1', [
+      record('2026-03-01T00:00:00.000Z', { pm25: 10, no2: null }),
+      record('2026-03-01T12:00:00.000Z', { pm25: 30, no2: 40 }),
+      record('2026-03-02T00:00:00.000Z', { pm25: 20, no2: null }),
+      record('2026-04-01T00:00:00.000Z', { pm25: 50, no2: 60 }),
+    ]);
+    const start = new Date('2026-03-01T00:00:00Z');
+    const end = new Date('2026-04-30T23:00:00Z');
+
+    const daily = store.query('station-1', start, end, 'daily');
+    expect(daily.map(point => point.date)).toEqual([
+      '2026-03-01T00:00:00.000Z',
+      '2026-03-02T00:00:00.000Z',
+      '2026-04-01T00:00:00.000Z',
+    ]);
+    expect(daily[0]).toMatchObject({ count: 2, mean: { pm25: 20, no2: 40 }, min: { pm25: 10 }, max: { pm25: 30 } });
+    expect(daily[1].mean.no2).toBeNull();
+
+    const monthly = store.query('station-1', start, end, 'monthly', ['pm25']);
+    expect(monthly).toEqual([
+      { date: '2026-03-01T00:00:00.000Z', count: 3, mean: { pm25: 20 }, min: { pm25: 10 }, max: { pm25: 30 } },
+      { date: '2026-04-01T00:00:00.000Z', count: 1, mean: { pm25: 50 }, min: { pm25: 50 }, max: { pm25: 50 } },
+    ]);
+  });
+
+  it('keeps only the months used last in memory and reads the others again', async () => {
+    const store = new TimeSeriesStore(dir, 2);
+    await store.append('station-1', [
+      record('2026-01-15T00:00:00.000Z', { pm25: 10 }),
+      record('2026-02-15T00:00:00.000Z', { pm25: 20 }),
+      record('2026-03-15T00:00:00.000Z', { pm25: 30 }),
+    ]);
+    const readFileSync = jest.spyOn(fs, 'readFileSync');
+    const monthOf = (month: string) =>
+      store.query('station-1', new Date(`${month}-01T00:00:00Z`), new Date(`${month}-28T00:00:00Z`), 'hourly');
+
+    try {
+      // January was evicted by March; reading it again evicts February
+      expect(monthOf('2026-01').map(point => point.mean.pm25)).toEqual([10]);
+      expect(monthOf('2026-03').map(point => point.mean.pm25)).toEqual([30]);
+      expect(readFileSync).toHaveBeenCalledTimes(1);
+      expect(monthOf('2026-02').map(point => point.mean.pm25)).toEqual([20]);
+      expect(readFileSync).toHaveBeenCalledTimes(2);
+    } finally {
+      readFileSync.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,186 @@
+// server/bff/store.ts
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Append-only time-series store on the local disk.
+ *
+ * Each series (one per station, plus one for the weather) is split into
+ * monthly NDJSON files: data/<series>/<yyyy-MM>.ndjson. Records are keyed by
+ * the UTC hour they describe; when an hour is written twice the last record
+ * wins, so ingestion never has to rewrite a file. Reading a year of hourly
+ * data for one station touches 12 small files, which keeps multi-year
+ * queries cheap without a database dependency.
+ */
+
+export type Resolution = 'hourly' | 'daily' | 'monthly';
+
+export const RESOLUTIONS: Resolution[] = ['hourly', 'daily', 'monthly'];
+
+export interface StoredRecord {
+  /** Start of the hour, ISO 8601 in UTC */
+  hour: string;
+  /** Where the values came from: the live poll or a backfill */
+  source: 'current' | 'backfill';
+  values: Record<string, number | null>;
+}
+
+export interface SeriesPoint {
+  /** Bucket start, ISO 8601 in UTC */
+  date: string;
+  /** Number of hourly records in the bucket */
+  count: number;
+  mean: Record<string, number | null>;
+  min: Record<string, number | null>;
+  max: Record<string, number | null>;
+}
+
+const HOUR = 3600 * 1000;
+
+// Three years of one station, or the current months of every station
+const DEFAULT_CACHED_MONTHS = 240;
+
+export const floorToHour = (date: Date | string): string =>
+  new Date(Math.floor(new Date(date).getTime() / HOUR) * HOUR).toISOString();
+
+const monthKey = (hour: string) => hour.slice(0, 7);
+
+const bucketKey = (hour: string, resolution: Resolution): string => {
+  switch (resolution) {
+    case 'monthly':
+      return `${hour.slice(0, 7)}-01T00:00:00.000Z`;
+    case 'daily':
+      return `${hour.slice(0, 10)}T00:00:00.000Z`;
+    case 'hourly':
+    default:
+      return hour;
+  }
+};
+
+const monthsBetween = (start: Date, end: Date): string[] => {
+  const months: string[] = [];
+  const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1));
+  while (cursor <= end) {
+    months.push(cursor.toISOString().slice(0, 7));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+};
+
+export class TimeSeriesStore {
+  // <series>/<month> -> hour -> record, filled lazily from disk. Only the
+  // `maxCachedMonths` used last are kept; the oldest is read again if needed.
+  private months = new Map<string, Map<string, StoredRecord>>();
+
+  constructor(private dir: string, private maxCachedMonths: number = DEFAULT_CACHED_MONTHS) {}
+
+  private file(series: string, month: string): string {
+    return path.join(this.dir, series, `${month}.ndjson`);
+  }
+
+  private load(series: string, month: string): Map<string, StoredRecord> {
+    const key = `${series}/${month}`;
+    const cached = this.months.get(key);
+    if (cached) {
+      // Maps keep insertion order: move it to the most recently used end
+      this.months.delete(key);
+      this.months.set(key, cached);
+      return cached;
+    }
+
+    const records = new Map<string, StoredRecord>();
+    const file = this.file(series, month);
+    if (fs.existsSync(file)) {
+      fs.readFileSync(file, 'utf8').split('\n').forEach(line => {
+        if (!line.trim()) return;
+        try {
+          const record = JSON.parse(line) as StoredRecord;
+          records.set(record.hour, record);
+        } catch (error) {
+          // A line cut short by a crash; the rest of the file is still usable
+        }
+      });
+    }
+    this.months.set(key, records);
+    while (this.months.size > this.maxCachedMonths) {
+      this.months.delete(this.months.keys().next().value as string);
+    }
+    return records;
+  }
+
+  has(series: string, hour: string): boolean {
+    return this.load(series, monthKey(hour)).has(hour);
+  }
+
+  /** Hours between `start` and `end` that have no record yet */
+  missingHours(series: string, start: Date, end: Date): string[] {
+    const missing: string[] = [];
+    for (let time = new Date(floorToHour(start)).getTime(); time <= end.getTime(); time += HOUR) {
+      const hour = new Date(time).toISOString();
+      if (!this.has(series, hour)) missing.push(hour);
+    }
+    return missing;
+  }
+
+  async append(series: string, records: StoredRecord[]): Promise<void> {
+    const byMonth = new Map<string, StoredRecord[]>();
+    records.forEach(record => {
+      const month = monthKey(record.hour);
+      const monthRecords = byMonth.get(month);
+      if (monthRecords) {
+        monthRecords.push(record);
+      } else {
+        byMonth.set(month, [record]);
+      }
+    });
+
+    for (const [month, monthRecords] of Array.from(byMonth.entries())) {
+      const loaded = this.load(series, month);
+      const file = this.file(series, month);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, monthRecords.map(record => JSON.stringify(record)).join('\n') + '\n');
+      monthRecords.forEach(record => loaded.set(record.hour, record));
+    }
+  }
+
+  /**
+   * Aggregate a series over [start, end]. Each bucket reports mean, min and
+   * max per field; null readings are left out of the statistics.
+   */
+  query(series: string, start: Date, end: Date, resolution: Resolution, fields?: string[]): SeriesPoint[] {
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+    const buckets = new Map<string, StoredRecord[]>();
+
+    monthsBetween(start, end).forEach(month => {
+      this.load(series, month).forEach(record => {
+        const time = new Date(record.hour).getTime();
+        if (time < startTime || time > endTime) return;
+        const key = bucketKey(record.hour, resolution);
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.push(record);
+        } else {
+          buckets.set(key, [record]);
+        }
+      });
+    });
+
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, records]) => {
+        const names = fields || Array.from(new Set(records.flatMap(record => Object.keys(record.values))));
+        const point: SeriesPoint = { date, count: records.length, mean: {}, min: {}, max: {} };
+
+        names.forEach(name => {
+          const values = records
+            .map(record => record.values[name])
+            .filter((value): value is number => typeof value === 'number');
+          point.mean[name] = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+          point.min[name] = values.length > 0 ? Math.min(...values) : null;
+          point.max[name] = values.length > 0 ? Math.max(...values) : null;
+        });
+        return point;
+      });
+  }
+}
@@ -0,0 +1,93 @@
+// server/bff/upstream.ts
+import http from 'http';
+import https from 'https';
+import { URL } from 'url';
+
+/**
+ * Error with the status the BFF should answer with. Upstream client errors
+ * (404, 429...) are passed through, everything else becomes a gateway error.
+ */
+export class UpstreamError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter?: string) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+export interface UpstreamRequest {
+  url: string;
+  query?: Record<string, string | number | undefined>;
+  headers?: Record<string, string>;
+  timeoutMs: number;
+}
+
+const PASSTHROUGH_STATUSES = [400, 404, 429];
+
+export function buildURL(base: string, path: string, query: UpstreamRequest['query'] = {}): string {
+  const url = new URL(base.replace(/\/$/, '') + path);
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  });
+  return url.toString();
+}
+
+/**
+ * GET a JSON document. Rejects with UpstreamError for timeouts, HTTP errors
+ * and payloads that are not valid JSON.
+ */
+export function getJson<T = unknown>({ url, query, headers = {}, timeoutMs }: UpstreamRequest): Promise<T> {
+  const target = new URL(query ? buildURL(url, '', query) : url);
+  const client = target.protocol === 'https:' ? https : http;
+
+  return new Promise<T>((resolve, reject) => {
+    const req = client.get(target, { headers: { Accept: 'application/json', ...headers } }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => {
+        const status = res.statusCode || 502;
+        const body = Buffer.concat(chunks).toString('utf8');
+
+        if (status >= 400) {
+          const retryAfter = res.headers['retry-after'];
+          reject(new UpstreamError(
+            `${target.host} answered ${status}`,
+            PASSTHROUGH_STATUSES.includes(status) ? status : 502,
+            Array.isArray(retryAfter) ? retryAfter[0] : retryAfter
+          ));
+          return;
+        }
+
+        try {
+          resolve(JSON.parse(body) as T);
+        } catch (error) {
+          reject(new UpstreamError(`${target.host} returned invalid JSON`, 502));
+        }
+      });
+      res.on('error', error => reject(new UpstreamError(error.message, 502)));
+    });
+
+    req.setTimeout(timeoutMs, () => {
+      req.destroy();
+      reject(new UpstreamError(`${target.host} did not answer within ${timeoutMs} ms`, 504));
+    });
+    req.on('error', error => reject(new UpstreamError(`${target.host} is unreachable: ${error.message}`, 502)));
+  });
+}
+
+/** Coerce an upstream value to a finite number, or null */
+export const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/** Unwrap `{ data: [...] }` envelopes and insist on an array */
+export const toArray = (payload: unknown, what: string): unknown[] => {
+  const data = payload && typeof payload === 'object' && 'data' in payload
+    ? (payload as { data: unknown }).data
+    : payload;
+  if (!Array.isArray(data)) {
+    throw new UpstreamError(`Expected a list of ${what} from upstream`, 502);
+  }
+  return data;
+};
@@ -0,0 +1,12 @@
+// server/jest.config.js
+// Tests of the backend-for-frontend: `npm run test:server`. They run in
+// Node, outside the browser setup of `npm test`.
+module.exports = {
+  rootDir: '..',
+  roots: ['<rootDir>/server'],
+  testEnvironment: 'node',
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '\\.ts$': ['babel-jest', { presets: [['babel-preset-react-app', { runtime: 'automatic' }]], babelrc: false, configFile: false }],
+  },
+};
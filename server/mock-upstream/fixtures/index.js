@@ -0,0 +1,147 @@
+// server/mock-upstream/fixtures/index.js
+//
+// Responses are derived from the JSON fixtures: the per-station readings are
+// the baseline, time series vary around them with a daily cycle and a noise
+// term that only depends on station and hour, so the same request always
+// returns the same payload.
+
+const stations = require('./stations.json');
+const measurements = require('./measurements.json');
+const weather = require('./weather.json');
+
+const HOUR = 3600 * 1000;
+
+// Cheap deterministic noise in [-1, 1]
+const noise = (seed, time) => {
+  const x = Math.sin(seed * 12.9898 + Math.floor(time / HOUR) * 78.233) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+};
+
+const round = (value, decimals = 1) => Number(value.toFixed(decimals));
+
+const hasStation = id => stations.some(station => station.id === id);
+
+// Traffic peaks in the morning and evening, ozone in the afternoon
+const dailyFactor = (pollutant, date) => {
+  const hour = date.getHours();
+  if (pollutant === 'o3') {
+    return 1 + 0.4 * Math.sin(((hour - 9) / 24) * 2 * Math.PI);
+  }
+  const rush = Math.exp(-((hour - 8) ** 2) / 6) + Math.exp(-((hour - 19) ** 2) / 8);
+  return 0.75 + 0.5 * rush;
+};
+
+const measurementAt = (stationId, date) => {
+  const baseline = measurements[stationId];
+  const time = date.getTime();
+  return Object.fromEntries(
+    Object.entries(baseline).map(([pollutant, value], index) => [
+      pollutant,
+      round(
+        Math.max(0, value * dailyFactor(pollutant, date) * (1 + 0.15 * noise(stationId * 10 + index, time))),
+        pollutant === 'co' ? 2 : 1
+      ),
+    ])
+  );
+};
+
+// The mixing layer grows in the afternoon and collapses at night; haze cuts
+// visibility when it is shallow and humid
+const dispersionAt = date => {
+  const time = date.getTime();
+  const diurnal = Math.sin(((date.getHours() - 9) / 24) * 2 * Math.PI);
+  const cloudCover = Math.round(Math.min(100, Math.max(0, weather.cloudCover + 35 * noise(105, time))));
+  const boundaryLayerHeight = Math.round(
+    Math.max(80, weather.boundaryLayerHeight * (1 + 0.8 * diurnal) * (1 + 0.2 * noise(106, time)))
+  );
+  return {
+    visibility: round(Math.max(0.5, weather.visibility * Math.min(1, boundaryLayerHeight / 600) + 2 * noise(107, time))),
+    windDirection: Math.round((weather.windDirection + 40 * noise(108, time) + 360) % 360),
+    windGusts: round(Math.max(0, weather.windGusts + 3 * noise(109, time))),
+    precipitation: cloudCover > 75 ? round(Math.max(0, 1.5 * noise(110, time))) : 0,
+    cloudCover,
+    boundaryLayerHeight,
+  };
+};
+
+const weatherAt = date => {
+  const time = date.getTime();
+  const hour = date.getHours();
+  const diurnal = Math.sin(((hour - 9) / 24) * 2 * Math.PI);
+  return {
+    temperature: round(weather.temperature + 5 * diurnal + noise(101, time)),
+    humidity: round(Math.min(100, Math.max(15, weather.humidity - 15 * diurnal + 3 * noise(102, time))), 0),
+    windSpeed: round(Math.max(0, weather.windSpeed + 1.5 * noise(103, time))),
+    pressure: round(weather.pressure + 2 * noise(104, Math.floor(time / (6 * HOUR)) * HOUR)),
+    uvIndex: hour >= 7 && hour <= 19 ? Math.max(0, Math.round(weather.uvIndex * (1 + diurnal) / 2)) : 0,
+    ...dispersionAt(date),
+  };
+};
+
+const hours = ({ start, end }) => {
+  const result = [];
+  const first = new Date(start);
+  first.setMinutes(0, 0, 0);
+  for (let time = first.getTime(); time <= end.getTime(); time += HOUR) {
+    result.push(new Date(time));
+  }
+  return result;
+};
+
+const currentMeasurement = (stationId, now) => ({
+  stationId,
+  timestamp: now.toISOString(),
+  ...measurementAt(stationId, now),
+});
+
+const historicalMeasurements = (stationId, range) =>
+  hours(range).map(date => ({ date: date.toISOString(), ...measurementAt(stationId, date) }));
+
+const currentWeather = now => ({ time: now.toISOString(), ...weatherAt(now) });
+
+const hourlyForecast = (now, count) => {
+  const start = new Date(now);
+  start.setMinutes(0, 0, 0);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(start.getTime() + (i + 1) * HOUR);
+    return { time: date.toISOString(), ...weatherAt(date) };
+  });
+};
+
+// City-wide CAMS forecast: the mean of the station baselines, without CO
+const airQualityForecast = (now, count) => {
+  const start = new Date(now);
+  start.setMinutes(0, 0, 0);
+  const ids = stations.map(station => station.id);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(start.getTime() + (i + 1) * HOUR);
+    const readings = ids.map(id => measurementAt(id, date));
+    const mean = pollutant => round(readings.reduce((sum, reading) => sum + reading[pollutant], 0) / readings.length);
+    return {
+      time: date.toISOString(),
+      pm25: mean('pm25'),
+      pm10: mean('pm10'),
+      no2: mean('no2'),
+      o3: mean('o3'),
+      so2: mean('so2'),
+    };
+  });
+};
+
+// Mirrors ERA5, which has no visibility
+const historicalClimate = range =>
+  hours(range).map(date => {
+    const { temperature, humidity, windSpeed, pressure, uvIndex, visibility, ...dispersion } = weatherAt(date);
+    return { date: date.toISOString(), temperature, humidity, windSpeed, pressure, ...dispersion };
+  });
+
+module.exports = {
+  stations,
+  hasStation,
+  currentMeasurement,
+  historicalMeasurements,
+  currentWeather,
+  hourlyForecast,
+  airQualityForecast,
+  historicalClimate,
+};
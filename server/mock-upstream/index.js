@@ -0,0 +1,131 @@
+// server/mock-upstream/index.js
+//
+// Stand-in for calitateaer.ro and the Copernicus upstream, for offline
+// development and CI. Serves the routes apiService.ts calls, backed by the
+// fixtures in ./fixtures, and can misbehave on demand (see SCENARIOS).
+//
+//   node server/mock-upstream            # port 4010, "normal" scenario
+//   MOCK_SCENARIO=slow node server/mock-upstream
+//   curl -X POST localhost:4010/__scenario -d '{"scenario":"error"}'
+
+const http = require('http');
+const { URL } = require('url');
+const { SCENARIOS, applyScenario } = require('./scenarios');
+const fixtures = require('./fixtures');
+
+const PORT = Number(process.env.MOCK_UPSTREAM_PORT || 4010);
+
+let activeScenario = process.env.MOCK_SCENARIO || 'normal';
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Mock-Scenario',
+    ...headers,
+  });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readBody = req =>
+  new Promise(resolve => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => resolve(raw));
+  });
+
+const parseDate = (value, fallback) => {
+  const date = value ? new Date(value) : fallback;
+  return isNaN(date.getTime()) ? fallback : date;
+};
+
+// Inclusive day range as the services send it (yyyy-MM-dd)
+const dayRange = params => {
+  const now = new Date();
+  const start = parseDate(params.get('startDate'), new Date(now.getTime() - 7 * 24 * 3600 * 1000));
+  const end = parseDate(params.get('endDate'), now);
+  start.setHours(0, 0, 0, 0);
+  end.setHours(23, 59, 59, 999);
+  return { start, end: end > now ? now : end };
+};
+
+const routes = [
+  {
+    pattern: /^\/stations$/,
+    handler: () => fixtures.stations,
+  },
+  {
+    pattern: /^\/measurements\/station\/(\d+)\/current$/,
+    perStation: true,
+    handler: ([id]) => fixtures.currentMeasurement(Number(id), new Date()),
+  },
+  {
+    pattern: /^\/measurements\/station\/(\d+)\/historical$/,
+    perStation: true,
+    handler: ([id], params) => fixtures.historicalMeasurements(Number(id), dayRange(params)),
+  },
+  {
+    pattern: /^\/api\/copernicus\/current-weather$/,
+    handler: () => fixtures.currentWeather(new Date()),
+  },
+  {
+    pattern: /^\/api\/copernicus\/hourly-forecast$/,
+    handler: (_, params) => fixtures.hourlyForecast(new Date(), Number(params.get('hours')) || 24),
+  },
+  {
+    pattern: /^\/api\/copernicus\/air-quality-forecast$/,
+    handler: (_, params) => fixtures.airQualityForecast(new Date(), Number(params.get('hours')) || 72),
+  },
+  {
+    pattern: /^\/api\/copernicus\/historical-climate$/,
+    handler: (_, params) => fixtures.historicalClimate(dayRange(params)),
+  },
+];
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204, '');
+  }
+
+  if (url.pathname === '/__scenario') {
+    if (req.method === 'POST') {
+      let scenario;
+      try {
+        ({ scenario } = JSON.parse((await readBody(req)) || '{}'));
+      } catch (error) {
+        return send(res, 400, { error: 'Body must be JSON like {"scenario":"slow"}' });
+      }
+      if (!SCENARIOS[scenario]) {
+        return send(res, 400, { error: `Unknown scenario "${scenario}"`, scenarios: Object.keys(SCENARIOS) });
+      }
+      activeScenario = scenario;
+      console.log(`Scenario switched to "${scenario}"`);
+    }
+    return send(res, 200, { scenario: activeScenario, scenarios: SCENARIOS });
+  }
+
+  const route = routes.find(({ pattern }) => pattern.test(url.pathname));
+  if (!route || req.method !== 'GET') {
+    return send(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+  }
+
+  // A header overrides the global scenario for a single request
+  const scenario = req.headers['x-mock-scenario'] || activeScenario;
+  const params = url.searchParams;
+  const match = url.pathname.match(route.pattern).slice(1);
+
+  if (route.perStation && !fixtures.hasStation(Number(match[0]))) {
+    return send(res, 404, { error: `Unknown station ${match[0]}` });
+  }
+
+  const reply = await applyScenario(scenario, () => route.handler(match, params));
+  console.log(`${req.method} ${url.pathname}${url.search} -> ${reply.status} [${scenario}]`);
+  send(res, reply.status, reply.body, reply.headers);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock upstream listening on http://localhost:${PORT} (scenario "${activeScenario}")`);
+  console.log(`Scenarios: ${Object.keys(SCENARIOS).join(', ')}`);
+});
@@ -0,0 +1,121 @@
+// server/mock-upstream/scenarios.js
+
+const SLOW_DELAY_MS = Number(process.env.MOCK_SLOW_DELAY_MS || 12000);
+
+const SCENARIOS = {
+  normal: 'Fixture-backed responses',
+  slow: `Every response is delayed by ${SLOW_DELAY_MS} ms (past the client timeouts)`,
+  error: 'Every request fails with 500',
+  flaky: 'Every other request fails with 503',
+  'rate-limit': 'Every other request is rejected with 429 and Retry-After: 1',
+  unauthorized: 'Every request fails with 401',
+  malformed: 'Responses are truncated, invalid JSON',
+  'missing-pollutants': 'Measurements lack O3, SO2 and CO, and some values are null',
+  'faulty-sensors': 'Measurements include negative values, a stuck NO2 sensor, PM10 spikes and stale current readings',
+  'mixing-ratios': 'Measurements report NO2, O3 and SO2 in ppb and CO in ppm, with a units map',
+};
+
+const MISSING_POLLUTANTS = ['o3', 'so2', 'co'];
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+let requestCount = 0;
+
+const stripPollutants = (value, index = 0) => {
+  if (Array.isArray(value)) {
+    return value.map(stripPollutants);
+  }
+  if (value && typeof value === 'object' && 'pm25' in value) {
+    const copy = { ...value };
+    MISSING_POLLUTANTS.forEach(pollutant => delete copy[pollutant]);
+    // Sensors drop out now and then
+    if (index % 5 === 2) copy.pm10 = null;
+    return copy;
+  }
+  return value;
+};
+
+const HOUR = 3600 * 1000;
+
+const isMeasurement = value => value && typeof value === 'object' && 'pm25' in value;
+
+// Every fault the client-side validation is meant to catch; forecasts are left alone
+const corruptMeasurements = body => {
+  if (Array.isArray(body) && body.every(item => isMeasurement(item) && 'date' in item)) {
+    const stuckNo2 = body[0] && body[0].no2;
+    return body.map((item, index) => ({
+      ...item,
+      pm25: index % 7 === 3 ? -item.pm25 : item.pm25,
+      pm10: index % 11 === 5 ? item.pm10 * 20 : item.pm10,
+      no2: index < 8 ? stuckNo2 : item.no2,
+    }));
+  }
+  if (isMeasurement(body) && 'timestamp' in body) {
+    return { ...body, so2: -1, timestamp: new Date(Date.now() - 6 * HOUR).toISOString() };
+  }
+  return body;
+};
+
+// Molar volume at 25 °C and 1 atm and molecular weights, as the client uses them
+const MOLAR_VOLUME = 24.45;
+const MOLECULAR_WEIGHTS = { no2: 46.01, o3: 48.0, so2: 64.07, co: 28.01 };
+const MIXING_RATIO_UNITS = { pm25: 'µg/m3', pm10: 'µg/m3', no2: 'ppb', o3: 'ppb', so2: 'ppb', co: 'ppm' };
+
+// μg/m³ -> ppb and mg/m³ -> ppm share the same factor
+const toMixingRatio = item => {
+  const copy = { ...item, units: MIXING_RATIO_UNITS };
+  Object.entries(MOLECULAR_WEIGHTS).forEach(([pollutant, weight]) => {
+    if (typeof item[pollutant] === 'number') {
+      copy[pollutant] = Number(((item[pollutant] * MOLAR_VOLUME) / weight).toFixed(pollutant === 'co' ? 3 : 1));
+    }
+  });
+  return copy;
+};
+
+const reportMixingRatios = body => {
+  if (Array.isArray(body) && body.every(item => isMeasurement(item) && 'date' in item)) {
+    return body.map(toMixingRatio);
+  }
+  return isMeasurement(body) && 'timestamp' in body ? toMixingRatio(body) : body;
+};
+
+/**
+ * Produce the reply for one request under the given scenario.
+ * `render` builds the normal fixture-backed body.
+ */
+async function applyScenario(scenario, render) {
+  requestCount += 1;
+
+  switch (scenario) {
+    case 'slow':
+      await sleep(SLOW_DELAY_MS);
+      return { status: 200, body: render() };
+    case 'error':
+      return { status: 500, body: { error: 'Internal Server Error' } };
+    case 'flaky':
+      return requestCount % 2 === 0
+        ? { status: 503, body: { error: 'Service Unavailable' } }
+        : { status: 200, body: render() };
+    case 'rate-limit':
+      return requestCount % 2 === 0
+        ? { status: 429, body: { error: 'Too Many Requests' }, headers: { 'Retry-After': '1' } }
+        : { status: 200, body: render() };
+    case 'unauthorized':
+      return { status: 401, body: { error: 'Unauthorized' } };
+    case 'malformed': {
+      const json = JSON.stringify(render());
+      return { status: 200, body: json.slice(0, Math.max(1, Math.floor(json.length / 2))) };
+    }
+    case 'missing-pollutants':
+      return { status: 200, body: stripPollutants(render()) };
+    case 'faulty-sensors':
+      return { status: 200, body: corruptMeasurements(render()) };
+    case 'mixing-ratios':
+      return { status: 200, body: reportMixingRatios(render()) };
+    case 'normal':
+    default:
+      return { status: 200, body: render() };
+  }
+}
+
+module.exports = { SCENARIOS, applyScenario };
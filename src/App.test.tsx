@@ -1,9 +1,310 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 import App from './App';
+import { dataService } from './services/dataService';
+import { formatAQI, indexOrNull } from './services/aqi';
+import { registerAlertWorker } from './services/notifications';
+import { validateReading } from './services/quality';
+import { SyntheticDataGenerator } from './services/synthetic';
+import { ThemeProvider } from './theme/ThemeProvider';
+
+jest.mock('./services/dataService', () => {
+  const actual = jest.requireActual('./services/dataService');
+  return {
+    ...actual,
+    dataService: {
+      getAllDashboardData: jest.fn(),
+      getStationHistory: jest.fn(),
+      getPreviousPeriod: jest.fn(),
+      getHistoricalWeather: jest.fn(),
+      getNetworkHistory: jest.fn(),
+    },
+    isMockDataMode: () => false,
+  };
+});
+
+// Registration is asynchronous; tests that change what the worker gets wait for it
+jest.mock('./services/notifications', () => ({
+  ...jest.requireActual('./services/notifications'),
+  registerAlertWorker: jest.fn(),
+}));
+
+const mockedGetAllDashboardData = dataService.getAllDashboardData as jest.Mock;
+const mockedGetStationHistory = dataService.getStationHistory as jest.Mock;
+const mockedGetPreviousPeriod = dataService.getPreviousPeriod as jest.Mock;
+const mockedGetHistoricalWeather = dataService.getHistoricalWeather as jest.Mock;
+const mockedGetNetworkHistory = dataService.getNetworkHistory as jest.Mock;
+const mockedRegisterAlertWorker = registerAlertWorker as jest.Mock;
+
+const live = { source: 'live', fetchedAt: '2026-10-19T10:00:00.000Z' };
+
+const defaultMeasurements = { pm25: 12, pm10: 20, no2: 30, o3: 40, so2: 5, co: 1 };
+
+const dashboardData = (
+  measurements: Record<string, number | null> = defaultMeasurements,
+  timestamp = '2026-10-19T10:00:00.000Z'
+) => ({
+  airQuality: [
+    {
+      stationId: 7,
+      stationName: 'Stația Test',
+      timestamp,
+      ...validateReading(measurements),
+      aqi: 42,
+    },
+  ],
+  weather: {
+    current: {
+      timestamp: '2026-10-19T10:00:00.000Z',
+      temperature: 21.4,
+      humidity: 55,
+      windSpeed: 8,
+      pressure: 1013,
+      uvIndex: 3,
+      visibility: 12.5,
+      windDirection: 250,
+      windGusts: 21,
+      precipitation: 0,
+      cloudCover: 40,
+      boundaryLayerHeight: 620,
+    },
+    hourly: [],
+  },
+  airQualityForecast: [],
+  stations: [{ id: 7, name: 'Stația Test', lat: 44.43, lon: 26.1, county: 'BUCURESTI' }],
+  historical: [],
+  historicalWeather: [],
+  provenance: {
+    airQuality: { source: 'mock', fetchedAt: '2026-10-19T10:00:00.000Z', error: 'timeout' },
+    currentWeather: live,
+    hourlyForecast: live,
+    airQualityForecast: live,
+    stations: live,
+    historical: live,
+    historicalWeather: live,
+  },
+  lastUpdated: new Date('2026-10-19T10:00:00.000Z'),
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  mockedGetStationHistory.mockResolvedValue({ data: [], provenance: live });
+  mockedGetHistoricalWeather.mockResolvedValue({ data: [], provenance: live });
+  mockedGetNetworkHistory.mockResolvedValue({});
+  mockedRegisterAlertWorker.mockResolvedValue(null);
+  mockedGetPreviousPeriod.mockResolvedValue({
+    historical: { data: [], provenance: live },
+    historicalWeather: { data: [], provenance: live },
+  });
+});
+
+test('renders the dashboard from DataService output', async () => {
+  mockedGetAllDashboardData.mockResolvedValue(dashboardData());
+
+  render(<App />);
+
+  expect(await screen.findByText(/Dashboard Calitatea Vieții București/i)).toBeInTheDocument();
+  const [stationSelect] = screen.getAllByRole('combobox');
+  expect(within(stationSelect).getByRole('option', { name: 'Stația Test' })).toBeInTheDocument();
+  expect(screen.getByText((_, element) => element?.textContent === '21°C')).toBeInTheDocument();
+  expect(mockedGetAllDashboardData).toHaveBeenCalledTimes(1);
+
+  // Mocked sections are flagged instead of passing as real measurements
+  expect(screen.getByText('Date demonstrative')).toBeInTheDocument();
+  expect(screen.getByText(/timeout/)).toBeInTheDocument();
+});
+
+test('shows the measured visibility and the dispersion conditions', async () => {
+  mockedGetAllDashboardData.mockResolvedValue(dashboardData());
 
-test('renders learn react link', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+
+  expect(await screen.findByText('12,5')).toBeInTheDocument();
+  expect(screen.getByText('dinspre V (250°)')).toBeInTheDocument();
+  expect(screen.getByText('620 m')).toBeInTheDocument();
+});
+
+test('shows the temperature trend against the same hour yesterday', async () => {
+  const now = Date.now();
+  const historicalWeather = Array.from({ length: 25 }, (_, hoursAgo) => ({
+    date: new Date(now - hoursAgo * 3600 * 1000).toISOString(),
+    aqi: 0,
+    pm25: 0,
+    pm10: 0,
+    temperature: 20 + (24 - hoursAgo) * 0.1,
+  }));
+  mockedGetAllDashboardData.mockResolvedValue({ ...dashboardData(), historicalWeather });
+
+  render(<App />);
+
+  const trend = await screen.findByTitle(/^Ultima valoare orară \(22,4°C\) față de aceeași oră de ieri \(20,0°C\)/);
+  expect(trend).toHaveTextContent('↑2,4°C');
+});
+
+test('takes the overview AQI and its trend from the hourly mean of all stations', async () => {
+  const now = Date.now();
+  const data = dashboardData();
+  const reading = (stationId: number, pm25: number) => ({
+    ...data.airQuality[0],
+    stationId,
+    timestamp: new Date(now - 60 * 1000).toISOString(),
+    ...validateReading({ pm25 }),
+  });
+  const yesterday = (pm25: number) => [{ date: new Date(now - 24 * 3600 * 1000).toISOString(), aqi: null, pm25, pm10: null }];
+  mockedGetNetworkHistory.mockResolvedValue({ 7: yesterday(5), 8: yesterday(15) });
+  mockedGetAllDashboardData.mockResolvedValue({
+    ...data,
+    airQuality: [reading(7, 10), reading(8, 40)],
+    stations: [...data.stations, { id: 8, name: 'Stația Doi', lat: 44.4, lon: 26.05, county: 'BUCURESTI' }],
+  });
+
+  render(<App />);
+
+  const index = (pm25: number) => indexOrNull({ pm25 }) as number;
+  const mean = (a: number, b: number) => formatAQI((index(a) + index(b)) / 2);
+  expect(
+    await screen.findByTitle(
+      `Ultima valoare orară (${mean(10, 40)}) față de aceeași oră de ieri (${mean(5, 15)}) Media orară a tuturor stațiilor`
+    )
+  ).toBeInTheDocument();
+});
+
+test('warns about the worst window of the air quality forecast', async () => {
+  const start = new Date('2026-10-20T00:00:00.000Z').getTime();
+  const airQualityForecast = Array.from({ length: 72 }, (_, hour) => ({
+    timestamp: new Date(start + hour * 3600 * 1000).toISOString(),
+    measurements: { pm25: hour >= 30 && hour < 33 ? 80 : 8, pm10: 15, no2: 20, o3: 40, so2: 3 },
+    aqi: 0,
+  }));
+  mockedGetAllDashboardData.mockResolvedValue({ ...dashboardData(), airQualityForecast });
+
+  render(<App />);
+
+  expect(await screen.findByText('Următoarele 72 ore')).toBeInTheDocument();
+  expect(screen.getByText(/ar urma să ajungă la nivelul „Nesănătoasă” .* din cauza PM2\.5/)).toBeInTheDocument();
+});
+
+test('labels the local nowcast as model output and shows its backtest', async () => {
+  const generator = new SyntheticDataGenerator(7);
+  const end = new Date();
+  const start = new Date(end.getTime() - 30 * 24 * 3600 * 1000);
+  mockedGetStationHistory.mockResolvedValue({ data: generator.historicalAirQuality(7, start, end), provenance: live });
+  mockedGetHistoricalWeather.mockResolvedValue({ data: generator.historicalWeather(start, end), provenance: live });
+  mockedGetAllDashboardData.mockResolvedValue(dashboardData());
+
+  render(<App />);
+
+  const panel = await screen.findByTestId('nowcast-panel');
+  expect(await within(panel).findByText(/^Backtest pe ultimele 7 zile/)).toBeInTheDocument();
+  expect(within(panel).getByText('Rezultat de model')).toBeInTheDocument();
+  expect(within(panel).getAllByTitle('Rezultat de model')).toHaveLength(4);
+  expect(within(panel).getByRole('columnheader', { name: '+24 h' })).toBeInTheDocument();
+});
+
+test('correlates a pollutant with the weather hours earlier', async () => {
+  const generator = new SyntheticDataGenerator(7);
+  const end = new Date();
+  const start = new Date(end.getTime() - 30 * 24 * 3600 * 1000);
+  mockedGetStationHistory.mockResolvedValue({ data: generator.historicalAirQuality(7, start, end), provenance: live });
+  mockedGetHistoricalWeather.mockResolvedValue({ data: generator.historicalWeather(start, end), provenance: live });
+  mockedGetAllDashboardData.mockResolvedValue(dashboardData());
+
+  render(<App />);
+
+  const panel = await screen.findByTestId('correlation-panel');
+  const stats = await within(panel).findByTestId('correlation-stats');
+  expect(within(stats).getByText('Pearson r')).toBeInTheDocument();
+  expect(within(panel).getByText(/^Relație .*, negativă/)).toBeInTheDocument();
+
+  fireEvent.change(within(panel).getByRole('combobox', { name: 'Decalaj' }), { target: { value: '3' } });
+  expect(within(panel).getByRole('option', { name: 'Vremea cu 3 h înainte' })).toHaveProperty('selected', true);
+  expect(within(stats).getByText(/^\d+$/)).toBeInTheDocument();
+});
+
+test('does not pass a sensor outage off as clean air', async () => {
+  mockedGetAllDashboardData.mockResolvedValue(
+    dashboardData({ pm25: null, pm10: -3, no2: null, o3: null, so2: null, co: null })
+  );
+
+  render(<App />);
+
+  expect(await screen.findAllByText('Nicio valoare validă')).not.toHaveLength(0);
+  expect(screen.queryByText('Bună')).not.toBeInTheDocument();
+  const completeness = within(screen.getByTestId('station-completeness')).getByTestId('completeness-badge');
+  expect(completeness).toHaveTextContent('Date 0/6');
+  expect(completeness).toHaveAttribute('title', expect.stringContaining('PM10: valoare negativă'));
+});
+
+test('raises a structured alert when a rule threshold is exceeded', async () => {
+  mockedGetAllDashboardData.mockResolvedValue(
+    dashboardData({ pm25: 12, pm10: 20, no2: 450, o3: 40, so2: 5, co: 1 }, new Date().toISOString())
+  );
+
+  render(<App />);
+
+  const banner = await screen.findByRole('alert');
+  expect(within(banner).getByText('Stația Test')).toBeInTheDocument();
+  expect(within(banner).getByText('450,0 μg/m³')).toBeInTheDocument();
+  expect(within(banner).getByText(/Prag de alertă NO₂/)).toBeInTheDocument();
+});
+
+test('shows gases as mixing ratios and remembers the choice', async () => {
+  mockedGetAllDashboardData.mockResolvedValue(dashboardData());
+
+  render(<App />);
+
+  const [stationSelect] = await screen.findAllByRole('combobox');
+  fireEvent.change(stationSelect, { target: { value: '7' } });
+  await waitFor(() => expect(mockedGetStationHistory).toHaveBeenCalledWith(7, expect.anything()));
+  expect(screen.getAllByText('30,0 μg/m³')).not.toHaveLength(0);
+
+  fireEvent.change(screen.getByRole('combobox', { name: 'Unități de concentrație' }), { target: { value: 'volume' } });
+
+  // 30 μg/m³ NO2 at 25 °C and 1 atm; PM stays a mass concentration
+  expect(screen.getAllByText('15,9 ppb')).not.toHaveLength(0);
+  expect(screen.getAllByText('12,0 μg/m³')).not.toHaveLength(0);
+  expect(screen.queryByText('30,0 μg/m³')).not.toBeInTheDocument();
+  expect(localStorage.getItem('concentrationUnits')).toBe('volume');
+});
+
+test('switches the interface language and remembers the choice', async () => {
+  mockedGetAllDashboardData.mockResolvedValue(dashboardData());
+
+  render(<App />);
+
+  fireEvent.change(await screen.findByRole('combobox', { name: 'Limba' }), { target: { value: 'en' } });
+
+  expect(screen.getByText('Bucharest Quality of Life Dashboard')).toBeInTheDocument();
+  const [stationSelect] = screen.getAllByRole('combobox');
+  expect(within(stationSelect).getByRole('option', { name: 'All stations' })).toBeInTheDocument();
+  expect(screen.getByText('Demo data')).toBeInTheDocument();
+  expect(localStorage.getItem('locale')).toBe('en');
+  // Notifications follow the new language
+  await waitFor(() => expect(mockedRegisterAlertWorker).toHaveBeenLastCalledWith(expect.objectContaining({ locale: 'en' })));
+});
+
+test('switches to the dark theme and remembers the choice', async () => {
+  mockedGetAllDashboardData.mockResolvedValue(dashboardData());
+
+  render(
+    <ThemeProvider>
+      <App />
+    </ThemeProvider>
+  );
+
+  expect(document.documentElement.dataset.theme).toBe('light');
+  fireEvent.change(await screen.findByRole('combobox', { name: 'Temă' }), { target: { value: 'dark' } });
+  fireEvent.change(screen.getByRole('combobox', { name: 'Paletă AQI' }), { target: { value: 'colorblind' } });
+
+  expect(document.documentElement.dataset.theme).toBe('dark');
+  expect(localStorage.getItem('themePreference')).toBe('dark');
+  expect(localStorage.getItem('aqiPalette')).toBe('colorblind');
+});
+
+test('shows an error when DataService fails', async () => {
+  mockedGetAllDashboardData.mockRejectedValue(new Error('network down'));
+
+  render(<App />);
+
+  expect(await screen.findByText(/network down/)).toBeInTheDocument();
 });
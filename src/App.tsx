@@ -1,282 +1,854 @@
-import React, { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, BarChart, Bar, RadialBarChart, RadialBar } from 'recharts';
-import { Thermometer, Wind, Droplets, Eye, AlertTriangle, Leaf, MapPin, Clock, TrendingUp, Info, LucideIcon } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { endOfDay, format, min, parseISO, startOfDay, subDays } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, BarChart, Bar, ComposedChart, RadialBarChart, RadialBar, PolarAngleAxis, ReferenceArea } from 'recharts';
+import { Thermometer, Wind, Droplets, Eye, AlertTriangle, Leaf, MapPin, Clock, Info } from 'lucide-react';
+import { AlertBanner } from './components/AlertBanner/AlertBanner';
+import { AlertHistory } from './components/AlertHistory/AlertHistory';
+import { AlertRules } from './components/AlertRules/AlertRules';
+import { CompletenessBadge } from './components/CompletenessBadge/CompletenessBadge';
+import { CorrelationPanel } from './components/CorrelationPanel/CorrelationPanel';
+import { DemoDataBanner } from './components/DemoDataBanner/DemoDataBanner';
+import { ExportMenu } from './components/ExportMenu/ExportMenu';
+import { LanguageSwitcher } from './components/LanguageSwitcher/LanguageSwitcher';
+import { MetricCard } from './components/MetricCard/MetricCard';
+import { NotificationSettings } from './components/NotificationSettings/NotificationSettings';
+import { NowcastPanel } from './components/NowcastPanel/NowcastPanel';
+import { ProvenanceBadge } from './components/ProvenanceBadge/ProvenanceBadge';
+import { ReportMenu } from './components/ReportMenu/ReportMenu';
+import { StationDetail } from './components/StationDetail/StationDetail';
+import { StationMap } from './components/StationMap/StationMap';
+import { ThemeSwitcher } from './components/ThemeSwitcher/ThemeSwitcher';
+import { WeatherConditions } from './components/WeatherConditions/WeatherConditions';
+import { formatDate, formatDecimal, formatNumber, languageTag } from './i18n';
+import { useLocale, useMessages } from './i18n/useI18n';
+import { AIR_QUALITY_FORECAST_HOURS, dataService, isMockDataMode } from './services/dataService';
+import {
+  AQI_SCHEMES,
+  AQISchemeId,
+  AQIResult,
+  DEFAULT_AQI_SCHEME,
+  POLLUTANT_LABELS,
+  Pollutant,
+  calculateAQI,
+  formatAQI,
+  getAQILevel,
+  getAQIScheme,
+  indexOrNull,
+} from './services/aqi';
+import {
+  Alert,
+  AlertRule,
+  ALERT_WINDOW_HOURS,
+  StationSamples,
+  activeAlerts,
+  describeAlert,
+  evaluateAlerts,
+  loadAlertLog,
+  loadAlertRules,
+  sampleFromReading,
+  samplesFromHistory,
+  saveAlertLog,
+  saveAlertRules,
+} from './services/alerts';
+import {
+  ExportFormat,
+  ExportScope,
+  StationSeries,
+  buildExportTables,
+  createExportFile,
+  downloadFile,
+} from './services/export';
+import { ForecastWindow, forecastChartSeries, indexForecast, worstForecastWindow } from './services/forecast';
+import { Nowcast, TRAINING_DAYS, nowcast } from './services/nowcast';
+import {
+  NotificationPreferences,
+  loadNotificationPreferences,
+  notificationsSupported,
+  registerAlertWorker,
+  saveNotificationPreferences,
+  showAlertNotifications,
+} from './services/notifications';
+import { seriesCompleteness } from './services/quality';
+import { readItem, writeItem } from './services/storage';
+import {
+  Report,
+  ReportFormat,
+  captureCharts,
+  printReport,
+  toReportPNG,
+  stationSummaryTable,
+} from './services/report';
+import {
+  DateRange,
+  RESOLUTION_LABELS,
+  TIME_RANGE_LABELS,
+  TimeRangeSelection,
+  aggregateSeries,
+  formatBucket,
+  formatPeriod,
+  getResolution,
+  previousPeriod,
+  resolvePresetRange,
+} from './services/timeRange';
+import { Trend, computeTrend, meanAQISeries } from './services/trends';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  MEASUREMENT_UNITS,
+  UNIT_SYSTEMS,
+  UnitSystem,
+  displayUnit,
+  historyInUnits,
+  toDisplay,
+} from './services/units';
+import { Tone, cardStyle, chartAxisStyle, chartTooltipStyle, inputStyle } from './theme/theme';
+import { useTheme } from './theme/ThemeProvider';
+import {
+  AirQualityData,
+  AirQualityForecastPoint,
+  DashboardProvenance,
+  WeatherData,
+  HistoricalDataPoint,
+  Provenance,
+  Station,
+} from './types';
 
 // Type definitions
-interface AirQualityStation {
-  station: string;
-  pm25: number;
-  pm10: number;
-  no2: number;
-  o3: number;
-  so2: number;
-  aqi: number;
-}
-
-interface WeatherDataPoint {
-  hour: string;
-  temperature: number;
-  humidity: number;
-  windSpeed: number;
-  pressure: number;
-}
-
-interface HistoricalDataPoint {
-  date: string;
-  aqi: number;
-  temperature: number;
-  pm25: number;
-}
-
 interface AQIGaugeProps {
-  value: number;
-  label: string;
-}
-
-interface MetricCardProps {
-  icon: LucideIcon;
+  /** Null when no station has a valid reading */
+  value: number | null;
   label: string;
-  value: number | string;
-  unit: string;
-  trend?: number;
-  color?: 'blue' | 'green' | 'orange' | 'red';
+  schemeId: AQISchemeId;
+  dominantPollutant?: AQIResult['dominantPollutant'];
+  provenance?: Provenance;
 }
 
-interface AlertBannerProps {
-  alerts: string[];
-}
+const AQIGauge: React.FC<AQIGaugeProps> = ({ value, label, schemeId, dominantPollutant, provenance }) => {
+  const m = useMessages();
+  const { theme, aqiColor } = useTheme();
+  const scheme = getAQIScheme(schemeId);
+  const level = value !== null ? getAQILevel(value, schemeId) : null;
+  const color = level ? aqiColor(level) : theme.map.noData;
+  const levelLabel = level ? level.label : m.quality.noValidData;
 
-// Mock data generators for demonstration
-const generateAirQualityData = (): AirQualityStation[] => {
-  const stations = ['Calea Plevnei', 'Drumul Taberei', 'Berceni', 'Titan', 'Ambasada'];
-  return stations.map(station => ({
-    station,
-    pm25: Math.floor(Math.random() * 50) + 10,
-    pm10: Math.floor(Math.random() * 80) + 20,
-    no2: Math.floor(Math.random() * 60) + 15,
-    o3: Math.floor(Math.random() * 120) + 30,
-    so2: Math.floor(Math.random() * 30) + 5,
-    aqi: Math.floor(Math.random() * 150) + 25
-  }));
-};
-
-const generateWeatherData = (): WeatherDataPoint[] => {
-  const hours = Array.from({length: 24}, (_, i) => i);
-  return hours.map(hour => ({
-    hour: `${hour}:00`,
-    temperature: 18 + Math.sin((hour - 6) * Math.PI / 12) * 8 + Math.random() * 2,
-    humidity: 45 + Math.random() * 30,
-    windSpeed: 5 + Math.random() * 10,
-    pressure: 1010 + Math.random() * 20
-  }));
-};
-
-const generateHistoricalData = (): HistoricalDataPoint[] => {
-  const days = Array.from({length: 30}, (_, i) => {
-    const date = new Date();
-    date.setDate(date.getDate() - (29 - i));
-    return date;
-  });
-  
-  return days.map(date => ({
-    date: date.toLocaleDateString('ro-RO', { month: 'short', day: 'numeric' }),
-    aqi: 50 + Math.sin(date.getTime() / (1000 * 60 * 60 * 24 * 7)) * 30 + Math.random() * 20,
-    temperature: 15 + Math.sin(date.getTime() / (1000 * 60 * 60 * 24 * 365)) * 10 + Math.random() * 5,
-    pm25: 20 + Math.sin(date.getTime() / (1000 * 60 * 60 * 24 * 14)) * 15 + Math.random() * 10
-  }));
-};
-
-const AQIGauge: React.FC<AQIGaugeProps> = ({ value, label }) => {
-  const getAQIColor = (aqi: number): string => {
-    if (aqi <= 50) return '#4ade80';
-    if (aqi <= 100) return '#facc15';
-    if (aqi <= 150) return '#fb923c';
-    if (aqi <= 200) return '#ef4444';
-    return '#991b1b';
-  };
-
-  const getAQILevel = (aqi: number): string => {
-    if (aqi <= 50) return 'Bună';
-    if (aqi <= 100) return 'Moderată';
-    if (aqi <= 150) return 'Nesănătoasă pentru grupuri sensibile';
-    if (aqi <= 200) return 'Nesănătoasă';
-    return 'Foarte nesănătoasă';
-  };
-
-  const data = [{ value: Math.min(value, 300), fill: getAQIColor(value) }];
+  const data = [{ value: value !== null ? Math.min(value, scheme.maxIndex) : 0, fill: color }];
 
   return (
-    <div className="bg-white rounded-xl shadow-lg p-6">
+    <div
+      className="rounded-xl p-6"
+      style={cardStyle(theme)}
+      data-report-chart={label}
+      data-report-caption={`${formatAQI(value, schemeId)} – ${levelLabel} (${scheme.name})`}
+    >
       <div className="text-center mb-4">
-        <h3 className="text-lg font-semibold text-gray-800">{label}</h3>
+        <h3 className="text-lg font-semibold">{label}</h3>
+        <p className="text-xs" style={{ color: theme.text.muted }}>
+          {scheme.name} <ProvenanceBadge provenance={provenance} />
+        </p>
       </div>
       <ResponsiveContainer width="100%" height={200}>
         <RadialBarChart cx="50%" cy="50%" innerRadius="60%" outerRadius="90%" data={data}>
-          <RadialBar dataKey="value" fill={getAQIColor(value)} />
+          <PolarAngleAxis type="number" domain={[0, scheme.maxIndex]} tick={false} />
+          <RadialBar dataKey="value" fill={color} background={{ fill: theme.chart.track }} />
         </RadialBarChart>
       </ResponsiveContainer>
       <div className="text-center mt-4">
-        <div className="text-3xl font-bold" style={{ color: getAQIColor(value) }}>
-          {Math.round(value)}
+        <div className="text-3xl font-bold" style={{ color }}>
+          {formatAQI(value, schemeId)}
         </div>
-        <div className="text-sm text-gray-600 mt-1">{getAQILevel(value)}</div>
+        <div className="text-sm mt-1" style={{ color: theme.text.secondary }}>{levelLabel}</div>
+        {dominantPollutant && (
+          <div className="text-xs mt-1" style={{ color: theme.text.muted }}>
+            {m.app.dominantPollutant(POLLUTANT_LABELS[dominantPollutant])}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-const MetricCard: React.FC<MetricCardProps> = ({ icon: Icon, label, value, unit, trend, color = 'blue' }) => {
-  const colorClasses: Record<string, string> = {
-    blue: 'bg-blue-50 text-blue-600 border-blue-200',
-    green: 'bg-green-50 text-green-600 border-green-200',
-    orange: 'bg-orange-50 text-orange-600 border-orange-200',
-    red: 'bg-red-50 text-red-600 border-red-200'
-  };
+const AQI_SCHEME_STORAGE_KEY = 'aqiScheme';
 
-  return (
-    <div className={`rounded-xl border-2 p-4 ${colorClasses[color]}`}>
-      <div className="flex items-center justify-between mb-2">
-        <Icon size={24} />
-        {trend && (
-          <div className={`flex items-center text-xs ${trend > 0 ? 'text-red-500' : 'text-green-500'}`}>
-            <TrendingUp size={12} className={trend < 0 ? 'rotate-180' : ''} />
-            <span className="ml-1">{Math.abs(trend)}%</span>
-          </div>
-        )}
-      </div>
-      <div className="text-2xl font-bold mb-1">{value}{unit}</div>
-      <div className="text-sm opacity-75">{label}</div>
-    </div>
-  );
+const UNIT_SYSTEM_STORAGE_KEY = 'concentrationUnits';
+
+// Pollutant behind a chart series, e.g. "measurements.no2" or "no2"
+const seriesPollutant = (dataKey: unknown): Pollutant | null => {
+  const key = String(dataKey).replace(/^measurements\./, '');
+  return key in MEASUREMENT_UNITS ? (key as Pollutant) : null;
 };
 
-const AlertBanner: React.FC<AlertBannerProps> = ({ alerts }) => {
-  if (!alerts || alerts.length === 0) return null;
-  
-  return (
-    <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6 rounded-r-lg">
-      <div className="flex items-center">
-        <AlertTriangle className="h-5 w-5 text-amber-400 mr-2" />
-        <div>
-          <h4 className="text-amber-800 font-medium">Alertă calitate aer</h4>
-          <div className="text-amber-700 text-sm mt-1">
-            {alerts.map((alert: string, i: number) => (
-              <div key={i}>{alert}</div>
-            ))}
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+// Tooltip units of the dispersion chart series
+const DISPERSION_UNITS: Record<string, string> = {
+  boundaryLayerHeight: ' m',
+  precipitation: ' mm',
+  windSpeed: ' km/h',
+  windGusts: ' km/h',
+};
+
+// Re-index a history with the selected scheme
+const indexHistory = (points: HistoricalDataPoint[], schemeId: AQISchemeId): HistoricalDataPoint[] =>
+  points.map(point => ({
+    ...point,
+    aqi: indexOrNull(point, schemeId),
+  }));
+
+const numbers = (values: Array<number | undefined>): number[] =>
+  values.filter((value): value is number => typeof value === 'number');
+
+const toDateInputValue = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Resolve the selected range at call time so presets keep sliding with every
+ * refresh. Returns null for an incomplete or inverted custom range.
+ */
+const resolveRange = (
+  timeRange: TimeRangeSelection,
+  customStart: string,
+  customEnd: string
+): DateRange | null => {
+  if (timeRange !== 'custom') return resolvePresetRange(timeRange);
+  if (!customStart || !customEnd) return null;
+
+  const start = startOfDay(parseISO(customStart));
+  const end = min([endOfDay(parseISO(customEnd)), new Date()]);
+  return start < end ? { start, end } : null;
 };
 
 export default function BucharestDashboard() {
-  const [airQualityData, setAirQualityData] = useState<AirQualityStation[]>([]);
-  const [weatherData, setWeatherData] = useState<WeatherDataPoint[]>([]);
+  const locale = useLocale();
+  const m = useMessages();
+  const { theme } = useTheme();
+  const [airQualityData, setAirQualityData] = useState<AirQualityData[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [currentWeather, setCurrentWeather] = useState<WeatherData | null>(null);
+  const [hourlyWeather, setHourlyWeather] = useState<WeatherData[]>([]);
+  const [airQualityForecast, setAirQualityForecast] = useState<AirQualityForecastPoint[]>([]);
   const [historicalData, setHistoricalData] = useState<HistoricalDataPoint[]>([]);
-  const [selectedStation, setSelectedStation] = useState<string>('Toate stațiile');
-  const [timeRange, setTimeRange] = useState<string>('24h');
+  const [historicalWeather, setHistoricalWeather] = useState<HistoricalDataPoint[]>([]);
+  const [stationHistory, setStationHistory] = useState<HistoricalDataPoint[]>([]);
+  const [previousHistory, setPreviousHistory] = useState<HistoricalDataPoint[]>([]);
+  const [previousWeather, setPreviousWeather] = useState<HistoricalDataPoint[]>([]);
+  const [networkHistory, setNetworkHistory] = useState<{
+    current: Record<number, HistoricalDataPoint[]>;
+    previous: Record<number, HistoricalDataPoint[]>;
+  } | null>(null);
+  const [trainingData, setTrainingData] = useState<{
+    histories: Record<number, HistoricalDataPoint[]>;
+    weather: HistoricalDataPoint[];
+  } | null>(null);
+  const [provenance, setProvenance] = useState<Partial<DashboardProvenance>>({});
+  const [stationHistoryProvenance, setStationHistoryProvenance] = useState<Provenance | undefined>();
+  const [activeRange, setActiveRange] = useState<DateRange>(() => resolvePresetRange('24h'));
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [selectedStation, setSelectedStation] = useState<number | null>(null);
+  const [timeRange, setTimeRange] = useState<TimeRangeSelection>('24h');
+  const [customStart, setCustomStart] = useState<string>(() => toDateInputValue(subDays(new Date(), 7)));
+  const [customEnd, setCustomEnd] = useState<string>(() => toDateInputValue(new Date()));
+  const [aqiScheme, setAqiScheme] = useState<AQISchemeId>(() => {
+    const stored = readItem(AQI_SCHEME_STORAGE_KEY);
+    return stored && stored in AQI_SCHEMES ? (stored as AQISchemeId) : DEFAULT_AQI_SCHEME;
+  });
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(() => {
+    const stored = readItem(UNIT_SYSTEM_STORAGE_KEY);
+    return UNIT_SYSTEMS.find(system => system === stored) ?? DEFAULT_UNIT_SYSTEM;
+  });
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertLog, setAlertLog] = useState<Alert[]>(loadAlertLog);
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences>(loadNotificationPreferences);
+  const [workerRegistration, setWorkerRegistration] = useState<ServiceWorkerRegistration | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    // Simulate data loading
+    let cancelled = false;
+
     const loadData = async () => {
-      setIsLoading(true);
-      // Simulate API calls
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      setAirQualityData(generateAirQualityData());
-      setWeatherData(generateWeatherData());
-      setHistoricalData(generateHistoricalData());
-      setIsLoading(false);
+      const range = resolveRange(timeRange, customStart, customEnd);
+      if (!range) return;
+
+      try {
+        const data = await dataService.getAllDashboardData(range);
+        if (cancelled) return;
+
+        setAirQualityData(data.airQuality);
+        setStations(data.stations);
+        setCurrentWeather(data.weather.current);
+        setHourlyWeather(data.weather.hourly);
+        setAirQualityForecast(data.airQualityForecast);
+        setHistoricalData(data.historical);
+        setHistoricalWeather(data.historicalWeather);
+        setActiveRange(range);
+        setProvenance(data.provenance);
+        setLastUpdated(data.lastUpdated);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
     };
 
     loadData();
-    
+
     // Set up real-time updates
-    const interval = setInterval(() => {
-      setAirQualityData(generateAirQualityData());
-      setWeatherData(generateWeatherData());
-    }, 300000); // Update every 5 minutes
+    const interval = setInterval(loadData, 300000); // Update every 5 minutes
 
-    return () => clearInterval(interval);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [timeRange, customStart, customEnd]);
+
+  useEffect(() => {
+    if (selectedStation === null) {
+      setStationHistory([]);
+      setStationHistoryProvenance(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    dataService
+      .getStationHistory(selectedStation, activeRange)
+      .then(history => {
+        if (cancelled) return;
+        setStationHistory(history.data);
+        setStationHistoryProvenance(history.provenance);
+      })
+      .catch(err => console.warn('Station history could not be loaded:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedStation, activeRange]);
+
+  // Baseline of the trends on the metric cards
+  useEffect(() => {
+    let cancelled = false;
+    dataService
+      .getPreviousPeriod(activeRange, selectedStation)
+      .then(previous => {
+        if (cancelled) return;
+        setPreviousHistory(previous.historical.data);
+        setPreviousWeather(previous.historicalWeather.data);
+      })
+      .catch(err => console.warn('Trend baseline could not be loaded:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeRange, selectedStation]);
+
+  // Histories of every station, behind the overview AQI card
+  useEffect(() => {
+    if (selectedStation !== null) {
+      setNetworkHistory(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([dataService.getNetworkHistory(activeRange), dataService.getNetworkHistory(previousPeriod(activeRange))])
+      .then(([current, previous]) => {
+        if (!cancelled) setNetworkHistory({ current, previous });
+      })
+      .catch(err => console.warn('Network history could not be loaded:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeRange, selectedStation]);
+
+  // Training data of the nowcast: the last TRAINING_DAYS of every station
+  useEffect(() => {
+    if (stations.length === 0) return;
+    let cancelled = false;
+    const range = { start: subDays(new Date(), TRAINING_DAYS), end: new Date() };
+    Promise.all([
+      Promise.all(stations.map(station => dataService.getStationHistory(station.id, range))),
+      dataService.getHistoricalWeather(range),
+    ])
+      .then(([histories, weather]) => {
+        if (cancelled) return;
+        setTrainingData({
+          histories: Object.fromEntries(stations.map((station, i) => [station.id, histories[i].data])),
+          weather: weather.data,
+        });
+      })
+      .catch(err => console.warn('Nowcast training data could not be loaded:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stations, lastUpdated]);
+
+  const loadCorrelationData = useCallback(async (stationId: number, range: DateRange) => {
+    const [pollution, weather] = await Promise.all([
+      dataService.getStationHistory(stationId, range),
+      dataService.getHistoricalWeather(range),
+    ]);
+    return { pollution: pollution.data, weather: weather.data };
   }, []);
 
-  const averageAQI = airQualityData.length > 0 
-    ? airQualityData.reduce((sum, station) => sum + station.aqi, 0) / airQualityData.length 
-    : 0;
+  const customRangeInvalid = timeRange === 'custom' && !resolveRange(timeRange, customStart, customEnd);
+  const resolution = getResolution(activeRange);
+  const periodLabel = timeRange === 'custom' ? formatPeriod(activeRange) : TIME_RANGE_LABELS[timeRange];
+  const formatTick = (label: any) => formatBucket(String(label), resolution);
+
+  useEffect(() => {
+    writeItem(AQI_SCHEME_STORAGE_KEY, aqiScheme, 'AQI scheme');
+  }, [aqiScheme]);
+
+  useEffect(() => {
+    writeItem(UNIT_SYSTEM_STORAGE_KEY, unitSystem, 'Concentration units');
+  }, [unitSystem]);
+
+  useEffect(() => {
+    document.documentElement.lang = languageTag();
+  }, [locale]);
+
+  useEffect(() => {
+    saveAlertRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    saveNotificationPreferences(notificationPrefs);
+  }, [notificationPrefs]);
+
+  // The background worker polls the live services, so it is left out in demo mode
+  useEffect(() => {
+    if (isMockDataMode() || stations.length === 0) return;
+
+    let cancelled = false;
+    registerAlertWorker({ rules: alertRules, stations, preferences: notificationPrefs, locale }).then(registration => {
+      if (!cancelled) setWorkerRegistration(registration);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [alertRules, stations, notificationPrefs, locale]);
+
+  useEffect(() => {
+    if (!notificationPrefs.enabled || !notificationsSupported() || Notification.permission !== 'granted') return;
+
+    showAlertNotifications(workerRegistration, alertLog, notificationPrefs).catch(err =>
+      console.warn('Alert notifications could not be shown:', err)
+    );
+  }, [alertLog, notificationPrefs, workerRegistration]);
+
+  // Re-evaluate the alert rules whenever new readings arrive or a rule changes
+  useEffect(() => {
+    if (airQualityData.length === 0) return;
+
+    let cancelled = false;
+    const enabledRules = alertRules.filter(rule => rule.enabled);
+    const hours = Math.max(0, ...enabledRules.map(rule => ALERT_WINDOW_HOURS[rule.window]));
+    const end = new Date();
+    const range = { start: new Date(end.getTime() - (hours + 1) * 3600 * 1000), end };
+
+    const loadSamples = (): Promise<StationSamples[]> =>
+      Promise.all(
+        airQualityData.map(async reading => {
+          // Single-hour rules only need the latest reading
+          const history = hours > 1 ? (await dataService.getStationHistory(reading.stationId, range)).data : [];
+          return {
+            stationId: reading.stationId,
+            stationName: reading.stationName,
+            samples: [...samplesFromHistory(history), sampleFromReading(reading)],
+          };
+        })
+      );
+
+    loadSamples()
+      .then(stationSamples => {
+        if (cancelled) return;
+        setAlertLog(previous => {
+          const next = evaluateAlerts(alertRules, stationSamples, previous);
+          saveAlertLog(next);
+          return next;
+        });
+      })
+      .catch(err => console.warn('Alert rules could not be evaluated:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [airQualityData, alertRules]);
+
+  // Re-index the service output with the selected scheme
+  const stationAQI = useMemo(
+    () =>
+      airQualityData.map(station => {
+        const result = calculateAQI(station.measurements, aqiScheme);
+        return { ...station, aqi: result.dominantPollutant ? result.aqi : null, aqiResult: result };
+      }),
+    [airQualityData, aqiScheme]
+  );
+
+  const historicalAQI = useMemo(
+    () =>
+      indexHistory(aggregateSeries(selectedStation === null ? historicalData : stationHistory, activeRange), aqiScheme),
+    [historicalData, stationHistory, selectedStation, activeRange, aqiScheme]
+  );
+
+  const weatherSeries = useMemo(
+    () => aggregateSeries(historicalWeather, activeRange),
+    [historicalWeather, activeRange]
+  );
+
+  // Concentrations as displayed
+  const displayedReadings = useMemo(
+    () =>
+      airQualityData.map(reading => ({
+        ...reading,
+        measurements: Object.fromEntries(
+          (Object.keys(reading.measurements) as Pollutant[]).map(pollutant => [
+            pollutant,
+            toDisplay(pollutant, reading.measurements[pollutant], unitSystem),
+          ])
+        ),
+      })),
+    [airQualityData, unitSystem]
+  );
+  const displayedHistory = useMemo(
+    () => historyInUnits(historicalAQI, unitSystem),
+    [historicalAQI, unitSystem]
+  );
+
+  const forecast = useMemo(() => {
+    const points = indexForecast(airQualityForecast, aqiScheme);
+    const observed = indexHistory(selectedStation === null ? historicalData : stationHistory, aqiScheme);
+    return { series: forecastChartSeries(observed, points), worstWindow: worstForecastWindow(points) };
+  }, [airQualityForecast, historicalData, stationHistory, selectedStation, aqiScheme]);
+
+  const nowcasts = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(trainingData?.histories ?? {}).map(([stationId, history]) => [
+          Number(stationId),
+          nowcast(indexHistory(history, aqiScheme), trainingData?.weather ?? [], hourlyWeather),
+        ])
+      ) as Record<number, Nowcast | null>,
+    [trainingData, hourlyWeather, aqiScheme]
+  );
+
+  // Value, trend and sparkline of the AQI card come from one hourly series:
+  // the selected station, or the mean of all stations, with the live
+  // readings as the latest hour
+  const aqiCard = useMemo(() => {
+    const hourlySeries = (histories: Record<number, HistoricalDataPoint[]>, withReadings: boolean) => {
+      const readings = withReadings
+        ? stationAQI.filter(station => selectedStation === null || station.stationId === selectedStation)
+        : [];
+      const ids = new Set([...Object.keys(histories).map(Number), ...readings.map(station => station.stationId)]);
+      return meanAQISeries(
+        Array.from(ids, id => [
+          ...indexHistory(histories[id] ?? [], aqiScheme),
+          ...readings.filter(station => station.stationId === id).map(station => ({ date: station.timestamp, aqi: station.aqi })),
+        ])
+      );
+    };
+    const [current, previous] =
+      selectedStation === null
+        ? [networkHistory?.current ?? {}, networkHistory?.previous ?? {}]
+        : [{ [selectedStation]: stationHistory }, { [selectedStation]: previousHistory }];
 
-  const currentWeather = weatherData.length > 0 ? weatherData[weatherData.length - 1] : {
-    temperature: 20,
-    humidity: 65,
-    windSpeed: 8,
-    pressure: 1015
+    const series = hourlySeries(current, true);
+    return {
+      value: series.length > 0 ? series[series.length - 1].aqi : null,
+      trend: computeTrend(activeRange, 'aqi', series, hourlySeries(previous, false)),
+      sparkline: aggregateSeries(series, activeRange).map(point => point.aqi),
+    };
+  }, [stationAQI, networkHistory, stationHistory, previousHistory, selectedStation, activeRange, aqiScheme]);
+
+  const trends = useMemo(
+    () => ({
+      temperature: computeTrend(activeRange, 'temperature', historicalWeather, previousWeather),
+      humidity: computeTrend(activeRange, 'humidity', historicalWeather, previousWeather),
+    }),
+    [historicalWeather, previousWeather, activeRange]
+  );
+
+  // Hours are labelled by their start, so the window ends an hour after its last one
+  const formatWindow = ({ start, end }: ForecastWindow) =>
+    `${formatDate(start, 'dayMonthTime')}–${formatDate(new Date(end).getTime() + 3600 * 1000, 'dayMonthTime')}`;
+
+  const describeTrend = (trend: Trend | null, formatValue: (value: number) => string, note?: string) => {
+    if (!trend) return m.trends.noBaseline;
+    const text =
+      trend.basis === 'sameHourYesterday'
+        ? m.trends.sameHourYesterday(formatValue(trend.current), formatValue(trend.baseline))
+        : m.trends.previousPeriod(
+            formatValue(trend.current),
+            formatValue(trend.baseline),
+            formatPeriod(previousPeriod(activeRange))
+          );
+    return note ? `${text}\n${note}` : text;
   };
 
-  const alerts = [];
-  if (averageAQI > 100) {
-    alerts.push('Calitatea aerului este nesănătoasă pentru grupuri sensibile. Se recomandă limitarea activităților în exterior.');
+  const selectedStationInfo = stations.find(station => station.id === selectedStation);
+  const selectedReading = stationAQI.find(station => station.stationId === selectedStation);
+
+  // In station mode every headline figure follows the selected station
+  const averageAQI = aqiCard.value;
+  const aqiLevel = averageAQI !== null ? getAQILevel(averageAQI, aqiScheme) : null;
+  const worstStation = selectedReading || stationAQI.reduce<typeof stationAQI[number] | null>(
+    (worst, station) =>
+      station.aqi !== null && (!worst || worst.aqi === null || station.aqi > worst.aqi) ? station : worst,
+    null
+  );
+  const historySeries: Pollutant[] = selectedStationInfo
+    ? ['pm25', 'pm10', 'no2', 'o3', 'so2']
+    : ['pm25'];
+
+  const handleExport = async (scope: ExportScope, exportFormat: ExportFormat) => {
+    let historical: StationSeries[];
+    if (scope === 'all') {
+      historical = await Promise.all(
+        stations.map(async station => {
+          const history = await dataService.getStationHistory(station.id, activeRange);
+          return { stationName: station.name, points: history.data, provenance: history.provenance };
+        })
+      );
+    } else if (selectedStationInfo) {
+      historical = [{ stationName: selectedStationInfo.name, points: stationHistory, provenance: stationHistoryProvenance }];
+    } else {
+      // The overview chart shows the first station's history
+      historical = [{ stationName: stations[0]?.name ?? '', points: historicalData, provenance: provenance.historical }];
+    }
+
+    const input = {
+      scope,
+      range: activeRange,
+      schemeId: aqiScheme,
+      unitSystem,
+      measurements: scope === 'view' && selectedStation !== null
+        ? airQualityData.filter(reading => reading.stationId === selectedStation)
+        : airQualityData,
+      measurementsProvenance: provenance.airQuality,
+      hourlyWeather,
+      hourlyWeatherProvenance: provenance.hourlyForecast,
+      historical,
+      historicalWeather,
+      historicalWeatherProvenance: provenance.historicalWeather,
+    };
+    downloadFile(createExportFile(buildExportTables(input), exportFormat, input));
+  };
+
+  const alerts = activeAlerts(alertLog);
+
+  // Without a valid reading there is nothing to base the advice on
+  const recommendations: Array<{ title: string; text: string; tone: Tone }> = !aqiLevel ? [] : [
+    {
+      title: m.app.outdoorActivities,
+      text: aqiLevel.health,
+      tone: (aqiLevel.severity === 0 ? 'success' : aqiLevel.severity <= 2 ? 'warning' : 'danger') as Tone,
+    },
+    {
+      title: m.app.sensitiveGroups,
+      text: aqiLevel.sensitiveGroups,
+      tone: 'info' as Tone,
+    },
+    {
+      title: m.app.ventilation,
+      text: aqiLevel.severity <= 1 ? m.app.ventilate : m.app.limitVentilation,
+      tone: 'accent' as Tone,
+    },
+  ];
+
+  const { worstWindow } = forecast;
+  if (worstWindow) {
+    const worstLevel = getAQILevel(worstWindow.aqi, aqiScheme);
+    recommendations.push({
+      title: m.forecast.recommendationTitle(AIR_QUALITY_FORECAST_HOURS),
+      text:
+        aqiLevel && worstLevel.severity > aqiLevel.severity
+          ? m.forecast.worsening(
+              worstLevel.label,
+              formatWindow(worstWindow),
+              worstWindow.dominantPollutant ? POLLUTANT_LABELS[worstWindow.dominantPollutant] : 'AQI'
+            )
+          : m.forecast.noWorsening(worstLevel.label, formatWindow(worstWindow)),
+      tone: worstLevel.severity === 0 ? 'success' : worstLevel.severity <= 2 ? 'warning' : 'danger',
+    });
   }
 
+  const handleReport = async (reportFormat: ReportFormat) => {
+    const report: Report = {
+      title: m.app.reportTitle(selectedStationInfo ? selectedStationInfo.name : m.app.city),
+      range: activeRange,
+      generatedAt: new Date(),
+      schemeId: aqiScheme,
+      kpis: [
+        {
+          label: selectedStationInfo ? m.app.aqi : m.app.averageAqi,
+          value: formatAQI(averageAQI, aqiScheme),
+          detail: aqiLevel ? aqiLevel.label : m.quality.noValidData,
+        },
+        {
+          label: m.app.worstStation,
+          value: worstStation ? worstStation.stationName : '–',
+          detail: worstStation ? `AQI ${formatAQI(worstStation.aqi, aqiScheme)}` : undefined,
+        },
+        { label: m.app.temperature, value: currentWeather ? `${formatDecimal(currentWeather.temperature, 0)}°C` : '–' },
+        { label: m.app.humidity, value: currentWeather ? `${formatDecimal(currentWeather.humidity, 0)}%` : '–' },
+      ],
+      charts: captureCharts(),
+      stations: stationSummaryTable(airQualityData, aqiScheme),
+      alerts: alerts.map(describeAlert),
+      recommendations: recommendations.map(({ title, text }) => ({ title, text })),
+    };
+
+    if (reportFormat === 'pdf') {
+      printReport(report);
+    } else {
+      downloadFile(await toReportPNG(report));
+    }
+  };
+
   if (isLoading) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+      <div className="min-h-screen flex items-center justify-center" style={{ background: theme.surface.page }}>
+        <div className="text-center">
+          <div
+            className="animate-spin rounded-full h-12 w-12 border-b-2 mx-auto mb-4"
+            style={{ borderBottomColor: theme.tones.info.accent }}
+          ></div>
+          <p style={{ color: theme.text.secondary }}>{m.app.loading}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error && airQualityData.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{ background: theme.surface.page }}>
         <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Încărcare date...</p>
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4" color={theme.tones.warning.accent} />
+          <p style={{ color: theme.text.secondary }}>{m.app.loadError(error)}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+    <div className="min-h-screen p-4" style={{ background: theme.surface.page, color: theme.text.primary }}>
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+        <div className="rounded-2xl p-6 mb-6" style={cardStyle(theme)}>
           <div className="flex flex-col md:flex-row md:items-center md:justify-between">
             <div className="flex items-center mb-4 md:mb-0">
-              <Leaf className="h-8 w-8 text-green-600 mr-3" />
+              <Leaf className="h-8 w-8 mr-3" color={theme.tones.success.accent} />
               <div>
-                <h1 className="text-3xl font-bold text-gray-800">
-                  Dashboard Calitatea Vieții București
-                </h1>
-                <p className="text-gray-600 flex items-center mt-1">
+                <h1 className="text-3xl font-bold">{m.app.title}</h1>
+                <p className="flex items-center mt-1" style={{ color: theme.text.secondary }}>
                   <MapPin size={16} className="mr-1" />
-                  București, România
+                  {m.app.location}
                   <Clock size={16} className="ml-3 mr-1" />
-                  Actualizat: {new Date().toLocaleTimeString('ro-RO')}
+                  {m.app.updated(lastUpdated ? formatDate(lastUpdated, 'time') : '')}
                 </p>
               </div>
             </div>
             
             <div className="flex flex-col sm:flex-row gap-3">
               <select 
-                value={selectedStation}
-                onChange={(e) => setSelectedStation(e.target.value)}
-                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                value={selectedStation ?? ''}
+                onChange={(e) => setSelectedStation(e.target.value ? Number(e.target.value) : null)}
+                className="px-4 py-2 rounded-lg"
+                style={inputStyle(theme)}
               >
-                <option>Toate stațiile</option>
-                {airQualityData.map(station => (
-                  <option key={station.station} value={station.station}>
-                    {station.station}
+                <option value="">{m.common.allStations}</option>
+                {stations.map(station => (
+                  <option key={station.id} value={station.id}>
+                    {station.name}
                   </option>
                 ))}
               </select>
               
+              <select 
+                value={aqiScheme}
+                onChange={(e) => setAqiScheme(e.target.value as AQISchemeId)}
+                className="px-4 py-2 rounded-lg"
+                style={inputStyle(theme)}
+              >
+                {Object.values(AQI_SCHEMES).map(scheme => (
+                  <option key={scheme.id} value={scheme.id}>
+                    {scheme.name}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                aria-label={m.units.label}
+                value={unitSystem}
+                onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+                className="px-4 py-2 rounded-lg"
+                style={inputStyle(theme)}
+              >
+                {UNIT_SYSTEMS.map(system => (
+                  <option key={system} value={system}>
+                    {m.units.systems[system]}
+                  </option>
+                ))}
+              </select>
+
               <select 
                 value={timeRange}
-                onChange={(e) => setTimeRange(e.target.value)}
-                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                onChange={(e) => setTimeRange(e.target.value as TimeRangeSelection)}
+                className="px-4 py-2 rounded-lg"
+                style={inputStyle(theme)}
               >
-                <option value="24h">Ultimele 24h</option>
-                <option value="7d">Ultima săptămână</option>
-                <option value="30d">Ultima lună</option>
+                {(Object.keys(TIME_RANGE_LABELS) as TimeRangeSelection[]).map(range => (
+                  <option key={range} value={range}>
+                    {TIME_RANGE_LABELS[range]}
+                  </option>
+                ))}
               </select>
+
+              <ExportMenu onExport={handleExport} />
+              <ReportMenu onGenerate={handleReport} />
+              <LanguageSwitcher />
+              <ThemeSwitcher />
             </div>
           </div>
+
+          {timeRange === 'custom' && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-4">
+              <label className="flex items-center gap-2 text-sm" style={{ color: theme.text.secondary }}>
+                {m.app.from}
+                <input
+                  type="date"
+                  value={customStart}
+                  max={customEnd}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  className="px-3 py-2 rounded-lg"
+                  style={inputStyle(theme)}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm" style={{ color: theme.text.secondary }}>
+                {m.app.to}
+                <input
+                  type="date"
+                  value={customEnd}
+                  min={customStart}
+                  max={toDateInputValue(new Date())}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  className="px-3 py-2 rounded-lg"
+                  style={inputStyle(theme)}
+                />
+              </label>
+              {customRangeInvalid && (
+                <span className="text-sm" style={{ color: theme.tones.danger.accent }}>{m.app.invalidRange}</span>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Data provenance */}
+        <DemoDataBanner
+          provenance={selectedStation === null ? provenance : { ...provenance, historical: stationHistoryProvenance }}
+          mockMode={isMockDataMode()}
+        />
+
         {/* Alerts */}
         <AlertBanner alerts={alerts} />
 
@@ -284,203 +856,467 @@ export default function BucharestDashboard() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <MetricCard 
             icon={Wind} 
-            label="Indice Calitate Aer" 
-            value={Math.round(averageAQI)}
+            label={selectedStationInfo ? m.app.stationAqi(selectedStationInfo.name) : m.app.aqi}
+            value={formatAQI(averageAQI, aqiScheme)}
             unit=""
-            trend={-2.3}
-            color={averageAQI <= 50 ? 'green' : averageAQI <= 100 ? 'orange' : 'red'}
+            trend={aqiCard.trend}
+            trendDescription={describeTrend(
+              aqiCard.trend,
+              value => formatAQI(value, aqiScheme),
+              selectedStationInfo ? undefined : m.trends.allStations
+            )}
+            sparkline={aqiCard.sparkline}
+            color={!aqiLevel ? 'blue' : aqiLevel.severity === 0 ? 'green' : aqiLevel.severity <= 2 ? 'orange' : 'red'}
+            provenance={provenance.airQuality}
           />
           <MetricCard 
             icon={Thermometer} 
-            label="Temperatura" 
-            value={Math.round(currentWeather.temperature || 20)}
+            label={m.app.temperature}
+            value={currentWeather ? formatDecimal(currentWeather.temperature, 0) : '–'}
             unit="°C"
-            trend={1.5}
+            trend={trends.temperature}
+            trendDescription={describeTrend(trends.temperature, value => `${formatDecimal(value, 1)}°C`)}
+            sparkline={numbers(weatherSeries.map(point => point.temperature))}
             color="blue"
+            provenance={provenance.currentWeather}
           />
           <MetricCard 
             icon={Droplets} 
-            label="Umiditate" 
-            value={Math.round(currentWeather.humidity || 65)}
+            label={m.app.humidity}
+            value={currentWeather ? formatDecimal(currentWeather.humidity, 0) : '–'}
             unit="%"
-            trend={-0.8}
+            trend={trends.humidity}
+            trendDescription={describeTrend(trends.humidity, value => `${formatDecimal(value, 0)}%`)}
+            sparkline={numbers(weatherSeries.map(point => point.humidity))}
             color="blue"
+            provenance={provenance.currentWeather}
           />
           <MetricCard 
             icon={Eye} 
-            label="Vizibilitate" 
-            value="8.2"
+            label={m.app.visibility}
+            value={currentWeather?.visibility != null ? formatDecimal(currentWeather.visibility, 1) : '–'}
             unit="km"
-            trend={0.5}
             color="green"
+            provenance={provenance.currentWeather}
           />
         </div>
 
         {/* Main Dashboard Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
           {/* AQI Gauge */}
-          <AQIGauge value={averageAQI} label="Indice General Calitate Aer" />
+          <AQIGauge
+            value={averageAQI}
+            label={selectedStationInfo ? selectedStationInfo.name : m.app.overallAqi}
+            schemeId={aqiScheme}
+            dominantPollutant={worstStation?.aqiResult.dominantPollutant}
+            provenance={provenance.airQuality}
+          />
           
-          {/* Real-time Air Quality */}
-          <div className="lg:col-span-2 bg-white rounded-xl shadow-lg p-6">
-            <h3 className="text-xl font-bold text-gray-800 mb-4">
-              Calitatea Aerului pe Stații
-            </h3>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={airQualityData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis 
-                  dataKey="station" 
-                  angle={-45}
-                  textAnchor="end"
-                  height={80}
-                  fontSize={12}
-                />
-                <YAxis />
-                <Tooltip 
-                  formatter={(value: any, name: any) => [
-                    `${value} μg/m³`, 
-                    name === 'pm25' ? 'PM2.5' : 
-                    name === 'pm10' ? 'PM10' : 
-                    name === 'no2' ? 'NO₂' : String(name).toUpperCase()
-                  ]}
-                />
-                <Legend />
-                <Bar dataKey="pm25" fill="#ef4444" name="PM2.5" />
-                <Bar dataKey="pm10" fill="#f97316" name="PM10" />
-                <Bar dataKey="no2" fill="#eab308" name="NO₂" />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+          {/* Station drill-down or real-time air quality per station */}
+          {selectedStationInfo ? (
+            <div className="lg:col-span-2">
+              <StationDetail
+                station={selectedStationInfo}
+                reading={selectedReading}
+                schemeId={aqiScheme}
+                provenance={provenance.airQuality}
+                historyCompleteness={stationHistory.length > 0 ? seriesCompleteness(historicalAQI, activeRange) : undefined}
+                unitSystem={unitSystem}
+                onClose={() => setSelectedStation(null)}
+              />
+            </div>
+          ) : (
+            <div className="lg:col-span-2 rounded-xl p-6" style={cardStyle(theme)} data-report-chart={m.app.stationsChart}>
+              <h3 className="text-xl font-bold mb-4 flex items-center justify-between">
+                {m.app.stationsChart}
+                <ProvenanceBadge provenance={provenance.airQuality} />
+              </h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={displayedReadings}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={theme.chart.grid} />
+                  <XAxis 
+                    dataKey="stationName" 
+                    angle={-45}
+                    textAnchor="end"
+                    height={80}
+                    fontSize={12}
+                    {...chartAxisStyle(theme)}
+                  />
+                  <YAxis tickFormatter={(value) => formatNumber(value)} {...chartAxisStyle(theme)} />
+                  <Tooltip 
+                    {...chartTooltipStyle(theme)}
+                    formatter={(value: any, name: any, item: any) => {
+                      const pollutant = seriesPollutant(item.dataKey);
+                      return [
+                        `${typeof value === 'number' ? formatDecimal(value, 1) : value}${
+                          pollutant ? ` ${displayUnit(pollutant, unitSystem)}` : ''
+                        }`,
+                        name,
+                      ];
+                    }}
+                  />
+                  <Legend />
+                  <Bar dataKey="measurements.pm25" fill={theme.chart.series.pm25} name="PM2.5" />
+                  <Bar dataKey="measurements.pm10" fill={theme.chart.series.pm10} name="PM10" />
+                  <Bar dataKey="measurements.no2" fill={theme.chart.series.no2} name="NO₂" />
+                </BarChart>
+              </ResponsiveContainer>
+              <div className="mt-4" data-testid="station-completeness">
+                <h4 className="text-sm font-semibold mb-2">{m.quality.stations}</h4>
+                <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+                  {airQualityData.map(reading => (
+                    <span key={reading.stationId} className="flex items-center gap-1">
+                      {reading.stationName}
+                      <CompletenessBadge quality={reading.quality} />
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Station Map */}
+        <div className="mb-8">
+          <StationMap
+            stations={stations}
+            airQuality={stationAQI}
+            schemeId={aqiScheme}
+            provenance={provenance.airQuality}
+            selectedStationId={selectedStation}
+            onSelectStation={setSelectedStation}
+            unitSystem={unitSystem}
+          />
         </div>
 
         {/* Weather Trends */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-          <div className="bg-white rounded-xl shadow-lg p-6">
-            <h3 className="text-xl font-bold text-gray-800 mb-4">
-              Condițiile Meteo (24h)
+          <div className="rounded-xl p-6" style={cardStyle(theme)} data-report-chart={m.app.weatherChart(periodLabel)}>
+            <h3 className="text-xl font-bold mb-1 flex items-center justify-between">
+              {m.app.weatherChart(periodLabel)}
+              <ProvenanceBadge provenance={provenance.historicalWeather} />
             </h3>
+            <p className="text-sm mb-4" style={{ color: theme.text.muted }}>
+              {formatPeriod(activeRange)} · {RESOLUTION_LABELS[resolution]}
+            </p>
             <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={weatherData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="hour" />
-                <YAxis yAxisId="left" />
-                <YAxis yAxisId="right" orientation="right" />
-                <Tooltip formatter={(value: any, name: any) => [
-                  `${typeof value === 'number' ? value.toFixed(1) : value}${
-                    name === 'temperature' ? '°C' : 
-                    name === 'humidity' ? '%' : 
-                    name === 'windSpeed' ? ' km/h' : ''
+              <LineChart data={weatherSeries}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.chart.grid} />
+                <XAxis dataKey="date" tickFormatter={formatTick} minTickGap={20} {...chartAxisStyle(theme)} />
+                <YAxis yAxisId="left" tickFormatter={(value) => formatNumber(value)} {...chartAxisStyle(theme)} />
+                <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    tickFormatter={(value) => formatNumber(value)}
+                    {...chartAxisStyle(theme)}
+                  />
+                <Tooltip {...chartTooltipStyle(theme)} labelFormatter={formatTick} formatter={(value: any, name: any, item: any) => [
+                  `${typeof value === 'number' ? formatDecimal(value, 1) : value}${
+                    item.dataKey === 'temperature' ? '°C' : 
+                    item.dataKey === 'humidity' ? '%' : 
+                    item.dataKey === 'windSpeed' ? ' km/h' : ''
                   }`, 
-                  name === 'temperature' ? 'Temperatură' : 
-                  name === 'humidity' ? 'Umiditate' : 
-                  name === 'windSpeed' ? 'Viteză vânt' : String(name)
+                  name
                 ]} />
                 <Legend />
                 <Line 
                   yAxisId="left" 
                   type="monotone" 
                   dataKey="temperature" 
-                  stroke="#ef4444" 
+                  stroke={theme.chart.series.temperature}
                   strokeWidth={2}
-                  name="Temperatură"
+                  name={m.app.temperatureSeries}
                 />
                 <Line 
                   yAxisId="right" 
                   type="monotone" 
                   dataKey="humidity" 
-                  stroke="#3b82f6" 
+                  stroke={theme.chart.series.humidity}
                   strokeWidth={2}
-                  name="Umiditate"
+                  name={m.app.humiditySeries}
                 />
               </LineChart>
             </ResponsiveContainer>
           </div>
 
-          <div className="bg-white rounded-xl shadow-lg p-6">
-            <h3 className="text-xl font-bold text-gray-800 mb-4">
-              Tendințe Istorice (30 zile)
+          <div
+            className="rounded-xl p-6"
+            style={cardStyle(theme)}
+            data-report-chart={`${m.app.historyChart(periodLabel)}${selectedStationInfo ? ` – ${selectedStationInfo.name}` : ''}`}
+          >
+            <h3 className="text-xl font-bold mb-1 flex items-center justify-between">
+              {m.app.historyChart(periodLabel)}
+              <ProvenanceBadge
+                provenance={selectedStation === null ? provenance.historical : stationHistoryProvenance}
+              />
             </h3>
+            <p className="text-sm mb-4" style={{ color: theme.text.muted }}>
+              {selectedStationInfo ? `${selectedStationInfo.name} · ` : ''}
+              {formatPeriod(activeRange)} · {RESOLUTION_LABELS[resolution]}
+            </p>
             <ResponsiveContainer width="100%" height={300}>
-              <AreaChart data={historicalData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" />
-                <YAxis />
-                <Tooltip formatter={(value: any, name: any) => [
-                  `${typeof value === 'number' ? value.toFixed(1) : value}${name === 'aqi' ? '' : name === 'temperature' ? '°C' : ' μg/m³'}`, 
-                  name === 'aqi' ? 'AQI' : name === 'temperature' ? 'Temperatură' : 'PM2.5'
-                ]} />
+              <ComposedChart data={displayedHistory}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.chart.grid} />
+                <XAxis dataKey="date" tickFormatter={formatTick} minTickGap={20} {...chartAxisStyle(theme)} />
+                <YAxis yAxisId="left" tickFormatter={(value) => formatNumber(value)} {...chartAxisStyle(theme)} />
+                {selectedStationInfo && (
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    tickFormatter={(value) => formatNumber(value)}
+                    {...chartAxisStyle(theme)}
+                  />
+                )}
+                <Tooltip {...chartTooltipStyle(theme)} labelFormatter={formatTick} formatter={(value: any, name: any, item: any) => {
+                  const pollutant = seriesPollutant(item.dataKey);
+                  return [
+                    `${typeof value === 'number' ? formatDecimal(value, pollutant === 'co' ? 2 : 1) : value}${
+                      pollutant ? ` ${displayUnit(pollutant, unitSystem)}` : ''
+                    }`,
+                    name
+                  ];
+                }} />
                 <Legend />
                 <Area 
+                  yAxisId="left"
                   type="monotone" 
                   dataKey="aqi" 
-                  stackId="1" 
-                  stroke="#8b5cf6" 
-                  fill="#8b5cf6" 
+                  stroke={theme.chart.series.aqi}
+                  fill={theme.chart.series.aqi}
                   fillOpacity={0.6}
                   name="AQI"
                 />
-                <Area 
-                  type="monotone" 
-                  dataKey="pm25" 
-                  stackId="2" 
-                  stroke="#ef4444" 
-                  fill="#ef4444" 
-                  fillOpacity={0.6}
-                  name="PM2.5"
+                {historySeries.map(pollutant => (
+                  <Line
+                    key={pollutant}
+                    yAxisId="left"
+                    type="monotone"
+                    dataKey={pollutant}
+                    stroke={theme.chart.series[pollutant]}
+                    strokeWidth={2}
+                    dot={false}
+                    name={POLLUTANT_LABELS[pollutant]}
+                  />
+                ))}
+                {selectedStationInfo && (
+                  <Line
+                    yAxisId="right"
+                    type="monotone"
+                    dataKey="co"
+                    stroke={theme.chart.series.co}
+                    strokeWidth={2}
+                    strokeDasharray="4 2"
+                    dot={false}
+                    name={`${POLLUTANT_LABELS.co} (${displayUnit('co', unitSystem)})`}
+                  />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Air quality forecast */}
+        <div
+          className="rounded-xl p-6 mb-8"
+          style={cardStyle(theme)}
+          data-report-chart={m.forecast.chart(AIR_QUALITY_FORECAST_HOURS)}
+          data-report-caption={m.forecast.source}
+        >
+          <h3 className="text-xl font-bold mb-1 flex items-center justify-between">
+            {m.forecast.chart(AIR_QUALITY_FORECAST_HOURS)}
+            <ProvenanceBadge provenance={provenance.airQualityForecast} />
+          </h3>
+          <p className="text-sm mb-4" style={{ color: theme.text.muted }}>
+            {m.forecast.source}
+            {forecast.worstWindow && ` · ${m.forecast.worstWindow}: ${formatWindow(forecast.worstWindow)}`}
+          </p>
+          {forecast.series.length > 0 ? (
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={forecast.series}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.chart.grid} />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(label: any) => formatBucket(String(label), 'hourly')}
+                  minTickGap={20}
+                  {...chartAxisStyle(theme)}
+                />
+                <YAxis tickFormatter={(value) => formatNumber(value)} {...chartAxisStyle(theme)} />
+                <Tooltip
+                  {...chartTooltipStyle(theme)}
+                  labelFormatter={(label: any) => formatBucket(String(label), 'hourly')}
+                  formatter={(value: any, name: any) => [
+                    typeof value === 'number' ? formatAQI(value, aqiScheme) : value,
+                    name,
+                  ]}
                 />
-              </AreaChart>
+                <Legend />
+                {forecast.worstWindow && (
+                  <ReferenceArea
+                    x1={forecast.worstWindow.start}
+                    x2={forecast.worstWindow.end}
+                    fill={theme.tones.danger.accent}
+                    fillOpacity={0.15}
+                    stroke={theme.tones.danger.border}
+                    label={{ value: m.forecast.worstWindow, position: 'insideTop', fill: theme.tones.danger.text }}
+                  />
+                )}
+                <Line
+                  type="monotone"
+                  dataKey="observed"
+                  stroke={theme.chart.series.aqi}
+                  strokeWidth={2}
+                  dot={false}
+                  name={
+                    (selectedStationInfo ?? stations[0])
+                      ? m.forecast.observedFrom((selectedStationInfo ?? stations[0]).name)
+                      : m.forecast.observed
+                  }
+                />
+                <Line
+                  type="monotone"
+                  dataKey="forecast"
+                  stroke={theme.chart.series.aqi}
+                  strokeWidth={2}
+                  strokeDasharray="5 3"
+                  dot={false}
+                  name={m.forecast.forecast}
+                />
+              </ComposedChart>
             </ResponsiveContainer>
+          ) : (
+            <p className="text-sm" style={{ color: theme.text.muted }}>{m.forecast.unavailable}</p>
+          )}
+        </div>
+
+        {/* Local nowcast model */}
+        <div className="mb-8">
+          <NowcastPanel
+            stations={stations}
+            nowcasts={nowcasts}
+            selectedStation={selectedStation}
+            schemeId={aqiScheme}
+            loading={trainingData === null}
+          />
+        </div>
+
+        {/* Pollution–weather correlation */}
+        {stations.length > 0 && (
+          <div className="mb-8">
+            <CorrelationPanel
+              stations={stations}
+              initialStation={selectedStation}
+              loadData={loadCorrelationData}
+              unitSystem={unitSystem}
+            />
+          </div>
+        )}
+
+        {/* Dispersion conditions */}
+        <div className="mb-8">
+          <WeatherConditions weather={currentWeather} provenance={provenance.currentWeather} />
+        </div>
+        <div className="rounded-xl p-6 mb-8" style={cardStyle(theme)} data-report-chart={m.weather.dispersionChart(periodLabel)}>
+          <h3 className="text-xl font-bold mb-1 flex items-center justify-between">
+            {m.weather.dispersionChart(periodLabel)}
+            <ProvenanceBadge provenance={provenance.historicalWeather} />
+          </h3>
+          <p className="text-sm mb-4" style={{ color: theme.text.muted }}>
+            {formatPeriod(activeRange)} · {RESOLUTION_LABELS[resolution]}
+          </p>
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={weatherSeries}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme.chart.grid} />
+              <XAxis dataKey="date" tickFormatter={formatTick} minTickGap={20} {...chartAxisStyle(theme)} />
+              <YAxis yAxisId="left" tickFormatter={(value) => formatNumber(value)} {...chartAxisStyle(theme)} />
+              <YAxis
+                yAxisId="right"
+                orientation="right"
+                tickFormatter={(value) => formatNumber(value)}
+                {...chartAxisStyle(theme)}
+              />
+              <Tooltip {...chartTooltipStyle(theme)} labelFormatter={formatTick} formatter={(value: any, name: any, item: any) => [
+                `${typeof value === 'number' ? formatDecimal(value, item.dataKey === 'boundaryLayerHeight' ? 0 : 1) : value}${
+                  DISPERSION_UNITS[item.dataKey] ?? ''
+                }`,
+                name
+              ]} />
+              <Legend />
+              <Area
+                yAxisId="left"
+                type="monotone"
+                dataKey="boundaryLayerHeight"
+                stroke={theme.chart.series.boundaryLayerHeight}
+                fill={theme.chart.series.boundaryLayerHeight}
+                fillOpacity={0.3}
+                name={m.weather.boundaryLayerSeries}
+              />
+              <Bar
+                yAxisId="right"
+                dataKey="precipitation"
+                fill={theme.chart.series.precipitation}
+                name={m.weather.precipitationSeries}
+              />
+              <Line
+                yAxisId="right"
+                type="monotone"
+                dataKey="windSpeed"
+                stroke={theme.chart.series.windSpeed}
+                strokeWidth={2}
+                dot={false}
+                name={m.weather.windSeries}
+              />
+              <Line
+                yAxisId="right"
+                type="monotone"
+                dataKey="windGusts"
+                stroke={theme.chart.series.windGusts}
+                strokeWidth={2}
+                strokeDasharray="4 2"
+                dot={false}
+                name={m.weather.gustsSeries}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Alert rules and history */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          <div className="space-y-6">
+            <AlertRules rules={alertRules} stations={stations} onChange={setAlertRules} />
+            <NotificationSettings preferences={notificationPrefs} stations={stations} onChange={setNotificationPrefs} />
           </div>
+          <AlertHistory log={alertLog} />
         </div>
 
         {/* Health Recommendations */}
-        <div className="bg-white rounded-xl shadow-lg p-6">
-          <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center">
-            <Info className="mr-2 text-blue-600" />
-            Recomandări pentru Sănătate
+        <div className="rounded-xl p-6" style={cardStyle(theme)}>
+          <h3 className="text-xl font-bold mb-4 flex items-center">
+            <Info className="mr-2" color={theme.tones.info.accent} />
+            {m.app.recommendations}
           </h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className={`p-4 rounded-lg border-l-4 ${
-              averageAQI <= 50 ? 'bg-green-50 border-green-400' :
-              averageAQI <= 100 ? 'bg-yellow-50 border-yellow-400' : 
-              'bg-red-50 border-red-400'
-            }`}>
-              <h4 className="font-semibold mb-2">Activități în Exterior</h4>
-              <p className="text-sm text-gray-700">
-                {averageAQI <= 50 
-                  ? 'Ideal pentru toate activitățile în exterior. Calitatea aerului este excelentă.'
-                  : averageAQI <= 100
-                  ? 'Activitățile în exterior sunt acceptabile pentru majoritatea persoanelor.'
-                  : 'Se recomandă limitarea activităților intense în exterior, mai ales pentru grupurile sensibile.'
-                }
-              </p>
-            </div>
-            
-            <div className="bg-blue-50 border-l-4 border-blue-400 p-4 rounded-lg">
-              <h4 className="font-semibold mb-2">Persoane Sensibile</h4>
-              <p className="text-sm text-gray-700">
-                Copiii, vârstnicii și persoanele cu probleme respiratorii sau cardiovasculare 
-                ar trebui să fie precauți când AQI depășește 100.
-              </p>
-            </div>
-            
-            <div className="bg-purple-50 border-l-4 border-purple-400 p-4 rounded-lg">
-              <h4 className="font-semibold mb-2">Ventilare Locuință</h4>
-              <p className="text-sm text-gray-700">
-                {averageAQI <= 75 
-                  ? 'Aerisiți regulat locuința pentru a menține aerul proaspăt.'
-                  : 'Limitați ventilarea când calitatea exterioară a aerului este scăzută.'
-                }
-              </p>
-            </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {recommendations.map(recommendation => (
+              <div
+                key={recommendation.title}
+                className="p-4 rounded-lg border-l-4"
+                style={{
+                  background: theme.tones[recommendation.tone].background,
+                  borderLeft: `4px solid ${theme.tones[recommendation.tone].border}`,
+                }}
+              >
+                <h4 className="font-semibold mb-2" style={{ color: theme.tones[recommendation.tone].text }}>
+                  {recommendation.title}
+                </h4>
+                <p className="text-sm" style={{ color: theme.text.secondary }}>{recommendation.text}</p>
+              </div>
+            ))}
           </div>
         </div>
 
         {/* Footer */}
-        <div className="mt-8 text-center text-gray-600 text-sm">
-          <p>Date furnizate de Copernicus Climate Change Service și calitateaer.ro</p>
-          <p className="mt-1">Ultima actualizare: {new Date().toLocaleString('ro-RO')}</p>
+        <div className="mt-8 text-center text-sm" style={{ color: theme.text.secondary }}>
+          <p>{m.app.sources}</p>
+          <p className="mt-1">{m.app.lastUpdated(lastUpdated ? formatDate(lastUpdated, 'dateTimeSeconds') : '')}</p>
         </div>
       </div>
     </div>
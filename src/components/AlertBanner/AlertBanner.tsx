@@ -0,0 +1,79 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { formatDate } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { POLLUTANT_LABELS } from '../../services/aqi';
+import {
+  ALERT_SEVERITY_LABELS,
+  ALERT_SEVERITY_RANK,
+  ALERT_WINDOW_LABELS,
+  Alert,
+  AlertSeverity,
+  alertRuleName,
+  formatAlertValue,
+} from '../../services/alerts';
+import { Tone, toneStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+
+interface AlertBannerProps {
+  alerts: Alert[];
+}
+
+export const SEVERITY_TONES: Record<AlertSeverity, Tone> = {
+  info: 'info',
+  warning: 'warning',
+  critical: 'danger',
+};
+
+export const AlertBanner: React.FC<AlertBannerProps> = ({ alerts }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  if (alerts.length === 0) return null;
+
+  const worst = alerts.reduce<AlertSeverity>(
+    (severity, alert) => (ALERT_SEVERITY_RANK[alert.severity] > ALERT_SEVERITY_RANK[severity] ? alert.severity : severity),
+    'info'
+  );
+  const tone = theme.tones[SEVERITY_TONES[worst]];
+
+  return (
+    <div
+      className="border-l-4 p-4 mb-6 rounded-r-lg"
+      style={{ background: tone.background, borderLeft: `4px solid ${tone.border}` }}
+      role="alert"
+    >
+      <div className="flex items-start">
+        <AlertTriangle className="h-5 w-5 mr-2 mt-0.5" color={tone.accent} />
+        <div className="flex-1">
+          <h4 className="font-medium" style={{ color: tone.text }}>
+            {m.alerts.banner(alerts.length)}
+          </h4>
+          <ul className="text-sm mt-2 space-y-1" style={{ color: theme.text.secondary }}>
+            {alerts.map(alert => (
+              <li key={alert.key} className="flex flex-wrap items-center gap-x-2">
+                <span
+                  className="px-2 py-0.5 rounded text-xs font-medium"
+                  style={toneStyle(theme, SEVERITY_TONES[alert.severity])}
+                >
+                  {ALERT_SEVERITY_LABELS[alert.severity]}
+                </span>
+                <span className="font-medium">{alert.stationName}</span>
+                <span>
+                  {POLLUTANT_LABELS[alert.pollutant]} ({ALERT_WINDOW_LABELS[alert.window]}):{' '}
+                  <strong>{formatAlertValue(alert.value, alert.pollutant)}</strong>
+                </span>
+                <span style={{ color: theme.text.muted }}>
+                  {m.alerts.since(
+                    formatAlertValue(alert.threshold, alert.pollutant),
+                    formatDate(alert.startedAt, 'dayMonthTime')
+                  )}{' '}
+                  · {alertRuleName(alert)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
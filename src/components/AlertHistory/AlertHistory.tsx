@@ -0,0 +1,80 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { formatDate } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { POLLUTANT_LABELS } from '../../services/aqi';
+import { ALERT_SEVERITY_LABELS, ALERT_WINDOW_LABELS, Alert, formatAlertValue } from '../../services/alerts';
+import { cardStyle, toneStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { SEVERITY_TONES } from '../AlertBanner/AlertBanner';
+
+interface AlertHistoryProps {
+  log: Alert[];
+  /** Entries shown; the log itself keeps more */
+  limit?: number;
+}
+
+const formatTime = (timestamp: string) => formatDate(timestamp, 'dateTime');
+
+export const AlertHistory: React.FC<AlertHistoryProps> = ({ log, limit = 50 }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const muted = { color: theme.text.muted };
+
+  return (
+    <div className="rounded-xl p-6" style={cardStyle(theme)}>
+      <h3 className="text-xl font-bold mb-4 flex items-center">
+        <History className="mr-2" color={theme.text.secondary} />
+        {m.alerts.history}
+      </h3>
+      {log.length === 0 ? (
+        <p className="text-sm" style={muted}>{m.alerts.noHistory}</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left" style={{ ...muted, borderBottom: `1px solid ${theme.border.default}` }}>
+                <th className="py-2 pr-2 font-medium">{m.alerts.level}</th>
+                <th className="py-2 pr-2 font-medium">{m.alerts.station}</th>
+                <th className="py-2 pr-2 font-medium">{m.alerts.pollutant}</th>
+                <th className="py-2 pr-2 font-medium">{m.alerts.valueThreshold}</th>
+                <th className="py-2 font-medium">{m.alerts.period}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.slice(0, limit).map(alert => (
+                <tr
+                  key={`${alert.key}:${alert.startedAt}`}
+                  className="align-top"
+                  style={{ borderBottom: `1px solid ${theme.border.subtle}` }}
+                >
+                  <td className="py-2 pr-2">
+                    <span
+                      className="px-2 py-0.5 rounded text-xs font-medium"
+                      style={toneStyle(theme, SEVERITY_TONES[alert.severity])}
+                    >
+                      {ALERT_SEVERITY_LABELS[alert.severity]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-2">{alert.stationName}</td>
+                  <td className="py-2 pr-2">
+                    {POLLUTANT_LABELS[alert.pollutant]}
+                    <div className="text-xs" style={muted}>{ALERT_WINDOW_LABELS[alert.window]}</div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    {formatAlertValue(alert.value, alert.pollutant)}
+                    <div className="text-xs" style={muted}>{formatAlertValue(alert.threshold, alert.pollutant)}</div>
+                  </td>
+                  <td className="py-2 text-xs" style={{ color: theme.text.secondary }}>
+                    {formatTime(alert.startedAt)}
+                    <div>{alert.endedAt ? `– ${formatTime(alert.endedAt)}` : m.alerts.ongoing}</div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Bell, Trash2 } from 'lucide-react';
+import { useMessages } from '../../i18n/useI18n';
+import { POLLUTANTS, POLLUTANT_LABELS, Pollutant } from '../../services/aqi';
+import { MEASUREMENT_UNITS } from '../../services/units';
+import {
+  ALERT_SEVERITY_LABELS,
+  ALERT_WINDOW_LABELS,
+  AlertRule,
+  AlertSeverity,
+  AlertWindow,
+  describeRule,
+  ruleName,
+} from '../../services/alerts';
+import { Station } from '../../types';
+import { cardStyle, inputStyle, toneStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { SEVERITY_TONES } from '../AlertBanner/AlertBanner';
+
+interface AlertRulesProps {
+  rules: AlertRule[];
+  stations: Station[];
+  onChange: (rules: AlertRule[]) => void;
+}
+
+const inputClass = 'px-2 py-1 rounded text-sm';
+
+export const AlertRules: React.FC<AlertRulesProps> = ({ rules, stations, onChange }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const input = inputStyle(theme);
+  const [name, setName] = useState('');
+  const [pollutant, setPollutant] = useState<Pollutant>('pm10');
+  const [stationId, setStationId] = useState<number | null>(null);
+  const [averagingWindow, setAveragingWindow] = useState<AlertWindow>('24h');
+  const [threshold, setThreshold] = useState('50');
+  const [severity, setSeverity] = useState<AlertSeverity>('warning');
+  const [hysteresis, setHysteresis] = useState('10');
+
+  const stationName = (id: number | null) =>
+    id === null ? m.common.allStations : stations.find(station => station.id === id)?.name ?? m.common.station(id);
+
+  const thresholdValue = Number(threshold);
+  const hysteresisValue = Number(hysteresis);
+  const valid =
+    threshold !== '' && thresholdValue > 0 && hysteresis !== '' && hysteresisValue >= 0 && hysteresisValue < 100;
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!valid) return;
+
+    const rule: AlertRule = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: '',
+      pollutant,
+      stationId,
+      window: averagingWindow,
+      threshold: thresholdValue,
+      severity,
+      hysteresis: hysteresisValue,
+      enabled: true,
+    };
+    onChange([...rules, { ...rule, name: name.trim() || describeRule(rule) }]);
+    setName('');
+  };
+
+  const toggle = (id: string) =>
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)));
+
+  const remove = (id: string) => onChange(rules.filter(rule => rule.id !== id));
+
+  return (
+    <div className="rounded-xl p-6" style={cardStyle(theme)}>
+      <h3 className="text-xl font-bold mb-4 flex items-center">
+        <Bell className="mr-2" color={theme.tones.info.accent} />
+        {m.alerts.rules}
+      </h3>
+
+      <ul className="max-h-72 overflow-y-auto mb-4">
+        {rules.map((rule, index) => (
+          <li
+            key={rule.id}
+            className="flex items-center gap-3 py-2 text-sm"
+            style={index > 0 ? { borderTop: `1px solid ${theme.border.subtle}` } : undefined}
+          >
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={() => toggle(rule.id)}
+              aria-label={m.alerts.enable(ruleName(rule))}
+            />
+            <div className={`flex-1 ${rule.enabled ? '' : 'opacity-50'}`}>
+              <div className="font-medium">{ruleName(rule)}</div>
+              <div className="text-xs" style={{ color: theme.text.muted }}>
+                {m.alerts.ruleDetails(describeRule(rule), stationName(rule.stationId), rule.hysteresis)}
+              </div>
+            </div>
+            <span
+              className="px-2 py-0.5 rounded text-xs font-medium"
+              style={toneStyle(theme, SEVERITY_TONES[rule.severity])}
+            >
+              {ALERT_SEVERITY_LABELS[rule.severity]}
+            </span>
+            {rule.builtIn ? (
+              <span className="w-4" />
+            ) : (
+              <button
+                type="button"
+                onClick={() => remove(rule.id)}
+                style={{ color: theme.text.muted }}
+                aria-label={m.alerts.remove(ruleName(rule))}
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-2 gap-2 text-sm">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={m.alerts.name}
+          className={`${inputClass} col-span-2`}
+          style={input}
+        />
+        <select value={pollutant} onChange={(e) => setPollutant(e.target.value as Pollutant)} className={inputClass} style={input}>
+          {POLLUTANTS.map(option => (
+            <option key={option} value={option}>
+              {POLLUTANT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={stationId ?? ''}
+          onChange={(e) => setStationId(e.target.value ? Number(e.target.value) : null)}
+          className={inputClass}
+          style={input}
+        >
+          <option value="">{m.common.allStations}</option>
+          {stations.map(station => (
+            <option key={station.id} value={station.id}>
+              {station.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={averagingWindow}
+          onChange={(e) => setAveragingWindow(e.target.value as AlertWindow)}
+          className={inputClass}
+          style={input}
+        >
+          {(Object.keys(ALERT_WINDOW_LABELS) as AlertWindow[]).map(option => (
+            <option key={option} value={option}>
+              {ALERT_WINDOW_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as AlertSeverity)} className={inputClass} style={input}>
+          {(Object.keys(ALERT_SEVERITY_LABELS) as AlertSeverity[]).map(option => (
+            <option key={option} value={option}>
+              {ALERT_SEVERITY_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2" style={{ color: theme.text.secondary }}>
+          {m.alerts.threshold}
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            className={`${inputClass} w-24`}
+            style={input}
+          />
+          {MEASUREMENT_UNITS[pollutant]}
+        </label>
+        <label className="flex items-center gap-2" style={{ color: theme.text.secondary }}>
+          {m.alerts.hysteresis}
+          <input
+            type="number"
+            min="0"
+            max="99"
+            value={hysteresis}
+            onChange={(e) => setHysteresis(e.target.value)}
+            className={`${inputClass} w-20`}
+            style={input}
+          />
+          %
+        </label>
+        <button
+          type="submit"
+          disabled={!valid}
+          className="col-span-2 px-3 py-1.5 rounded disabled:opacity-50"
+          style={{ background: theme.tones.info.accent, color: theme.text.inverse }}
+        >
+          {m.alerts.add}
+        </button>
+      </form>
+    </div>
+  );
+};
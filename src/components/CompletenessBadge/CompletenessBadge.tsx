@@ -0,0 +1,36 @@
+import React from 'react';
+import { POLLUTANTS, POLLUTANT_LABELS } from '../../services/aqi';
+import { readingCompleteness, rejectedPollutants } from '../../services/quality';
+import { useMessages } from '../../i18n/useI18n';
+import { Tone, toneStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { MeasurementQuality } from '../../types';
+
+interface CompletenessBadgeProps {
+  quality: MeasurementQuality;
+}
+
+export const CompletenessBadge: React.FC<CompletenessBadgeProps> = ({ quality }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const completeness = readingCompleteness(quality);
+  const rejected = rejectedPollutants(quality);
+  const tone: Tone = completeness === 1 ? 'success' : completeness >= 0.5 ? 'warning' : 'danger';
+  const title = [
+    m.quality.completenessTitle,
+    ...(rejected.length > 0
+      ? rejected.map(([pollutant, flag]) => m.quality.rejected(POLLUTANT_LABELS[pollutant], m.quality.flags[flag]))
+      : [m.quality.allValid]),
+  ].join('\n');
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full border"
+      style={{ ...toneStyle(theme, tone), borderStyle: 'solid', borderWidth: 1 }}
+      title={title}
+      data-testid="completeness-badge"
+    >
+      {m.quality.completeness(POLLUTANTS.length - rejected.length, POLLUTANTS.length)}
+    </span>
+  );
+};
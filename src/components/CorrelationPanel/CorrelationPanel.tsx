@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ScatterChart as ScatterIcon } from 'lucide-react';
+import { POLLUTANTS, POLLUTANT_LABELS, Pollutant } from '../../services/aqi';
+import {
+  MAX_LAG_HOURS,
+  WEATHER_VARIABLES,
+  WEATHER_VARIABLE_UNITS,
+  WeatherVariable,
+  correlate,
+  lagProfile,
+} from '../../services/correlation';
+import { DateRange, TIME_RANGE_LABELS, TimeRangePreset, formatPeriod, resolvePresetRange } from '../../services/timeRange';
+import { DEFAULT_UNIT_SYSTEM, UnitSystem, displayUnit, historyInUnits } from '../../services/units';
+import { formatDate, formatDecimal, formatNumber } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { cardStyle, chartAxisStyle, chartTooltipStyle, inputStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { HistoricalDataPoint, Station } from '../../types';
+
+interface CorrelationPanelProps {
+  stations: Station[];
+  /** Station selected on the dashboard, the initial choice */
+  initialStation: number | null;
+  loadData: (
+    stationId: number,
+    range: DateRange
+  ) => Promise<{ pollution: HistoricalDataPoint[]; weather: HistoricalDataPoint[] }>;
+  unitSystem?: UnitSystem;
+}
+
+const PRESETS: TimeRangePreset[] = ['24h', '7d', '30d'];
+
+const inputClass = 'px-2 py-1 rounded text-sm';
+
+const formatCoefficient = (value: number | null): string => (value === null ? '–' : formatDecimal(value, 2));
+
+export const CorrelationPanel: React.FC<CorrelationPanelProps> = ({
+  stations,
+  initialStation,
+  loadData,
+  unitSystem = DEFAULT_UNIT_SYSTEM,
+}) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const input = inputStyle(theme);
+  const [stationId, setStationId] = useState<number | null>(initialStation);
+  const [preset, setPreset] = useState<TimeRangePreset>('30d');
+  const [pollutant, setPollutant] = useState<Pollutant>('pm25');
+  const [variable, setVariable] = useState<WeatherVariable>('windSpeed');
+  const [lag, setLag] = useState(0);
+  const [data, setData] = useState<{ pollution: HistoricalDataPoint[]; weather: HistoricalDataPoint[] } | null>(null);
+  const [range, setRange] = useState<DateRange>(() => resolvePresetRange(preset));
+
+  const station = stations.find(item => item.id === stationId) ?? stations[0];
+  const loadedStation = station?.id;
+
+  useEffect(() => {
+    if (loadedStation === undefined) return;
+    let cancelled = false;
+    const nextRange = resolvePresetRange(preset);
+    setData(null);
+    loadData(loadedStation, nextRange)
+      .then(result => {
+        if (cancelled) return;
+        setRange(nextRange);
+        setData(result);
+      })
+      .catch(err => console.warn('Correlation data could not be loaded:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadedStation, preset, loadData]);
+
+  // Gases in the chosen units
+  const pollution = useMemo(
+    () => (data ? historyInUnits(data.pollution, unitSystem) : null),
+    [data, unitSystem]
+  );
+  const result = useMemo(
+    () => (data && pollution ? correlate(pollution, data.weather, pollutant, variable, lag) : null),
+    [data, pollution, pollutant, variable, lag]
+  );
+  const profile = useMemo(
+    () => (data && pollution ? lagProfile(pollution, data.weather, pollutant, variable) : []),
+    [data, pollution, pollutant, variable]
+  );
+  const strongest = profile.reduce<typeof profile[number] | null>(
+    (best, item) =>
+      item.pearson !== null && (best?.pearson == null || Math.abs(item.pearson) > Math.abs(best.pearson)) ? item : best,
+    null
+  );
+
+  const xLabel = `${m.correlation.variables[variable]} (${WEATHER_VARIABLE_UNITS[variable]})`;
+  const yLabel = `${POLLUTANT_LABELS[pollutant]} (${displayUnit(pollutant, unitSystem)})`;
+  const fit = result?.fit;
+  const xs = result?.points.map(point => point.x) ?? [];
+  const trendSegment =
+    fit && xs.length > 0 ? [Math.min(...xs), Math.max(...xs)].map(x => ({ x, y: fit.slope * x + fit.intercept })) : null;
+  const relation =
+    result?.pearson != null
+      ? m.correlation.relation(
+          m.correlation.strengths[
+            Math.abs(result.pearson) < 0.3 ? 'weak' : Math.abs(result.pearson) < 0.6 ? 'moderate' : 'strong'
+          ],
+          m.correlation.signs[result.pearson < 0 ? 'negative' : 'positive']
+        )
+      : null;
+
+  return (
+    <div
+      className="rounded-xl p-6"
+      style={cardStyle(theme)}
+      data-testid="correlation-panel"
+      data-report-chart={m.correlation.title}
+    >
+      <h3 className="text-xl font-bold mb-1 flex items-center">
+        <ScatterIcon className="mr-2" color={theme.tones.info.accent} />
+        {m.correlation.title}
+      </h3>
+      <p className="text-sm mb-4" style={{ color: theme.text.muted }}>
+        {m.correlation.description}
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          aria-label={m.correlation.station}
+          value={station?.id ?? ''}
+          onChange={(e) => setStationId(Number(e.target.value))}
+          className={inputClass}
+          style={input}
+        >
+          {stations.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={m.correlation.period}
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as TimeRangePreset)}
+          className={inputClass}
+          style={input}
+        >
+          {PRESETS.map(option => (
+            <option key={option} value={option}>
+              {TIME_RANGE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={m.correlation.pollutant}
+          value={pollutant}
+          onChange={(e) => setPollutant(e.target.value as Pollutant)}
+          className={inputClass}
+          style={input}
+        >
+          {POLLUTANTS.map(option => (
+            <option key={option} value={option}>
+              {POLLUTANT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={m.correlation.variable}
+          value={variable}
+          onChange={(e) => setVariable(e.target.value as WeatherVariable)}
+          className={inputClass}
+          style={input}
+        >
+          {WEATHER_VARIABLES.map(option => (
+            <option key={option} value={option}>
+              {m.correlation.variables[option]}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={m.correlation.lag}
+          value={lag}
+          onChange={(e) => setLag(Number(e.target.value))}
+          className={inputClass}
+          style={input}
+        >
+          {Array.from({ length: MAX_LAG_HOURS + 1 }, (_, hours) => (
+            <option key={hours} value={hours}>
+              {m.correlation.lagOption(hours)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!data || !result ? (
+        <p className="text-sm" style={{ color: theme.text.muted }}>{m.correlation.loading}</p>
+      ) : result.pearson === null ? (
+        <p className="text-sm" style={{ color: theme.text.muted }}>{m.correlation.insufficient}</p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-2" data-testid="correlation-stats">
+            <div>
+              <dt className="text-xs" style={{ color: theme.text.muted }}>{m.correlation.pearson}</dt>
+              <dd className="text-lg font-semibold">{formatCoefficient(result.pearson)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs" style={{ color: theme.text.muted }}>{m.correlation.spearman}</dt>
+              <dd className="text-lg font-semibold">{formatCoefficient(result.spearman)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs" style={{ color: theme.text.muted }}>{m.correlation.pairs}</dt>
+              <dd className="text-lg font-semibold">{formatNumber(result.points.length)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs" style={{ color: theme.text.muted }}>{m.correlation.trendLine}</dt>
+              <dd className="text-sm font-semibold">
+                {result.fit
+                  ? `${POLLUTANT_LABELS[pollutant]} ≈ ${formatDecimal(result.fit.slope, 2)} × ${
+                      m.correlation.variables[variable]
+                    } ${result.fit.intercept < 0 ? '−' : '+'} ${formatDecimal(Math.abs(result.fit.intercept), 1)}`
+                  : '–'}
+              </dd>
+            </div>
+          </dl>
+          <p className="text-sm mb-4" style={{ color: theme.text.secondary }}>
+            {relation} · {station?.name} · {formatPeriod(range)}
+          </p>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <ResponsiveContainer width="100%" height={300}>
+                <ScatterChart margin={{ bottom: 16 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={theme.chart.grid} />
+                  <XAxis
+                    type="number"
+                    dataKey="x"
+                    name={xLabel}
+                    domain={['auto', 'auto']}
+                    tickFormatter={(value) => formatNumber(value)}
+                    label={{ value: xLabel, position: 'insideBottom', offset: -8, fill: theme.chart.axis }}
+                    {...chartAxisStyle(theme)}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="y"
+                    name={yLabel}
+                    tickFormatter={(value) => formatNumber(value)}
+                    {...chartAxisStyle(theme)}
+                  />
+                  <Tooltip
+                    {...chartTooltipStyle(theme)}
+                    labelFormatter={() => ''}
+                    formatter={(value: any, name: any, item: any) => [
+                      typeof value === 'number' ? formatDecimal(value, 1) : value,
+                      item?.payload?.date ? `${name} · ${formatDate(item.payload.date, 'dayMonthTime')}` : name,
+                    ]}
+                  />
+                  <Scatter
+                    name={yLabel}
+                    data={result.points}
+                    fill={theme.chart.series[pollutant]}
+                    fillOpacity={0.5}
+                    isAnimationActive={false}
+                  />
+                  {trendSegment && (
+                    <ReferenceLine
+                      segment={trendSegment}
+                      stroke={theme.text.primary}
+                      strokeWidth={2}
+                      ifOverflow="extendDomain"
+                    />
+                  )}
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">{m.correlation.lagChart}</h4>
+              <ResponsiveContainer width="100%" height={240}>
+                <BarChart data={profile}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={theme.chart.grid} />
+                  <XAxis dataKey="lagHours" {...chartAxisStyle(theme)} />
+                  <YAxis domain={[-1, 1]} tickFormatter={(value) => formatDecimal(value, 1)} {...chartAxisStyle(theme)} />
+                  <Tooltip
+                    {...chartTooltipStyle(theme)}
+                    labelFormatter={(label: any) => m.correlation.lagOption(Number(label))}
+                    formatter={(value: any) => [formatCoefficient(typeof value === 'number' ? value : null), m.correlation.pearson]}
+                  />
+                  <ReferenceLine y={0} stroke={theme.chart.axis} />
+                  <Bar
+                    dataKey="pearson"
+                    isAnimationActive={false}
+                    onClick={(_, index) => setLag(index)}
+                    cursor="pointer"
+                  >
+                    {profile.map(item => (
+                      <Cell
+                        key={item.lagHours}
+                        fill={item.lagHours === lag ? theme.tones.accent.accent : theme.chart.series[pollutant]}
+                        fillOpacity={item.lagHours === lag ? 1 : 0.5}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+              <p className="text-xs mt-1" style={{ color: theme.text.muted }}>
+                {m.correlation.lagAxis}
+                {strongest?.pearson != null &&
+                  ` · ${m.correlation.strongestLag(strongest.lagHours, formatCoefficient(strongest.pearson))}`}
+              </p>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+import { useMessages } from '../../i18n/useI18n';
+import { toneStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { DashboardProvenance } from '../../types';
+
+interface DemoDataBannerProps {
+  provenance: Partial<DashboardProvenance>;
+  mockMode: boolean;
+}
+
+export const DemoDataBanner: React.FC<DemoDataBannerProps> = ({ provenance, mockMode }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const mocked = (Object.keys(provenance) as Array<keyof DashboardProvenance>).filter(
+    key => provenance[key]?.source === 'mock'
+  );
+
+  if (mocked.length === 0) return null;
+
+  return (
+    <div
+      className="border p-4 mb-6 rounded-lg"
+      style={{ ...toneStyle(theme, 'warning'), borderStyle: 'solid', borderWidth: 1 }}
+      role="status"
+    >
+      <div className="flex items-start">
+        <FlaskConical className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+        <div>
+          <h4 className="font-semibold">{m.demoData.title}</h4>
+          <p className="text-sm mt-1">{mockMode ? m.demoData.mockMode : m.demoData.fallback}</p>
+          {!mockMode && (
+            <ul className="text-sm mt-1 list-disc list-inside">
+              {mocked.map(key => (
+                <li key={key}>
+                  {m.demoData.sections[key]}
+                  {provenance[key]?.error && (
+                    <span style={{ color: theme.tones.warning.accent }}> – {provenance[key]?.error}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
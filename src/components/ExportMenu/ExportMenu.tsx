@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { useMessages } from '../../i18n/useI18n';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_SCOPE_LABELS,
+  ExportFormat,
+  ExportScope,
+} from '../../services/export';
+import { inputStyle, popoverStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+
+interface ExportMenuProps {
+  onExport: (scope: ExportScope, format: ExportFormat) => Promise<void>;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<ExportScope>('view');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onExport(scope, format);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center px-4 py-2 rounded-lg"
+        style={inputStyle(theme)}
+      >
+        <Download size={16} className="mr-2" />
+        {m.export.button}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 rounded-lg p-4 z-10" style={popoverStyle(theme)}>
+          <fieldset className="mb-3">
+            <legend className="text-xs font-medium mb-1" style={{ color: theme.text.muted }}>{m.export.scope}</legend>
+            {(Object.keys(EXPORT_SCOPE_LABELS) as ExportScope[]).map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm" style={{ color: theme.text.secondary }}>
+                <input
+                  type="radio"
+                  name="export-scope"
+                  value={option}
+                  checked={scope === option}
+                  onChange={() => setScope(option)}
+                />
+                {EXPORT_SCOPE_LABELS[option]}
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="flex flex-col gap-2">
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                type="button"
+                disabled={busy}
+                onClick={() => handleExport(format)}
+                className="px-3 py-1.5 text-sm text-left rounded disabled:opacity-50"
+                style={{ background: 'transparent', color: 'inherit', border: `1px solid ${theme.border.default}` }}
+              >
+                {EXPORT_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+
+          {busy && <p className="text-xs mt-2" style={{ color: theme.text.muted }}>{m.export.busy}</p>}
+          {error && <p className="text-xs mt-2" style={{ color: theme.tones.danger.accent }}>{m.export.failed(error)}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALE_NAMES, Locale, setLocale } from '../../i18n';
+import { useLocale, useMessages } from '../../i18n/useI18n';
+import { inputStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+
+export const LanguageSwitcher: React.FC = () => {
+  const locale = useLocale();
+  const m = useMessages();
+  const { theme } = useTheme();
+
+  return (
+    <label className="flex items-center px-3 py-2 rounded-lg" style={inputStyle(theme)}>
+      <Languages size={16} className="mr-2" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent focus:outline-none"
+        style={{ color: 'inherit' }}
+        aria-label={m.common.language}
+      >
+        {(Object.keys(LOCALE_NAMES) as Locale[]).map(option => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -1,94 +1,136 @@
 import React from 'react';
+import { Line, LineChart, ResponsiveContainer, YAxis } from 'recharts';
 import { LucideIcon } from 'lucide-react';
-import { theme } from '../../theme/theme';
+import { formatDecimal } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { Trend } from '../../services/trends';
+import { Tone } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { Provenance } from '../../types';
+import { ProvenanceBadge } from '../ProvenanceBadge/ProvenanceBadge';
 
 interface MetricCardProps {
   icon: LucideIcon;
   label: string;
   value: number | string;
   unit: string;
-  trend?: number;
+  trend?: Trend | null;
+  /** Tooltip of the trend: what it is compared against */
+  trendDescription?: string;
+  /** Recent values, oldest first; null leaves a gap */
+  sparkline?: Array<number | null>;
   color?: 'blue' | 'green' | 'orange' | 'red';
+  provenance?: Provenance;
 }
 
-export const MetricCard: React.FC<MetricCardProps> = ({ 
-  icon: Icon, 
-  label, 
-  value, 
-  unit, 
-  trend, 
-  color = 'blue' 
-}) => {
-  const getColorScheme = (color: string) => {
-    const schemes = {
-      blue: {
-        bg: theme.colors.primary[50],
-        border: theme.colors.primary[100],
-        text: theme.colors.primary[600],
-        iconBg: theme.colors.primary[100],
-      },
-      green: {
-        bg: theme.colors.success[50],
-        border: `${theme.colors.success[500]}30`,
-        text: theme.colors.success[500],
-        iconBg: `${theme.colors.success[500]}20`,
-      },
-      orange: {
-        bg: theme.colors.warning[50],
-        border: `${theme.colors.warning[500]}30`,
-        text: theme.colors.warning[500],
-        iconBg: `${theme.colors.warning[500]}20`,
-      },
-      red: {
-        bg: theme.colors.danger[50],
-        border: `${theme.colors.danger[500]}30`,
-        text: theme.colors.danger[500],
-        iconBg: `${theme.colors.danger[500]}20`,
-      },
-    };
-    return schemes[color as keyof typeof schemes];
-  };
+const METRIC_TONES: Record<NonNullable<MetricCardProps['color']>, Tone> = {
+  blue: 'info',
+  green: 'success',
+  orange: 'warning',
+  red: 'danger',
+};
+
+const TREND_ARROWS: Record<Trend['direction'], string> = {
+  up: '↑',
+  down: '↓',
+  flat: '→',
+};
 
-  const colorScheme = getColorScheme(color);
+const formatChange = (change: number): string => formatDecimal(Math.abs(change), Math.abs(change) < 10 ? 1 : 0);
+
+export const MetricCard: React.FC<MetricCardProps> = ({
+  icon: Icon,
+  label,
+  value,
+  unit,
+  trend,
+  trendDescription,
+  sparkline,
+  color = 'blue',
+  provenance,
+}) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const tone = theme.tones[METRIC_TONES[color]];
+  const trendColor = trend
+    ? {
+        positive: theme.tones.success.accent,
+        negative: theme.tones.danger.accent,
+        neutral: theme.text.muted,
+      }[trend.sentiment]
+    : theme.text.muted;
 
   return (
     <div
       className="relative overflow-hidden transition-all duration-300 hover:transform hover:scale-102"
       style={{
-        background: colorScheme.bg,
+        background: tone.background,
         borderRadius: theme.radii.lg,
         boxShadow: theme.shadows.md,
-        border: `1px solid ${colorScheme.border}`,
+        border: `1px solid ${tone.border}`,
       }}
     >
       <div className="p-6">
         <div className="flex items-center justify-between mb-4">
           <div
             className="p-3 rounded-lg"
-            style={{ background: colorScheme.iconBg }}
+            style={{ background: theme.surface.card }}
           >
-            <Icon size={24} color={colorScheme.text} />
+            <Icon size={24} color={tone.accent} />
           </div>
-          {trend && (
-            <div className={`flex items-center text-sm font-medium ${
-              trend > 0 ? 'text-red-500' : 'text-green-500'
-            }`}>
-              <span className="mr-1">{trend > 0 ? '↑' : '↓'}</span>
-              {Math.abs(trend)}%
+          {trend !== undefined && (
+            <div
+              className="flex items-center text-sm font-medium"
+              style={{ color: trendColor, cursor: 'help' }}
+              title={trendDescription}
+              data-testid="metric-trend"
+            >
+              {trend ? (
+                <>
+                  <span className="mr-1">{TREND_ARROWS[trend.direction]}</span>
+                  {trend.direction === 'flat' ? '0' : formatChange(trend.change)}
+                  {unit}
+                </>
+              ) : (
+                '–'
+              )}
             </div>
           )}
         </div>
-        <h3 className="text-gray-600 text-sm font-medium mb-1">{label}</h3>
+        <h3
+          className="text-sm font-medium mb-1 flex items-center justify-between"
+          style={{ color: theme.text.secondary }}
+        >
+          {label}
+          <ProvenanceBadge provenance={provenance} />
+        </h3>
         <div className="flex items-baseline">
-          <span className="text-2xl font-bold" style={{ color: colorScheme.text }}>
+          <span className="text-2xl font-bold" style={{ color: tone.text }}>
             {value}
           </span>
-          <span className="ml-1 text-gray-600">{unit}</span>
+          <span className="ml-1" style={{ color: theme.text.secondary }}>{unit}</span>
         </div>
+        {sparkline && sparkline.length > 1 && (
+          <div className="mt-2" role="img" aria-label={m.trends.sparkline(label)}>
+            <ResponsiveContainer width="100%" height={32}>
+              <LineChart data={sparkline.map(point => ({ value: point }))}>
+                <YAxis hide domain={['dataMin', 'dataMax']} />
+                <Line
+                  type="monotone"
+                  dataKey="value"
+                  stroke={tone.accent}
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
       </div>
       <div
         className="absolute bottom-0 left-0 right-0 h-1"
-        style={{ background: colorScheme.text }}
+        style={{ background: tone.accent }}
       />
     </div>
   );
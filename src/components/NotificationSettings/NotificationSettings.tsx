@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { BellRing } from 'lucide-react';
+import { useMessages } from '../../i18n/useI18n';
+import { ALERT_SEVERITY_LABELS, AlertSeverity } from '../../services/alerts';
+import {
+  NotificationPreferences,
+  REPEAT_OPTIONS,
+  notificationsSupported,
+} from '../../services/notifications';
+import { cardStyle, inputStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { Station } from '../../types';
+
+interface NotificationSettingsProps {
+  preferences: NotificationPreferences;
+  stations: Station[];
+  onChange: (preferences: NotificationPreferences) => void;
+}
+
+const inputClass = 'px-2 py-1 rounded text-sm';
+
+export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ preferences, stations, onChange }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const input = inputStyle(theme);
+  const supported = notificationsSupported();
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    supported ? Notification.permission : null
+  );
+
+  const update = (changes: Partial<NotificationPreferences>) => onChange({ ...preferences, ...changes });
+
+  const handleToggle = async () => {
+    if (preferences.enabled) {
+      update({ enabled: false });
+      return;
+    }
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') update({ enabled: true });
+  };
+
+  const toggleStation = (id: number) => {
+    const selected = preferences.stationIds ?? stations.map(station => station.id);
+    const next = selected.includes(id) ? selected.filter(stationId => stationId !== id) : [...selected, id];
+    update({ stationIds: next.length === stations.length ? null : next });
+  };
+
+  return (
+    <div className="rounded-xl p-6" style={cardStyle(theme)}>
+      <h3 className="text-xl font-bold mb-4 flex items-center">
+        <BellRing className="mr-2" color={theme.tones.info.accent} />
+        {m.notifications.title}
+      </h3>
+
+      {!supported ? (
+        <p className="text-sm" style={{ color: theme.text.muted }}>{m.notifications.unsupported}</p>
+      ) : (
+        <div className="space-y-3 text-sm" style={{ color: theme.text.secondary }}>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={preferences.enabled} onChange={handleToggle} />
+            {m.notifications.enable}
+          </label>
+          {permission === 'denied' && (
+            <p className="text-xs" style={{ color: theme.tones.danger.accent }}>{m.notifications.blocked}</p>
+          )}
+
+          <fieldset disabled={!preferences.enabled} className={`space-y-3 ${preferences.enabled ? '' : 'opacity-50'}`}>
+            <label className="flex items-center gap-2">
+              {m.notifications.minSeverity}
+              <select
+                value={preferences.minSeverity}
+                onChange={(e) => update({ minSeverity: e.target.value as AlertSeverity })}
+                className={inputClass}
+                style={input}
+              >
+                {(Object.keys(ALERT_SEVERITY_LABELS) as AlertSeverity[]).map(severity => (
+                  <option key={severity} value={severity}>
+                    {ALERT_SEVERITY_LABELS[severity]}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <div>
+              <div className="mb-1">{m.notifications.stations}</div>
+              <div className="grid grid-cols-2 gap-1 max-h-32 overflow-y-auto">
+                {stations.map(station => (
+                  <label key={station.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!preferences.stationIds || preferences.stationIds.includes(station.id)}
+                      onChange={() => toggleStation(station.id)}
+                    />
+                    {station.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preferences.quietHours.enabled}
+                  onChange={(e) => update({ quietHours: { ...preferences.quietHours, enabled: e.target.checked } })}
+                />
+                {m.notifications.quietHours}
+              </label>
+              <input
+                type="time"
+                value={preferences.quietHours.start}
+                onChange={(e) => update({ quietHours: { ...preferences.quietHours, start: e.target.value } })}
+                className={inputClass}
+                style={input}
+                aria-label={m.notifications.quietStart}
+              />
+              –
+              <input
+                type="time"
+                value={preferences.quietHours.end}
+                onChange={(e) => update({ quietHours: { ...preferences.quietHours, end: e.target.value } })}
+                className={inputClass}
+                style={input}
+                aria-label={m.notifications.quietEnd}
+              />
+            </div>
+
+            <label className="flex items-center gap-2">
+              {m.notifications.repeat}
+              <select
+                value={preferences.repeatMinutes}
+                onChange={(e) => update({ repeatMinutes: Number(e.target.value) })}
+                className={inputClass}
+                style={input}
+              >
+                {Object.entries(REPEAT_OPTIONS).map(([minutes, label]) => (
+                  <option key={minutes} value={minutes}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </fieldset>
+        </div>
+      )}
+    </div>
+  );
+};
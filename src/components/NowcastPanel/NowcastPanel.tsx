@@ -0,0 +1,137 @@
+import React from 'react';
+import { BrainCircuit } from 'lucide-react';
+import { AQISchemeId, formatAQI, getAQILevel } from '../../services/aqi';
+import { HOLDOUT_DAYS, NOWCAST_HORIZONS, Nowcast, TRAINING_DAYS } from '../../services/nowcast';
+import { formatDecimal, formatNumber } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { cardStyle, textOnColor, toneStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { Station } from '../../types';
+
+interface NowcastPanelProps {
+  stations: Station[];
+  /** Per station id; null when its history is too short to fit */
+  nowcasts: Record<number, Nowcast | null>;
+  /** Station whose backtest is shown; the first one with a model otherwise */
+  selectedStation: number | null;
+  schemeId: AQISchemeId;
+  loading?: boolean;
+}
+
+export const NowcastPanel: React.FC<NowcastPanelProps> = ({
+  stations,
+  nowcasts,
+  selectedStation,
+  schemeId,
+  loading = false,
+}) => {
+  const m = useMessages();
+  const { theme, aqiColor } = useTheme();
+  const modelled = stations.filter(station => nowcasts[station.id]);
+  const focus = modelled.find(station => station.id === selectedStation) ?? modelled[0];
+  const backtest = focus ? nowcasts[focus.id]?.backtest ?? [] : [];
+
+  return (
+    <div className="rounded-xl p-6" style={cardStyle(theme)} data-testid="nowcast-panel">
+      <h3 className="text-xl font-bold mb-1 flex items-center justify-between">
+        <span className="flex items-center">
+          <BrainCircuit className="mr-2" color={theme.tones.accent.accent} />
+          {m.nowcast.title}
+        </span>
+        <span
+          className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full"
+          style={{ ...toneStyle(theme, 'accent'), borderStyle: 'solid', borderWidth: 1 }}
+        >
+          {m.nowcast.modelOutput}
+        </span>
+      </h3>
+      <p className="text-sm mb-4" style={{ color: theme.text.muted }}>
+        {m.nowcast.description(TRAINING_DAYS)}
+      </p>
+
+      {modelled.length === 0 ? (
+        <p className="text-sm" style={{ color: theme.text.muted }}>
+          {loading ? m.nowcast.training : m.nowcast.insufficientHistory}
+        </p>
+      ) : (
+        <>
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-left" style={{ color: theme.text.muted }}>
+                <th className="py-2 font-medium">{m.nowcast.station}</th>
+                {NOWCAST_HORIZONS.map(horizon => (
+                  <th key={horizon} className="py-2 font-medium text-right">
+                    {m.nowcast.horizon(horizon)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {modelled.map(station => (
+                <tr key={station.id} style={{ borderTop: `1px solid ${theme.border.subtle}` }}>
+                  <td className="py-2">{station.name}</td>
+                  {NOWCAST_HORIZONS.map(horizon => {
+                    const prediction = nowcasts[station.id]?.predictions.find(item => item.horizon === horizon);
+                    if (!prediction) {
+                      return <td key={horizon} className="py-2 text-right">–</td>;
+                    }
+                    const color = aqiColor(getAQILevel(prediction.aqi, schemeId));
+                    return (
+                      <td key={horizon} className="py-2 text-right">
+                        <span
+                          className="inline-block px-2 rounded font-medium"
+                          style={{ background: color, color: textOnColor(color) }}
+                          title={m.nowcast.modelOutput}
+                        >
+                          {formatAQI(prediction.aqi, schemeId)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {focus && backtest.length > 0 && (
+            <>
+              <h4 className="font-semibold mb-2">{m.nowcast.backtest(HOLDOUT_DAYS, focus.name)}</h4>
+              <table className="w-full text-sm mb-2">
+                <thead>
+                  <tr className="text-left" style={{ color: theme.text.muted }}>
+                    <th className="py-2 font-medium">{m.nowcast.horizonColumn}</th>
+                    <th className="py-2 font-medium text-right">{m.nowcast.mae}</th>
+                    <th className="py-2 font-medium text-right">{m.nowcast.rmse}</th>
+                    <th className="py-2 font-medium text-right">{m.nowcast.persistenceMae}</th>
+                    <th className="py-2 font-medium text-right">{m.nowcast.samples}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {backtest.map(score => (
+                    <tr key={score.horizon} style={{ borderTop: `1px solid ${theme.border.subtle}` }}>
+                      <td className="py-2">{m.nowcast.horizon(score.horizon)}</td>
+                      <td
+                        className="py-2 text-right font-medium"
+                        style={{
+                          color: score.mae < score.persistenceMae ? theme.tones.success.text : theme.tones.danger.text,
+                        }}
+                      >
+                        {formatDecimal(score.mae, 1)}
+                      </td>
+                      <td className="py-2 text-right">{formatDecimal(score.rmse, 1)}</td>
+                      <td className="py-2 text-right">{formatDecimal(score.persistenceMae, 1)}</td>
+                      <td className="py-2 text-right">{formatNumber(score.samples)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs" style={{ color: theme.text.muted }}>
+                {m.nowcast.persistenceHint}
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
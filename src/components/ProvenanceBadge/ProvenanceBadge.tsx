@@ -0,0 +1,40 @@
+import React from 'react';
+import { formatDate, messages } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { Tone, toneStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { DataSource, Provenance } from '../../types';
+
+interface ProvenanceBadgeProps {
+  provenance?: Provenance;
+}
+
+const BADGE_TONES: Record<DataSource, Tone> = {
+  live: 'success',
+  cache: 'info',
+  mock: 'warning',
+};
+
+export const describeProvenance = (provenance: Provenance): string => {
+  const { fetched, reason } = messages().provenance;
+  const text = fetched(formatDate(provenance.fetchedAt, 'dateTimeSeconds'));
+  return provenance.error ? `${text}\n${reason(provenance.error)}` : text;
+};
+
+export const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ provenance }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  if (!provenance) return null;
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full border"
+      style={{ ...toneStyle(theme, BADGE_TONES[provenance.source]), borderStyle: 'solid', borderWidth: 1 }}
+      title={describeProvenance(provenance)}
+      data-testid={`provenance-${provenance.source}`}
+    >
+      {m.provenance.sources[provenance.source]}
+      {provenance.source === 'live' && provenance.error && m.provenance.partial}
+    </span>
+  );
+};
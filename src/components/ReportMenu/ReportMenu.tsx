@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { FileText } from 'lucide-react';
+import { useMessages } from '../../i18n/useI18n';
+import { REPORT_FORMAT_LABELS, ReportFormat } from '../../services/report';
+import { inputStyle, popoverStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+
+interface ReportMenuProps {
+  onGenerate: (format: ReportFormat) => Promise<void>;
+}
+
+export const ReportMenu: React.FC<ReportMenuProps> = ({ onGenerate }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = async (format: ReportFormat) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onGenerate(format);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center px-4 py-2 rounded-lg"
+        style={inputStyle(theme)}
+      >
+        <FileText size={16} className="mr-2" />
+        {m.report.button}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 rounded-lg p-4 z-10" style={popoverStyle(theme)}>
+          <p className="text-xs font-medium mb-2" style={{ color: theme.text.muted }}>{m.report.description}</p>
+          <div className="flex flex-col gap-2">
+            {(Object.keys(REPORT_FORMAT_LABELS) as ReportFormat[]).map(format => (
+              <button
+                key={format}
+                type="button"
+                disabled={busy}
+                onClick={() => handleGenerate(format)}
+                className="px-3 py-1.5 text-sm text-left rounded disabled:opacity-50"
+                style={{ background: 'transparent', color: 'inherit', border: `1px solid ${theme.border.default}` }}
+              >
+                {REPORT_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+
+          {busy && <p className="text-xs mt-2" style={{ color: theme.text.muted }}>{m.report.busy}</p>}
+          {error && <p className="text-xs mt-2" style={{ color: theme.tones.danger.accent }}>{m.report.failed(error)}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import { MapPin, X } from 'lucide-react';
+import {
+  AQIResult,
+  AQISchemeId,
+  POLLUTANTS,
+  POLLUTANT_LABELS,
+  formatAQI,
+  getAQILevel,
+  getAQIScheme,
+} from '../../services/aqi';
+import { DEFAULT_UNIT_SYSTEM, UnitSystem, formatConcentration } from '../../services/units';
+import { formatDate, formatDecimal, formatNumber } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { cardStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { AirQualityData, Provenance, Station } from '../../types';
+import { CompletenessBadge } from '../CompletenessBadge/CompletenessBadge';
+import { ProvenanceBadge } from '../ProvenanceBadge/ProvenanceBadge';
+
+interface StationDetailProps {
+  station: Station;
+  reading?: AirQualityData & { aqiResult: AQIResult };
+  schemeId: AQISchemeId;
+  provenance?: Provenance;
+  /** Share of the selected period the station history covers, 0–1 */
+  historyCompleteness?: number;
+  unitSystem?: UnitSystem;
+  onClose: () => void;
+}
+
+export const StationDetail: React.FC<StationDetailProps> = ({
+  station,
+  reading,
+  schemeId,
+  provenance,
+  historyCompleteness,
+  unitSystem = DEFAULT_UNIT_SYSTEM,
+  onClose,
+}) => {
+  const m = useMessages();
+  const { theme, aqiColor } = useTheme();
+  const scheme = getAQIScheme(schemeId);
+
+  return (
+    <div className="rounded-xl p-6" style={cardStyle(theme)}>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            {station.name}
+            <ProvenanceBadge provenance={provenance} />
+            {reading && <CompletenessBadge quality={reading.quality} />}
+          </h3>
+          <p className="text-sm flex items-center mt-1" style={{ color: theme.text.muted }}>
+            <MapPin size={14} className="mr-1" />
+            {[station.city, station.county].filter(Boolean).join(', ')} ·{' '}
+            {formatDecimal(station.lat, 4)}°N, {formatDecimal(station.lon, 4)}°E
+          </p>
+          {reading && (
+            <p className="text-xs mt-1" style={{ color: theme.text.muted }}>
+              {m.station.measured(formatDate(reading.timestamp, 'dateTimeSeconds'))}
+            </p>
+          )}
+          {historyCompleteness !== undefined && (
+            <p className="text-xs mt-1" style={{ color: theme.text.muted }} title={m.quality.historyHint}>
+              {m.quality.history(formatNumber(historyCompleteness, { style: 'percent', maximumFractionDigits: 0 }))}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex items-center text-sm"
+          style={{ color: theme.text.link }}
+        >
+          <X size={16} className="mr-1" />
+          {m.common.allStations}
+        </button>
+      </div>
+
+      {reading ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left" style={{ color: theme.text.muted }}>
+              <th className="py-2 font-medium">{m.station.pollutant}</th>
+              <th className="py-2 font-medium text-right">{m.station.concentration}</th>
+              <th className="py-2 font-medium w-1/2 pl-4">{m.station.subIndex(scheme.name)}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {POLLUTANTS.map(pollutant => {
+              const subIndex = reading.aqiResult.subIndices[pollutant];
+              const level = subIndex !== undefined ? getAQILevel(subIndex, schemeId) : null;
+              const isDominant = reading.aqiResult.dominantPollutant === pollutant;
+              const value = reading.measurements[pollutant];
+
+              return (
+                <tr key={pollutant} style={{ borderTop: `1px solid ${theme.border.subtle}` }}>
+                  <td
+                    className={`py-2 ${isDominant ? 'font-bold' : ''}`}
+                    style={{ color: isDominant ? theme.text.primary : theme.text.secondary }}
+                  >
+                    {POLLUTANT_LABELS[pollutant]}
+                  </td>
+                  <td className="py-2 text-right" style={{ color: theme.text.secondary }}>
+                    {value !== null
+                      ? formatConcentration(pollutant, value, unitSystem)
+                      : `– (${m.quality.flags[reading.quality[pollutant]]})`}
+                  </td>
+                  <td className="py-2 pl-4">
+                    {level && subIndex !== undefined ? (
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 rounded" style={{ background: theme.chart.track }}>
+                          <div
+                            className="h-2 rounded"
+                            style={{
+                              width: `${Math.min(100, (subIndex / scheme.maxIndex) * 100)}%`,
+                              background: aqiColor(level),
+                            }}
+                          />
+                        </div>
+                        <span className="w-10 text-right" style={{ color: theme.text.secondary }}>
+                          {formatAQI(subIndex, schemeId)}
+                        </span>
+                      </div>
+                    ) : (
+                      <span style={{ color: theme.text.muted }}>{m.station.notIndexed}</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : (
+        <p style={{ color: theme.text.muted }}>{m.station.noReading}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React from 'react';
+import { MapPin, X } from 'lucide-react';
+import { BUCHAREST_COORDS } from '../../services/apiService';
+import {
+  AQISchemeId,
+  POLLUTANTS,
+  POLLUTANT_LABELS,
+  formatAQI,
+  getAQILevel,
+} from '../../services/aqi';
+import { rejectedPollutants } from '../../services/quality';
+import { DEFAULT_UNIT_SYSTEM, UnitSystem, formatConcentration } from '../../services/units';
+import { formatDecimal } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { cardStyle, popoverStyle, textOnColor } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { AirQualityData, Provenance, Station } from '../../types';
+import { CompletenessBadge } from '../CompletenessBadge/CompletenessBadge';
+import { ProvenanceBadge } from '../ProvenanceBadge/ProvenanceBadge';
+
+interface StationMapProps {
+  stations: Station[];
+  airQuality: AirQualityData[];
+  schemeId: AQISchemeId;
+  provenance?: Provenance;
+  selectedStationId: number | null;
+  onSelectStation: (stationId: number | null) => void;
+  unitSystem?: UnitSystem;
+}
+
+const MAP_WIDTH = 600;
+// Keep the bounding box roughly to scale: a degree of longitude is shorter
+// than a degree of latitude at Bucharest's latitude.
+const MAP_HEIGHT = Math.round(
+  (MAP_WIDTH * (BUCHAREST_COORDS.north - BUCHAREST_COORDS.south)) /
+    ((BUCHAREST_COORDS.east - BUCHAREST_COORDS.west) *
+      Math.cos((BUCHAREST_COORDS.lat * Math.PI) / 180))
+);
+const GRID_STEP = 0.05;
+
+// Simplified course of the Dâmbovița river through the bounding box
+const DAMBOVITA: Array<[number, number]> = [
+  [44.4275, 26.0],
+  [44.4312, 26.035],
+  [44.4318, 26.06],
+  [44.4295, 26.085],
+  [44.4255, 26.1],
+  [44.4195, 26.12],
+  [44.4105, 26.15],
+  [44.4035, 26.18],
+  [44.3985, 26.2],
+];
+
+const project = (lat: number, lon: number): { x: number; y: number } => ({
+  x:
+    ((lon - BUCHAREST_COORDS.west) / (BUCHAREST_COORDS.east - BUCHAREST_COORDS.west)) *
+    MAP_WIDTH,
+  y:
+    ((BUCHAREST_COORDS.north - lat) / (BUCHAREST_COORDS.north - BUCHAREST_COORDS.south)) *
+    MAP_HEIGHT,
+});
+
+const gridLines = (from: number, to: number): number[] => {
+  const lines: number[] = [];
+  for (let value = Math.ceil(from / GRID_STEP) * GRID_STEP; value < to; value += GRID_STEP) {
+    lines.push(Number(value.toFixed(2)));
+  }
+  return lines;
+};
+
+const isInsideMap = (station: Station): boolean =>
+  station.lat >= BUCHAREST_COORDS.south &&
+  station.lat <= BUCHAREST_COORDS.north &&
+  station.lon >= BUCHAREST_COORDS.west &&
+  station.lon <= BUCHAREST_COORDS.east;
+
+export const StationMap: React.FC<StationMapProps> = ({
+  stations,
+  airQuality,
+  schemeId,
+  provenance,
+  selectedStationId,
+  onSelectStation,
+  unitSystem = DEFAULT_UNIT_SYSTEM,
+}) => {
+  const m = useMessages();
+  const { theme, aqiColor } = useTheme();
+  const readingFor = (stationId: number) =>
+    airQuality.find(reading => reading.stationId === stationId);
+
+  const selectedStation = stations.find(station => station.id === selectedStationId);
+  const selectedReading = selectedStation ? readingFor(selectedStation.id) : undefined;
+  const center = project(BUCHAREST_COORDS.lat, BUCHAREST_COORDS.lon);
+  const river = DAMBOVITA.map(([lat, lon]) => {
+    const { x, y } = project(lat, lon);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <div className="rounded-xl p-6" style={cardStyle(theme)}>
+      <h3 className="text-xl font-bold mb-4 flex items-center">
+        <MapPin className="mr-2" color={theme.tones.info.accent} />
+        {m.station.map}
+        <span className="ml-auto">
+          <ProvenanceBadge provenance={provenance} />
+        </span>
+      </h3>
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+          className="w-full h-auto rounded-lg"
+          role="img"
+          aria-label={m.station.mapLabel}
+        >
+          <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill={theme.map.land} stroke={theme.map.border} />
+
+          {gridLines(BUCHAREST_COORDS.west, BUCHAREST_COORDS.east).map(lon => {
+            const { x } = project(BUCHAREST_COORDS.north, lon);
+            return (
+              <g key={`lon-${lon}`}>
+                <line x1={x} y1={0} x2={x} y2={MAP_HEIGHT} stroke={theme.map.grid} />
+                <text x={x + 4} y={MAP_HEIGHT - 6} fontSize={10} fill={theme.map.label}>
+                  {formatDecimal(lon, 2)}°E
+                </text>
+              </g>
+            );
+          })}
+          {gridLines(BUCHAREST_COORDS.south, BUCHAREST_COORDS.north).map(lat => {
+            const { y } = project(lat, BUCHAREST_COORDS.west);
+            return (
+              <g key={`lat-${lat}`}>
+                <line x1={0} y1={y} x2={MAP_WIDTH} y2={y} stroke={theme.map.grid} />
+                <text x={4} y={y - 4} fontSize={10} fill={theme.map.label}>
+                  {formatDecimal(lat, 2)}°N
+                </text>
+              </g>
+            );
+          })}
+
+          <polyline points={river} fill="none" stroke={theme.map.water} strokeWidth={4} strokeLinecap="round" />
+          <circle cx={center.x} cy={center.y} r={4} fill={theme.map.marker} />
+          <text x={center.x + 8} y={center.y + 4} fontSize={11} fill={theme.map.marker}>
+            {m.station.center}
+          </text>
+
+          {stations.filter(isInsideMap).map(station => {
+            const { x, y } = project(station.lat, station.lon);
+            const reading = readingFor(station.id);
+            const level = reading && reading.aqi !== null ? getAQILevel(reading.aqi, schemeId) : null;
+            const fill = level ? aqiColor(level) : theme.map.noData;
+            const isSelected = station.id === selectedStationId;
+            const completeness = reading
+              ? m.quality.completeness(POLLUTANTS.length - rejectedPollutants(reading.quality).length, POLLUTANTS.length)
+              : null;
+
+            return (
+              <g
+                key={station.id}
+                transform={`translate(${x}, ${y})`}
+                onClick={() => onSelectStation(isSelected ? null : station.id)}
+                style={{ cursor: 'pointer' }}
+                role="button"
+                aria-label={station.name}
+              >
+                <title>
+                  {station.name}
+                  {reading && level ? ` – ${formatAQI(reading.aqi, schemeId)} (${level.label})` : ''}
+                  {completeness ? ` · ${completeness}` : ''}
+                </title>
+                <circle
+                  r={isSelected ? 18 : 14}
+                  fill={fill}
+                  stroke={isSelected ? theme.map.selected : theme.surface.card}
+                  strokeWidth={isSelected ? 3 : 2}
+                  fillOpacity={0.9}
+                />
+                <text textAnchor="middle" dy={4} fontSize={10} fontWeight="bold" fill={textOnColor(fill)}>
+                  {reading ? formatAQI(reading.aqi, schemeId) : '–'}
+                </text>
+                <text textAnchor="middle" y={isSelected ? 32 : 28} fontSize={11} fill={theme.text.secondary}>
+                  {station.name}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+
+        {selectedStation && (
+          <div className="absolute top-3 right-3 w-64 rounded-lg p-4 text-sm" style={popoverStyle(theme)}>
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <div className="font-semibold">{selectedStation.name}</div>
+                <div className="text-xs" style={{ color: theme.text.muted }}>
+                  {formatDecimal(selectedStation.lat, 4)}°N, {formatDecimal(selectedStation.lon, 4)}°E
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onSelectStation(null)}
+                style={{ color: theme.text.muted }}
+                aria-label={m.common.close}
+              >
+                <X size={16} />
+              </button>
+            </div>
+            {selectedReading ? (
+              <>
+                {selectedReading.aqi !== null ? (
+                  <div
+                    className="font-bold mb-2"
+                    style={{ color: aqiColor(getAQILevel(selectedReading.aqi, schemeId)) }}
+                  >
+                    AQI {formatAQI(selectedReading.aqi, schemeId)} –{' '}
+                    {getAQILevel(selectedReading.aqi, schemeId).label}
+                  </div>
+                ) : (
+                  <div className="font-bold mb-2" style={{ color: theme.text.muted }}>
+                    {m.quality.noValidData}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-1" style={{ color: theme.text.secondary }}>
+                  {POLLUTANTS.map(pollutant => {
+                    const value = selectedReading.measurements[pollutant];
+                    return (
+                      <div key={pollutant} title={m.quality.flags[selectedReading.quality[pollutant]]}>
+                        {POLLUTANT_LABELS[pollutant]}:{' '}
+                        {formatConcentration(pollutant, value, unitSystem)}
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="mt-2">
+                  <CompletenessBadge quality={selectedReading.quality} />
+                </div>
+              </>
+            ) : (
+              <div style={{ color: theme.text.muted }}>{m.station.noCurrentReading}</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
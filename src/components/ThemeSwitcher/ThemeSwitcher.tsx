@@ -0,0 +1,54 @@
+import React from 'react';
+import { Contrast, Monitor, Moon, Sun } from 'lucide-react';
+import { useMessages } from '../../i18n/useI18n';
+import { inputStyle, AQIPalette, ThemePreference } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+
+const PREFERENCE_ICONS = {
+  system: Monitor,
+  light: Sun,
+  dark: Moon,
+};
+
+export const ThemeSwitcher: React.FC = () => {
+  const m = useMessages();
+  const { theme, preference, setPreference, aqiPalette, setAqiPalette } = useTheme();
+  const Icon = PREFERENCE_ICONS[preference];
+
+  return (
+    <>
+      <label className="flex items-center px-3 py-2 rounded-lg" style={inputStyle(theme)}>
+        <Icon size={16} className="mr-2" />
+        <select
+          value={preference}
+          onChange={(e) => setPreference(e.target.value as ThemePreference)}
+          className="bg-transparent focus:outline-none"
+          style={{ color: 'inherit' }}
+          aria-label={m.theme.theme}
+        >
+          {(Object.keys(m.theme.preferences) as ThemePreference[]).map(option => (
+            <option key={option} value={option}>
+              {m.theme.preferences[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center px-3 py-2 rounded-lg" style={inputStyle(theme)}>
+        <Contrast size={16} className="mr-2" />
+        <select
+          value={aqiPalette}
+          onChange={(e) => setAqiPalette(e.target.value as AQIPalette)}
+          className="bg-transparent focus:outline-none"
+          style={{ color: 'inherit' }}
+          aria-label={m.theme.aqiPalette}
+        >
+          {(Object.keys(m.theme.palettes) as AQIPalette[]).map(option => (
+            <option key={option} value={option}>
+              {m.theme.palettes[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Cloud, CloudRain, Gauge, Layers, LucideIcon, Navigation, Sun, Wind } from 'lucide-react';
+import { formatDecimal, formatNumber } from '../../i18n';
+import { useMessages } from '../../i18n/useI18n';
+import { cardStyle } from '../../theme/theme';
+import { useTheme } from '../../theme/ThemeProvider';
+import { Provenance, WeatherData } from '../../types';
+import { ProvenanceBadge } from '../ProvenanceBadge/ProvenanceBadge';
+
+interface WeatherConditionsProps {
+  weather: WeatherData | null;
+  provenance?: Provenance;
+}
+
+interface Condition {
+  icon: LucideIcon;
+  label: string;
+  value: string;
+  /** Rotation of the icon, for the wind direction arrow */
+  rotate?: number;
+}
+
+// Eight-point compass label of a meteorological wind direction (degrees the wind blows from)
+const compassPoint = (degrees: number, points: readonly string[]): string =>
+  points[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+
+const withUnit = (value: number | null, unit: string, digits = 0): string =>
+  value === null ? '–' : `${formatDecimal(value, digits)} ${unit}`;
+
+export const WeatherConditions: React.FC<WeatherConditionsProps> = ({ weather, provenance }) => {
+  const m = useMessages();
+  const { theme } = useTheme();
+
+  const conditions: Condition[] = [
+    {
+      icon: Navigation,
+      label: m.weather.windDirection,
+      value:
+        weather?.windDirection == null
+          ? '–'
+          : `${m.weather.windFrom(compassPoint(weather.windDirection, m.weather.compass))} (${formatNumber(
+              Math.round(weather.windDirection)
+            )}°)`,
+      // The arrow points where the wind blows to
+      rotate: weather?.windDirection == null ? undefined : weather.windDirection + 180,
+    },
+    { icon: Wind, label: m.weather.windGusts, value: withUnit(weather?.windGusts ?? null, 'km/h') },
+    { icon: CloudRain, label: m.weather.precipitation, value: withUnit(weather?.precipitation ?? null, 'mm', 1) },
+    { icon: Cloud, label: m.weather.cloudCover, value: withUnit(weather?.cloudCover ?? null, '%') },
+    {
+      icon: Layers,
+      label: m.weather.boundaryLayerHeight,
+      value: weather?.boundaryLayerHeight == null ? '–' : `${formatNumber(Math.round(weather.boundaryLayerHeight))} m`,
+    },
+    { icon: Gauge, label: m.weather.pressure, value: withUnit(weather?.pressure ?? null, 'hPa') },
+    { icon: Sun, label: m.weather.uvIndex, value: weather?.uvIndex == null ? '–' : formatDecimal(weather.uvIndex, 1) },
+  ];
+
+  return (
+    <div className="rounded-xl p-6" style={cardStyle(theme)}>
+      <h3 className="text-xl font-bold mb-1 flex items-center justify-between">
+        {m.weather.conditions}
+        <ProvenanceBadge provenance={provenance} />
+      </h3>
+      <p className="text-sm mb-4" style={{ color: theme.text.muted }}>
+        {m.weather.dispersionHint}
+      </p>
+      <dl className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+        {conditions.map(({ icon: Icon, label, value, rotate }) => (
+          <div key={label}>
+            <dt className="text-xs flex items-center gap-1" style={{ color: theme.text.muted }}>
+              <Icon
+                size={14}
+                style={rotate === undefined ? undefined : { transform: `rotate(${rotate}deg)` }}
+              />
+              {label}
+            </dt>
+            <dd className="font-semibold" style={{ color: theme.text.primary }}>
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,487 @@
+// src/i18n/en.ts
+import { Messages } from './ro';
+
+const en: Messages = {
+  dates: {
+    date: 'dd/MM/yyyy',
+    dateTime: 'dd/MM/yyyy HH:mm',
+    dateTimeSeconds: 'dd/MM/yyyy HH:mm:ss',
+    time: 'HH:mm:ss',
+    dayMonth: 'dd/MM',
+    dayMonthTime: 'dd/MM HH:mm',
+  },
+
+  common: {
+    allStations: 'All stations',
+    station: (id: number) => `Station ${id}`,
+    close: 'Close',
+    language: 'Language',
+  },
+
+  theme: {
+    theme: 'Theme',
+    preferences: { system: 'System', light: 'Light', dark: 'Dark' },
+    aqiPalette: 'AQI palette',
+    palettes: { standard: 'Standard', colorblind: 'Colorblind-safe' },
+  },
+
+  app: {
+    title: 'Bucharest Quality of Life Dashboard',
+    city: 'Bucharest',
+    location: 'Bucharest, Romania',
+    updated: (time: string) => `Updated: ${time}`,
+    lastUpdated: (time: string) => `Last updated: ${time}`,
+    loading: 'Loading data...',
+    loadError: (error: string) => `The data could not be loaded: ${error}`,
+    from: 'From',
+    to: 'To',
+    invalidRange: 'The start date must be before the end date.',
+    aqi: 'Air Quality Index',
+    stationAqi: (station: string) => `Air Quality Index – ${station}`,
+    averageAqi: 'Average Air Quality Index',
+    overallAqi: 'Overall Air Quality Index',
+    dominantPollutant: (pollutant: string) => `Dominant pollutant: ${pollutant}`,
+    worstStation: 'Most affected station',
+    temperature: 'Temperature',
+    humidity: 'Humidity',
+    visibility: 'Visibility',
+    stationsChart: 'Air Quality by Station',
+    weatherChart: (period: string) => `Weather Conditions (${period})`,
+    historyChart: (period: string) => `Historical Trends (${period})`,
+    temperatureSeries: 'Temperature',
+    humiditySeries: 'Humidity',
+    recommendations: 'Health Recommendations',
+    outdoorActivities: 'Outdoor Activities',
+    sensitiveGroups: 'Sensitive Groups',
+    ventilation: 'Home Ventilation',
+    ventilate: 'Air your home regularly to keep the air fresh.',
+    limitVentilation: 'Limit ventilation while the outdoor air quality is poor.',
+    reportTitle: (place: string) => `Air quality bulletin – ${place}`,
+    sources: 'Data provided by the Copernicus Climate Change Service and calitateaer.ro',
+  },
+
+  trends: {
+    sameHourYesterday: (current: string, baseline: string) =>
+      `Latest hourly value (${current}) against the same hour yesterday (${baseline})`,
+    previousPeriod: (current: string, baseline: string, period: string) =>
+      `Mean of the selected range (${current}) against the mean of the previous period, ${period} (${baseline})`,
+    allStations: 'Hourly mean of all stations',
+    noBaseline: 'No data to compare against',
+    sparkline: (label: string) => `Recent values: ${label}`,
+  },
+
+  weather: {
+    conditions: 'Dispersion conditions',
+    windDirection: 'Wind direction',
+    windFrom: (direction: string) => `from ${direction}`,
+    windGusts: 'Gusts',
+    precipitation: 'Precipitation',
+    cloudCover: 'Cloud cover',
+    boundaryLayerHeight: 'Boundary layer',
+    pressure: 'Pressure',
+    uvIndex: 'UV index',
+    compass: ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'],
+    dispersionChart: (period: string) => `Pollutant Dispersion (${period})`,
+    dispersionHint: 'A shallow boundary layer and light winds keep pollutants near the ground; precipitation washes them out.',
+    windSeries: 'Wind (km/h)',
+    gustsSeries: 'Gusts (km/h)',
+    precipitationSeries: 'Precipitation (mm)',
+    boundaryLayerSeries: 'Boundary layer (m)',
+  },
+
+  forecast: {
+    chart: (hours: number) => `Air Quality Forecast (next ${hours} h)`,
+    source: 'Copernicus CAMS model output for the whole city, not measurements',
+    observedFrom: (station: string) => `Observed AQI: ${station}`,
+    observed: 'Observed AQI',
+    forecast: 'Forecast AQI',
+    worstWindow: 'Worst window',
+    recommendationTitle: (hours: number) => `Next ${hours} hours`,
+    worsening: (level: string, period: string, pollutant: string) =>
+      `Air quality is forecast to reach "${level}" in the window ${period}, mainly because of ${pollutant}. Plan outdoor activities outside this window.`,
+    noWorsening: (level: string, period: string) =>
+      `No deterioration is forecast: the worst window (${period}) stays at "${level}".`,
+    unavailable: 'The air quality forecast is not available.',
+  },
+
+  nowcast: {
+    title: 'Local AQI Nowcast',
+    modelOutput: 'Model output',
+    description: (days: number) =>
+      `Ridge regression trained in the browser on the last ${days} days of each station's readings and the weather. The values are statistical estimates, not measurements.`,
+    station: 'Station',
+    horizon: (hours: number) => `+${hours} h`,
+    backtest: (days: number, station: string) => `Backtest on the last ${days} days, held out from training – ${station}`,
+    horizonColumn: 'Horizon',
+    mae: 'MAE',
+    rmse: 'RMSE',
+    persistenceMae: 'Persistence MAE',
+    samples: 'Samples',
+    persistenceHint: 'Persistence repeats the last measured value; the model adds something where its error is lower.',
+    insufficientHistory: 'There is not enough history to train the model.',
+    training: 'Training the model…',
+  },
+
+  correlation: {
+    title: 'Pollution–Weather Correlation',
+    description:
+      'How a pollutant relates to a weather variable, optionally with a lag. Low wind and high pressure explain winter smog episodes: the air stagnates and pollutants accumulate.',
+    station: 'Station',
+    period: 'Period',
+    pollutant: 'Pollutant',
+    variable: 'Weather variable',
+    lag: 'Lag',
+    lagOption: (hours: number) => (hours === 0 ? 'No lag' : `Weather ${hours} h earlier`),
+    pearson: 'Pearson r',
+    spearman: 'Spearman ρ',
+    pairs: 'Pairs',
+    trendLine: 'Trend line',
+    relation: (strength: string, sign: string) => `${strength}, ${sign} relation`,
+    strengths: { weak: 'Weak', moderate: 'Moderate', strong: 'Strong' },
+    signs: { positive: 'positive', negative: 'negative' },
+    lagChart: 'Pearson r by lag',
+    lagAxis: 'Lag (h)',
+    strongestLag: (hours: number, r: string) => `Strongest relation at a ${hours} h lag (r = ${r})`,
+    insufficient: 'Too few pairs of values to compute a correlation.',
+    loading: 'Loading data…',
+    variables: {
+      temperature: 'Temperature',
+      humidity: 'Humidity',
+      windSpeed: 'Wind speed',
+      pressure: 'Pressure',
+      windGusts: 'Gusts',
+      precipitation: 'Precipitation',
+      cloudCover: 'Cloud cover',
+      boundaryLayerHeight: 'Boundary layer',
+    },
+  },
+
+  quality: {
+    flags: {
+      valid: 'valid',
+      missing: 'missing',
+      negative: 'negative value',
+      implausible: 'implausible value',
+      stuck: 'stuck sensor',
+      spike: 'isolated spike',
+      stale: 'stale reading',
+    },
+    completeness: (valid: number, total: number) => `Data ${valid}/${total}`,
+    completenessTitle: 'Pollutants with valid values in the current reading',
+    rejected: (pollutant: string, flag: string) => `${pollutant}: ${flag}`,
+    allValid: 'Every value passed validation',
+    stations: 'Data completeness per station',
+    history: (percent: string) => `History coverage: ${percent}`,
+    historyHint: 'Intervals of the selected period with a valid AQI; gaps in the charts are missing or rejected data',
+    noValidData: 'No valid value',
+  },
+
+  units: {
+    label: 'Concentration units',
+    systems: {
+      mass: 'μg/m³ (mass)',
+      volume: 'ppb (volume)',
+    },
+  },
+
+  timeRange: {
+    presets: {
+      '24h': 'Last 24h',
+      '7d': 'Last week',
+      '30d': 'Last month',
+      custom: 'Custom range',
+    },
+    resolutions: {
+      hourly: 'hourly values',
+      daily: 'daily means',
+    },
+  },
+
+  aqi: {
+    schemes: {
+      epa: 'US EPA AQI',
+      eaqi: 'European Index (EAQI)',
+      ro: 'National index (calitateaer.ro)',
+    },
+    levels: {
+      epa: [
+        {
+          label: 'Good',
+          health: 'Ideal for all outdoor activities. The air quality is excellent.',
+          sensitiveGroups: 'No special measures are needed for sensitive people.',
+        },
+        {
+          label: 'Moderate',
+          health: 'Outdoor activities are acceptable for most people.',
+          sensitiveGroups: 'Unusually sensitive people should reduce prolonged outdoor exertion.',
+        },
+        {
+          label: 'Unhealthy for sensitive groups',
+          health: 'Limiting intense outdoor activities is advised, especially for sensitive groups.',
+          sensitiveGroups:
+            'Children, older adults and people with respiratory or cardiovascular conditions should reduce outdoor exertion.',
+        },
+        {
+          label: 'Unhealthy',
+          health: 'Everyone should reduce prolonged outdoor exertion.',
+          sensitiveGroups: 'Sensitive groups should avoid outdoor activities.',
+        },
+        {
+          label: 'Very unhealthy',
+          health: 'Avoid outdoor exertion. Stay indoors as much as possible.',
+          sensitiveGroups: 'Sensitive groups should stay indoors.',
+        },
+        {
+          label: 'Hazardous',
+          health: 'Health alert: everyone should avoid outdoor activities.',
+          sensitiveGroups: 'Sensitive groups must stay indoors with the windows closed.',
+        },
+      ],
+      eaqi: [
+        {
+          label: 'Good',
+          health: 'The air quality is good. Enjoy your usual outdoor activities.',
+          sensitiveGroups: 'Enjoy your usual outdoor activities.',
+        },
+        {
+          label: 'Fair',
+          health: 'Enjoy your usual outdoor activities.',
+          sensitiveGroups: 'Enjoy your usual outdoor activities.',
+        },
+        {
+          label: 'Moderate',
+          health: 'Enjoy your usual outdoor activities.',
+          sensitiveGroups: 'Consider reducing intense outdoor activities if you experience symptoms.',
+        },
+        {
+          label: 'Poor',
+          health:
+            'Consider reducing intense outdoor activities if you experience symptoms such as sore eyes, a cough or a sore throat.',
+          sensitiveGroups:
+            'Consider reducing physical activity, particularly outdoors, especially if you experience symptoms.',
+        },
+        {
+          label: 'Very poor',
+          health:
+            'Consider reducing intense outdoor activities if you experience symptoms such as sore eyes, a cough or a sore throat.',
+          sensitiveGroups: 'Reduce physical activity, particularly outdoors.',
+        },
+        {
+          label: 'Extremely poor',
+          health: 'Reduce physical activity outdoors.',
+          sensitiveGroups: 'Avoid physical activity outdoors.',
+        },
+      ],
+      ro: [
+        {
+          label: 'Excellent',
+          health: 'The air quality is excellent. Outdoor activities are not restricted.',
+          sensitiveGroups: 'No special measures are needed for sensitive people.',
+        },
+        {
+          label: 'Very good',
+          health: 'The air quality is very good for outdoor activities.',
+          sensitiveGroups: 'No special measures are needed for sensitive people.',
+        },
+        {
+          label: 'Good',
+          health: 'Outdoor activities are acceptable for most people.',
+          sensitiveGroups: 'Sensitive people should watch for respiratory symptoms.',
+        },
+        {
+          label: 'Medium',
+          health: 'Limiting intense and prolonged outdoor activities is advised.',
+          sensitiveGroups:
+            'Children, older adults and people with respiratory conditions should reduce outdoor exertion.',
+        },
+        {
+          label: 'Bad',
+          health: 'Reduce outdoor activities.',
+          sensitiveGroups: 'Sensitive people should avoid outdoor activities.',
+        },
+        {
+          label: 'Very bad',
+          health: 'Avoid outdoor activities.',
+          sensitiveGroups: 'Sensitive people should stay indoors.',
+        },
+      ],
+    },
+  },
+
+  provenance: {
+    fetched: (time: string) => `Fetched: ${time}`,
+    reason: (error: string) => `Reason: ${error}`,
+    partial: ' (partial)',
+    sources: {
+      live: 'Live',
+      cache: 'Cache',
+      mock: 'Demo',
+    },
+  },
+
+  demoData: {
+    title: 'Demo data',
+    mockMode: 'The app runs in demo mode (REACT_APP_USE_MOCK_DATA). The values shown are generated, not measured.',
+    fallback: 'Some data sources did not respond. The sections below show generated values, not real measurements:',
+    sections: {
+      airQuality: 'Air quality',
+      currentWeather: 'Current weather',
+      hourlyForecast: 'Hourly forecast',
+      airQualityForecast: 'Air quality forecast',
+      stations: 'Stations',
+      historical: 'Air quality history',
+      historicalWeather: 'Weather history',
+    },
+  },
+
+  station: {
+    measured: (time: string) => `Measured: ${time}`,
+    pollutant: 'Pollutant',
+    concentration: 'Concentration',
+    subIndex: (scheme: string) => `Sub-index (${scheme})`,
+    notIndexed: 'not indexed',
+    noReading: 'There are no current measurements for this station.',
+    map: 'Station Map',
+    mapLabel: 'Map of the monitoring stations in Bucharest',
+    center: 'Centre',
+    noCurrentReading: 'No current measurements.',
+  },
+
+  alerts: {
+    severities: {
+      info: 'Information',
+      warning: 'Warning',
+      critical: 'Alert',
+    },
+    windows: {
+      '1h': 'hourly mean',
+      '8h': '8-hour mean',
+      '24h': '24-hour mean',
+    },
+    builtInRules: {
+      'pm10-24h': 'PM10 daily limit value',
+      'pm25-24h': 'PM2.5 daily limit value',
+      'no2-1h': 'NO₂ hourly limit value',
+      'no2-1h-alert': 'NO₂ alert threshold',
+      'o3-1h-info': 'O₃ information threshold',
+      'o3-1h-alert': 'O₃ alert threshold',
+      'o3-8h': 'O₃ target value',
+      'so2-1h': 'SO₂ hourly limit value',
+      'so2-1h-alert': 'SO₂ alert threshold',
+      'co-8h': 'CO limit value',
+    },
+    describe: (severity: string, station: string, measure: string, threshold: string, since: string) =>
+      `${severity} ${station}: ${measure} (threshold ${threshold}), since ${since}`,
+    banner: (count: number) => `Air quality alerts (${count})`,
+    since: (threshold: string, since: string) => `threshold ${threshold} · since ${since}`,
+    history: 'Alert history',
+    noHistory: 'No alerts recorded.',
+    level: 'Level',
+    station: 'Station',
+    pollutant: 'Pollutant',
+    valueThreshold: 'Value / threshold',
+    period: 'Period',
+    ongoing: 'ongoing',
+    rules: 'Alert rules',
+    ruleDetails: (rule: string, station: string, hysteresis: number) => `${rule} · ${station} · hysteresis ${hysteresis}%`,
+    enable: (rule: string) => `Enable ${rule}`,
+    remove: (rule: string) => `Delete ${rule}`,
+    name: 'Name (optional)',
+    threshold: 'Threshold',
+    hysteresis: 'Hysteresis',
+    add: 'Add rule',
+  },
+
+  notifications: {
+    title: 'Notifications',
+    unsupported: 'This browser does not support desktop notifications.',
+    enable: 'Send desktop notifications for alerts',
+    blocked: 'Notifications are blocked for this site. Allow them in the browser settings.',
+    minSeverity: 'Minimum level',
+    stations: 'Stations',
+    quietHours: 'Quiet hours',
+    quietStart: 'Quiet hours start',
+    quietEnd: 'Quiet hours end',
+    repeat: 'Repeat for the same episode at most',
+    repeatOptions: {
+      60: 'once an hour',
+      240: 'every 4 hours',
+      720: 'every 12 hours',
+      1440: 'once a day',
+    },
+    notificationTitle: (severity: string, pollutant: string, station: string) => `${severity}: ${pollutant} at ${station}`,
+    notificationBody: (measure: string, threshold: string, rule: string) =>
+      `${measure}, above the ${threshold} threshold (${rule})`,
+  },
+
+  export: {
+    button: 'Export',
+    scope: 'Exported data',
+    scopes: {
+      view: 'Current view',
+      all: 'All stations',
+    },
+    formats: {
+      csv: 'CSV',
+      json: 'JSON',
+      xlsx: 'Excel (XLSX)',
+    },
+    busy: 'Preparing the export...',
+    failed: (error: string) => `The export failed: ${error}`,
+    tables: {
+      measurements: 'Measurements',
+      hourlyWeather: 'Weather forecast',
+      historical: 'History',
+      historicalWeather: 'Weather history',
+    },
+    filename: (all: boolean) => `air-quality-bucharest_${all ? 'all-stations' : 'view'}`,
+    columns: {
+      source: 'Provenance',
+      fetchedAt: 'Fetched at',
+      stationId: 'Station ID',
+      station: 'Station',
+      timestamp: 'Date and time',
+      temperature: 'Temperature',
+      humidity: 'Humidity',
+      windSpeed: 'Wind',
+      pressure: 'Pressure',
+      uvIndex: 'UV index',
+      visibility: 'Visibility',
+      windDirection: 'Wind direction',
+      windGusts: 'Gusts',
+      precipitation: 'Precipitation',
+      cloudCover: 'Cloud cover',
+      boundaryLayerHeight: 'Boundary layer height',
+      quality: 'Rejected values',
+    },
+  },
+
+  report: {
+    button: 'Report',
+    description: 'Bulletin for the selected period',
+    busy: 'Generating the report...',
+    failed: (error: string) => `The report could not be generated: ${error}`,
+    formats: {
+      pdf: 'PDF (print)',
+      png: 'PNG (one image per page)',
+    },
+    summary: 'Summary by station',
+    station: 'Station',
+    level: 'Level',
+    dominantPollutant: 'Dominant pollutant',
+    period: (period: string) => `Period: ${period}`,
+    generated: (time: string, scheme: string) => `Generated on ${time} · ${scheme} scale`,
+    page: (page: number | string, pages: number | string) => `Page ${page} / ${pages}`,
+    alerts: 'Alerts',
+    noAlerts: 'No alerts were triggered in the reported period.',
+    recommendations: 'Health recommendations',
+    popupBlocked: 'The report window was blocked. Allow pop-ups for this site.',
+    chartFailed: 'The chart could not be rendered.',
+    pngFailed: 'The page could not be converted to PNG.',
+    canvasUnsupported: 'This browser does not support canvas rendering.',
+    filename: 'air-quality-report',
+    pageFilename: 'page',
+  },
+};
+
+export default en;
@@ -0,0 +1,71 @@
+import { getAQILevel } from '../services/aqi';
+import { TIME_RANGE_LABELS, formatPeriod } from '../services/timeRange';
+import { LOCALES, detectLocale, formatDate, formatDecimal, getLocale, messages, setLocale, subscribeLocale } from './index';
+
+const mockLanguages = (languages: string[]) => jest.spyOn(window.navigator, 'languages', 'get').mockReturnValue(languages);
+
+describe('detectLocale', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('prefers the saved choice over the browser languages', () => {
+    mockLanguages(['en-US']);
+    localStorage.setItem('locale', 'ro');
+    expect(detectLocale()).toBe('ro');
+  });
+
+  it('takes the first browser language with a catalog, else English', () => {
+    mockLanguages(['de-DE', 'ro', 'en']);
+    expect(detectLocale()).toBe('ro');
+
+    mockLanguages(['fr-FR']);
+    expect(detectLocale()).toBe('en');
+  });
+});
+
+describe('setLocale', () => {
+  it('persists the choice and notifies the subscribers once per change', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeLocale(listener);
+
+    setLocale('en');
+    setLocale('en');
+    unsubscribe();
+    setLocale('ro');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getLocale()).toBe('ro');
+    expect(localStorage.getItem('locale')).toBe('ro');
+  });
+
+  it('switches the labels shared by the services', () => {
+    setLocale('en');
+
+    expect(messages()).toBe(LOCALES.en);
+    expect(TIME_RANGE_LABELS['7d']).toBe('Last week');
+    expect(Object.keys(TIME_RANGE_LABELS)).toEqual(['24h', '7d', '30d', 'custom']);
+    expect(getAQILevel(3.5, 'eaqi').label).toBe('Poor');
+  });
+});
+
+describe('formatting', () => {
+  it('uses the separators and date patterns of the locale', () => {
+    const range = { start: new Date(2026, 5, 1), end: new Date(2026, 5, 7) };
+
+    expect(formatDecimal(12345.6, 1)).toBe('12.345,6');
+    expect(formatDate(new Date(2026, 5, 8, 9, 30), 'dateTime')).toBe('08.06.2026 09:30');
+    expect(formatPeriod(range)).toBe('01.06.2026 – 07.06.2026');
+
+    setLocale('en');
+    expect(formatDecimal(12345.6, 1)).toBe('12,345.6');
+    expect(formatDate(new Date(2026, 5, 8, 9, 30), 'dateTime')).toBe('08/06/2026 09:30');
+    expect(formatPeriod(range)).toBe('01/06/2026 – 07/06/2026');
+  });
+});
+
+describe('catalogs', () => {
+  it('translate every AQI level', () => {
+    Object.entries(LOCALES.ro.aqi.levels).forEach(([schemeId, levels]) => {
+      expect(LOCALES.en.aqi.levels[schemeId as keyof typeof LOCALES.en.aqi.levels]).toHaveLength(levels.length);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// src/i18n/index.ts
+import { format } from 'date-fns';
+import { readItem, writeItem } from '../services/storage';
+import en from './en';
+import ro, { Messages } from './ro';
+
+export type { Messages } from './ro';
+
+export type Locale = 'ro' | 'en';
+
+export type DateStyle = keyof Messages['dates'];
+
+export const LOCALES: Record<Locale, Messages> = { ro, en };
+
+/** Each language in its own name, for the switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ro: 'Română',
+  en: 'English',
+};
+
+// Browsers asking for neither language get English
+export const FALLBACK_LOCALE: Locale = 'en';
+
+const LANGUAGE_TAGS: Record<Locale, string> = {
+  ro: 'ro-RO',
+  en: 'en-GB',
+};
+
+const LOCALE_STORAGE_KEY = 'locale';
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+/**
+ * The saved choice, else the first browser language we have a catalog for.
+ */
+export function detectLocale(): Locale {
+  const stored = readItem(LOCALE_STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+
+  const languages =
+    typeof navigator === 'undefined' ? [] : navigator.languages?.length ? navigator.languages : [navigator.language];
+  const match = languages.map(tag => tag?.slice(0, 2).toLowerCase()).find(isLocale);
+  return match ?? FALLBACK_LOCALE;
+}
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+/** Switch language, remember the choice and re-render the subscribers */
+export function setLocale(locale: Locale): void {
+  writeItem(LOCALE_STORAGE_KEY, locale, 'Language');
+  if (locale === currentLocale) return;
+
+  currentLocale = locale;
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const messages = (): Messages => LOCALES[currentLocale];
+
+/** BCP 47 tag of the current locale, e.g. for Intl or `<html lang>` */
+export const languageTag = (): string => LANGUAGE_TAGS[currentLocale];
+
+/**
+ * A label map whose values follow the current locale, so the
+ * `Record<key, string>` lookups across the services keep working unchanged.
+ */
+export function localizedLabels<K extends PropertyKey>(select: (catalog: Messages) => Record<K, string>): Record<K, string> {
+  const labels = {} as Record<K, string>;
+  Object.keys(select(ro)).forEach(key => {
+    Object.defineProperty(labels, key, {
+      enumerable: true,
+      get: () => select(messages())[key as K],
+    });
+  });
+  return labels;
+}
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(languageTag(), options).format(value);
+
+/** Fixed number of decimals, with the locale's separators */
+export const formatDecimal = (value: number, decimals: number): string =>
+  formatNumber(value, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+/** Date in one of the catalog's numeric patterns */
+export const formatDate = (date: Date | string | number, style: DateStyle): string =>
+  format(new Date(date), messages().dates[style]);
@@ -0,0 +1,493 @@
+// src/i18n/ro.ts
+// Romanian catalog. It is the reference every other catalog is typed against.
+
+const ro = {
+  dates: {
+    date: 'dd.MM.yyyy',
+    dateTime: 'dd.MM.yyyy HH:mm',
+    dateTimeSeconds: 'dd.MM.yyyy HH:mm:ss',
+    time: 'HH:mm:ss',
+    dayMonth: 'dd.MM',
+    dayMonthTime: 'dd.MM HH:mm',
+  },
+
+  common: {
+    allStations: 'Toate stațiile',
+    station: (id: number) => `Stația ${id}`,
+    close: 'Închide',
+    language: 'Limba',
+  },
+
+  theme: {
+    theme: 'Temă',
+    preferences: { system: 'Sistem', light: 'Luminoasă', dark: 'Întunecată' },
+    aqiPalette: 'Paletă AQI',
+    palettes: { standard: 'Standard', colorblind: 'Pentru daltonism' },
+  },
+
+  app: {
+    title: 'Dashboard Calitatea Vieții București',
+    city: 'București',
+    location: 'București, România',
+    updated: (time: string) => `Actualizat: ${time}`,
+    lastUpdated: (time: string) => `Ultima actualizare: ${time}`,
+    loading: 'Încărcare date...',
+    loadError: (error: string) => `Datele nu au putut fi încărcate: ${error}`,
+    from: 'De la',
+    to: 'Până la',
+    invalidRange: 'Data de început trebuie să fie înaintea datei de sfârșit.',
+    aqi: 'Indice Calitate Aer',
+    stationAqi: (station: string) => `Indice Calitate Aer – ${station}`,
+    averageAqi: 'Indice mediu Calitate Aer',
+    overallAqi: 'Indice General Calitate Aer',
+    dominantPollutant: (pollutant: string) => `Poluant dominant: ${pollutant}`,
+    worstStation: 'Cea mai afectată stație',
+    temperature: 'Temperatura',
+    humidity: 'Umiditate',
+    visibility: 'Vizibilitate',
+    stationsChart: 'Calitatea Aerului pe Stații',
+    weatherChart: (period: string) => `Condițiile Meteo (${period})`,
+    historyChart: (period: string) => `Tendințe Istorice (${period})`,
+    temperatureSeries: 'Temperatură',
+    humiditySeries: 'Umiditate',
+    recommendations: 'Recomandări pentru Sănătate',
+    outdoorActivities: 'Activități în Exterior',
+    sensitiveGroups: 'Persoane Sensibile',
+    ventilation: 'Ventilare Locuință',
+    ventilate: 'Aerisiți regulat locuința pentru a menține aerul proaspăt.',
+    limitVentilation: 'Limitați ventilarea când calitatea exterioară a aerului este scăzută.',
+    reportTitle: (place: string) => `Buletin calitatea aerului – ${place}`,
+    sources: 'Date furnizate de Copernicus Climate Change Service și calitateaer.ro',
+  },
+
+  trends: {
+    sameHourYesterday: (current: string, baseline: string) =>
+      `Ultima valoare orară (${current}) față de aceeași oră de ieri (${baseline})`,
+    previousPeriod: (current: string, baseline: string, period: string) =>
+      `Media perioadei selectate (${current}) față de media perioadei anterioare, ${period} (${baseline})`,
+    allStations: 'Media orară a tuturor stațiilor',
+    noBaseline: 'Nu există date pentru comparație',
+    sparkline: (label: string) => `Evoluția recentă: ${label}`,
+  },
+
+  weather: {
+    conditions: 'Condiții de dispersie',
+    windDirection: 'Direcția vântului',
+    windFrom: (direction: string) => `dinspre ${direction}`,
+    windGusts: 'Rafale',
+    precipitation: 'Precipitații',
+    cloudCover: 'Nebulozitate',
+    boundaryLayerHeight: 'Strat limită',
+    pressure: 'Presiune',
+    uvIndex: 'Indice UV',
+    compass: ['N', 'NE', 'E', 'SE', 'S', 'SV', 'V', 'NV'],
+    dispersionChart: (period: string) => `Dispersia poluanților (${period})`,
+    dispersionHint:
+      'Un strat limită coborât și vântul slab țin poluanții aproape de sol, iar precipitațiile îi spală din aer.',
+    windSeries: 'Vânt (km/h)',
+    gustsSeries: 'Rafale (km/h)',
+    precipitationSeries: 'Precipitații (mm)',
+    boundaryLayerSeries: 'Strat limită (m)',
+  },
+
+  forecast: {
+    chart: (hours: number) => `Prognoza Calității Aerului (următoarele ${hours} ore)`,
+    source: 'Rezultatul modelului Copernicus CAMS pentru întregul oraș, nu măsurători',
+    observedFrom: (station: string) => `AQI măsurat: ${station}`,
+    observed: 'AQI măsurat',
+    forecast: 'AQI prognozat',
+    worstWindow: 'Cel mai slab interval',
+    recommendationTitle: (hours: number) => `Următoarele ${hours} ore`,
+    worsening: (level: string, period: string, pollutant: string) =>
+      `Calitatea aerului ar urma să ajungă la nivelul „${level}” în intervalul ${period}, mai ales din cauza ${pollutant}. Planificați activitățile în aer liber în afara acestui interval.`,
+    noWorsening: (level: string, period: string) =>
+      `Nu se prognozează o înrăutățire: cel mai slab interval (${period}) rămâne la nivelul „${level}”.`,
+    unavailable: 'Prognoza calității aerului nu este disponibilă.',
+  },
+
+  nowcast: {
+    title: 'Prognoză Locală AQI',
+    modelOutput: 'Rezultat de model',
+    description: (days: number) =>
+      `Regresie ridge antrenată în browser pe ultimele ${days} zile de măsurători ale fiecărei stații și pe datele meteo. Valorile sunt estimări statistice, nu măsurători.`,
+    station: 'Stație',
+    horizon: (hours: number) => `+${hours} h`,
+    backtest: (days: number, station: string) => `Backtest pe ultimele ${days} zile, păstrate în afara antrenării – ${station}`,
+    horizonColumn: 'Orizont',
+    mae: 'MAE',
+    rmse: 'RMSE',
+    persistenceMae: 'MAE persistență',
+    samples: 'Eșantioane',
+    persistenceHint: 'Persistența repetă ultima valoare măsurată; modelul aduce un câștig acolo unde eroarea lui este mai mică.',
+    insufficientHistory: 'Istoricul nu este suficient pentru antrenarea modelului.',
+    training: 'Se antrenează modelul…',
+  },
+
+  correlation: {
+    title: 'Corelația Poluare–Vreme',
+    description:
+      'Relația dintre un poluant și o variabilă meteo, opțional cu un decalaj. Vântul slab și presiunea ridicată explică episoadele de smog de iarnă: aerul stagnează și poluanții se acumulează.',
+    station: 'Stație',
+    period: 'Perioadă',
+    pollutant: 'Poluant',
+    variable: 'Variabilă meteo',
+    lag: 'Decalaj',
+    lagOption: (hours: number) => (hours === 0 ? 'Fără decalaj' : `Vremea cu ${hours} h înainte`),
+    pearson: 'Pearson r',
+    spearman: 'Spearman ρ',
+    pairs: 'Perechi',
+    trendLine: 'Dreapta de regresie',
+    relation: (strength: string, sign: string) => `Relație ${strength}, ${sign}`,
+    strengths: { weak: 'slabă', moderate: 'moderată', strong: 'puternică' },
+    signs: { positive: 'pozitivă', negative: 'negativă' },
+    lagChart: 'Pearson r în funcție de decalaj',
+    lagAxis: 'Decalaj (h)',
+    strongestLag: (hours: number, r: string) => `Cea mai puternică relație la ${hours} h decalaj (r = ${r})`,
+    insufficient: 'Prea puține perechi de valori pentru a calcula corelația.',
+    loading: 'Se încarcă datele…',
+    variables: {
+      temperature: 'Temperatură',
+      humidity: 'Umiditate',
+      windSpeed: 'Viteza vântului',
+      pressure: 'Presiune',
+      windGusts: 'Rafale',
+      precipitation: 'Precipitații',
+      cloudCover: 'Nebulozitate',
+      boundaryLayerHeight: 'Strat limită',
+    },
+  },
+
+  quality: {
+    flags: {
+      valid: 'valid',
+      missing: 'lipsă',
+      negative: 'valoare negativă',
+      implausible: 'valoare neplauzibilă',
+      stuck: 'senzor blocat',
+      spike: 'vârf izolat',
+      stale: 'citire învechită',
+    },
+    completeness: (valid: number, total: number) => `Date ${valid}/${total}`,
+    completenessTitle: 'Poluanți cu valori valide în citirea curentă',
+    rejected: (pollutant: string, flag: string) => `${pollutant}: ${flag}`,
+    allValid: 'Toate valorile au trecut validarea',
+    stations: 'Completitudinea datelor pe stații',
+    history: (percent: string) => `Acoperirea istoricului: ${percent}`,
+    historyHint: 'Intervale din perioada selectată cu un AQI valid; golurile din grafice sunt date lipsă sau respinse',
+    noValidData: 'Nicio valoare validă',
+  },
+
+  units: {
+    label: 'Unități de concentrație',
+    systems: {
+      mass: 'μg/m³ (masă)',
+      volume: 'ppb (volum)',
+    },
+  },
+
+  timeRange: {
+    presets: {
+      '24h': 'Ultimele 24h',
+      '7d': 'Ultima săptămână',
+      '30d': 'Ultima lună',
+      custom: 'Interval personalizat',
+    },
+    resolutions: {
+      hourly: 'valori orare',
+      daily: 'medii zilnice',
+    },
+  },
+
+  aqi: {
+    schemes: {
+      epa: 'US EPA AQI',
+      eaqi: 'Indice European (EAQI)',
+      ro: 'Indice național (calitateaer.ro)',
+    },
+    // One entry per level of each scheme, in the order of AQIScheme.levels
+    levels: {
+      epa: [
+        {
+          label: 'Bună',
+          health: 'Ideal pentru toate activitățile în exterior. Calitatea aerului este excelentă.',
+          sensitiveGroups: 'Nu sunt necesare măsuri speciale pentru persoanele sensibile.',
+        },
+        {
+          label: 'Moderată',
+          health: 'Activitățile în exterior sunt acceptabile pentru majoritatea persoanelor.',
+          sensitiveGroups: 'Persoanele neobișnuit de sensibile ar trebui să reducă efortul prelungit în exterior.',
+        },
+        {
+          label: 'Nesănătoasă pentru grupuri sensibile',
+          health: 'Se recomandă limitarea activităților intense în exterior, mai ales pentru grupurile sensibile.',
+          sensitiveGroups:
+            'Copiii, vârstnicii și persoanele cu probleme respiratorii sau cardiovasculare ar trebui să reducă efortul în exterior.',
+        },
+        {
+          label: 'Nesănătoasă',
+          health: 'Toată lumea ar trebui să reducă efortul prelungit în exterior.',
+          sensitiveGroups: 'Grupurile sensibile ar trebui să evite activitățile în exterior.',
+        },
+        {
+          label: 'Foarte nesănătoasă',
+          health: 'Evitați efortul în exterior. Rămâneți în interior cât mai mult posibil.',
+          sensitiveGroups: 'Grupurile sensibile ar trebui să rămână în interior.',
+        },
+        {
+          label: 'Periculoasă',
+          health: 'Alertă de sănătate: toată populația ar trebui să evite activitățile în exterior.',
+          sensitiveGroups: 'Grupurile sensibile trebuie să rămână în interior, cu ferestrele închise.',
+        },
+      ],
+      eaqi: [
+        {
+          label: 'Bună',
+          health: 'Calitatea aerului este bună. Bucurați-vă de activitățile obișnuite în exterior.',
+          sensitiveGroups: 'Bucurați-vă de activitățile obișnuite în exterior.',
+        },
+        {
+          label: 'Acceptabilă',
+          health: 'Bucurați-vă de activitățile obișnuite în exterior.',
+          sensitiveGroups: 'Bucurați-vă de activitățile obișnuite în exterior.',
+        },
+        {
+          label: 'Moderată',
+          health: 'Bucurați-vă de activitățile obișnuite în exterior.',
+          sensitiveGroups: 'Luați în considerare reducerea activităților intense în exterior dacă apar simptome.',
+        },
+        {
+          label: 'Slabă',
+          health:
+            'Luați în considerare reducerea activităților intense în exterior dacă apar simptome precum iritația ochilor, tusea sau durerea în gât.',
+          sensitiveGroups:
+            'Luați în considerare reducerea activității fizice, mai ales în exterior, în special dacă apar simptome.',
+        },
+        {
+          label: 'Foarte slabă',
+          health:
+            'Luați în considerare reducerea activităților intense în exterior dacă apar simptome precum iritația ochilor, tusea sau durerea în gât.',
+          sensitiveGroups: 'Reduceți activitatea fizică, mai ales în exterior.',
+        },
+        {
+          label: 'Extrem de slabă',
+          health: 'Reduceți activitatea fizică în exterior.',
+          sensitiveGroups: 'Evitați activitatea fizică în exterior.',
+        },
+      ],
+      ro: [
+        {
+          label: 'Excelent',
+          health: 'Calitatea aerului este excelentă. Activitățile în exterior nu sunt restricționate.',
+          sensitiveGroups: 'Nu sunt necesare măsuri speciale pentru persoanele sensibile.',
+        },
+        {
+          label: 'Foarte bun',
+          health: 'Calitatea aerului este foarte bună pentru activitățile în exterior.',
+          sensitiveGroups: 'Nu sunt necesare măsuri speciale pentru persoanele sensibile.',
+        },
+        {
+          label: 'Bun',
+          health: 'Activitățile în exterior sunt acceptabile pentru majoritatea persoanelor.',
+          sensitiveGroups: 'Persoanele sensibile ar trebui să urmărească eventualele simptome respiratorii.',
+        },
+        {
+          label: 'Mediu',
+          health: 'Se recomandă limitarea activităților intense și prelungite în exterior.',
+          sensitiveGroups:
+            'Copiii, vârstnicii și persoanele cu afecțiuni respiratorii ar trebui să reducă efortul în exterior.',
+        },
+        {
+          label: 'Rău',
+          health: 'Reduceți activitățile în exterior.',
+          sensitiveGroups: 'Persoanele sensibile ar trebui să evite activitățile în exterior.',
+        },
+        {
+          label: 'Foarte rău',
+          health: 'Evitați activitățile în exterior.',
+          sensitiveGroups: 'Persoanele sensibile ar trebui să rămână în interior.',
+        },
+      ],
+    },
+  },
+
+  provenance: {
+    fetched: (time: string) => `Obținut: ${time}`,
+    reason: (error: string) => `Motiv: ${error}`,
+    partial: ' (parțial)',
+    sources: {
+      live: 'Live',
+      cache: 'Cache',
+      mock: 'Demo',
+    },
+  },
+
+  demoData: {
+    title: 'Date demonstrative',
+    mockMode:
+      'Aplicația rulează în modul demo (REACT_APP_USE_MOCK_DATA). Valorile afișate sunt generate, nu măsurate.',
+    fallback: 'Unele surse de date nu au răspuns. Secțiunile de mai jos afișează valori generate, nu măsurători reale:',
+    sections: {
+      airQuality: 'Calitatea aerului',
+      currentWeather: 'Vremea curentă',
+      hourlyForecast: 'Prognoza orară',
+      airQualityForecast: 'Prognoza calității aerului',
+      stations: 'Stații',
+      historical: 'Istoric calitate aer',
+      historicalWeather: 'Istoric meteo',
+    },
+  },
+
+  station: {
+    measured: (time: string) => `Măsurat: ${time}`,
+    pollutant: 'Poluant',
+    concentration: 'Concentrație',
+    subIndex: (scheme: string) => `Sub-indice (${scheme})`,
+    notIndexed: 'neindexat',
+    noReading: 'Nu există măsurători curente pentru această stație.',
+    map: 'Harta Stațiilor',
+    mapLabel: 'Harta stațiilor de monitorizare din București',
+    center: 'Centru',
+    noCurrentReading: 'Nu există măsurători curente.',
+  },
+
+  alerts: {
+    severities: {
+      info: 'Informare',
+      warning: 'Atenționare',
+      critical: 'Alertă',
+    },
+    windows: {
+      '1h': 'medie orară',
+      '8h': 'medie pe 8 ore',
+      '24h': 'medie pe 24 de ore',
+    },
+    builtInRules: {
+      'pm10-24h': 'Valoare limită zilnică PM10',
+      'pm25-24h': 'Valoare limită zilnică PM2.5',
+      'no2-1h': 'Valoare limită orară NO₂',
+      'no2-1h-alert': 'Prag de alertă NO₂',
+      'o3-1h-info': 'Prag de informare O₃',
+      'o3-1h-alert': 'Prag de alertă O₃',
+      'o3-8h': 'Valoare țintă O₃',
+      'so2-1h': 'Valoare limită orară SO₂',
+      'so2-1h-alert': 'Prag de alertă SO₂',
+      'co-8h': 'Valoare limită CO',
+    } as Record<string, string>,
+    describe: (severity: string, station: string, measure: string, threshold: string, since: string) =>
+      `${severity} ${station}: ${measure} (prag ${threshold}), din ${since}`,
+    banner: (count: number) => `Alerte calitate aer (${count})`,
+    since: (threshold: string, since: string) => `prag ${threshold} · din ${since}`,
+    history: 'Istoric alerte',
+    noHistory: 'Nicio alertă înregistrată.',
+    level: 'Nivel',
+    station: 'Stație',
+    pollutant: 'Poluant',
+    valueThreshold: 'Valoare / prag',
+    period: 'Interval',
+    ongoing: 'în curs',
+    rules: 'Reguli de alertă',
+    ruleDetails: (rule: string, station: string, hysteresis: number) => `${rule} · ${station} · histerezis ${hysteresis}%`,
+    enable: (rule: string) => `Activează ${rule}`,
+    remove: (rule: string) => `Șterge ${rule}`,
+    name: 'Nume (opțional)',
+    threshold: 'Prag',
+    hysteresis: 'Histerezis',
+    add: 'Adaugă regulă',
+  },
+
+  notifications: {
+    title: 'Notificări',
+    unsupported: 'Browserul nu suportă notificările desktop.',
+    enable: 'Trimite notificări desktop pentru alerte',
+    blocked: 'Notificările sunt blocate pentru acest site. Permiteți-le din setările browserului.',
+    minSeverity: 'Nivel minim',
+    stations: 'Stații',
+    quietHours: 'Ore de liniște',
+    quietStart: 'Început ore de liniște',
+    quietEnd: 'Sfârșit ore de liniște',
+    repeat: 'Repetă pentru același episod cel mult',
+    repeatOptions: {
+      60: 'o dată pe oră',
+      240: 'la 4 ore',
+      720: 'la 12 ore',
+      1440: 'o dată pe zi',
+    } as Record<number, string>,
+    notificationTitle: (severity: string, pollutant: string, station: string) => `${severity}: ${pollutant} la ${station}`,
+    notificationBody: (measure: string, threshold: string, rule: string) =>
+      `${measure}, peste pragul de ${threshold} (${rule})`,
+  },
+
+  export: {
+    button: 'Export',
+    scope: 'Date exportate',
+    scopes: {
+      view: 'Vizualizarea curentă',
+      all: 'Toate stațiile',
+    },
+    formats: {
+      csv: 'CSV',
+      json: 'JSON',
+      xlsx: 'Excel (XLSX)',
+    },
+    busy: 'Se pregătește exportul...',
+    failed: (error: string) => `Exportul a eșuat: ${error}`,
+    // Sheet names; the CSV files in the zip are named after them
+    tables: {
+      measurements: 'Masuratori',
+      hourlyWeather: 'Prognoza meteo',
+      historical: 'Istoric',
+      historicalWeather: 'Istoric meteo',
+    },
+    filename: (all: boolean) => `calitate-aer-bucuresti_${all ? 'toate-statiile' : 'vizualizare'}`,
+    columns: {
+      source: 'Proveniență',
+      fetchedAt: 'Obținut la',
+      stationId: 'ID stație',
+      station: 'Stație',
+      timestamp: 'Data și ora',
+      temperature: 'Temperatură',
+      humidity: 'Umiditate',
+      windSpeed: 'Vânt',
+      pressure: 'Presiune',
+      uvIndex: 'Indice UV',
+      visibility: 'Vizibilitate',
+      windDirection: 'Direcția vântului',
+      windGusts: 'Rafale',
+      precipitation: 'Precipitații',
+      cloudCover: 'Nebulozitate',
+      boundaryLayerHeight: 'Înălțimea stratului limită',
+      quality: 'Valori respinse',
+    },
+  },
+
+  report: {
+    button: 'Raport',
+    description: 'Buletin pentru perioada selectată',
+    busy: 'Se generează raportul...',
+    failed: (error: string) => `Raportul nu a putut fi generat: ${error}`,
+    formats: {
+      pdf: 'PDF (tipărire)',
+      png: 'PNG (o imagine pe pagină)',
+    },
+    summary: 'Rezumat pe stații',
+    station: 'Stație',
+    level: 'Nivel',
+    dominantPollutant: 'Poluant dominant',
+    period: (period: string) => `Perioada: ${period}`,
+    generated: (time: string, scheme: string) => `Generat la ${time} · Scala ${scheme}`,
+    page: (page: number | string, pages: number | string) => `Pagina ${page} / ${pages}`,
+    alerts: 'Alerte',
+    noAlerts: 'Nicio alertă declanșată în perioada raportată.',
+    recommendations: 'Recomandări pentru sănătate',
+    popupBlocked: 'Fereastra raportului a fost blocată. Permiteți ferestrele pop-up pentru acest site.',
+    chartFailed: 'Graficul nu a putut fi randat.',
+    pngFailed: 'Pagina nu a putut fi convertită în PNG.',
+    canvasUnsupported: 'Browserul nu suportă randarea în canvas.',
+    filename: 'raport-calitate-aer',
+    pageFilename: 'pagina',
+  },
+};
+
+export type Messages = typeof ro;
+
+export default ro;
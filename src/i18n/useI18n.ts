@@ -0,0 +1,11 @@
+// src/i18n/useI18n.ts
+import { useSyncExternalStore } from 'react';
+import { Locale, Messages, getLocale, messages, subscribeLocale } from './index';
+
+/** Current locale; the component re-renders when it changes */
+export const useLocale = (): Locale => useSyncExternalStore(subscribeLocale, getLocale);
+
+export function useMessages(): Messages {
+  useLocale();
+  return messages();
+}
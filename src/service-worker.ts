@@ -0,0 +1,114 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Background alert checks. The CRA build compiles this file to
+// /service-worker.js; it is not active under `npm start`.
+
+import { format } from 'date-fns';
+import { setLocale } from './i18n';
+import { ALERT_WINDOW_HOURS, Alert, StationSamples, evaluateAlerts, samplesFromHistory } from './services/alerts';
+import { ALERT_SYNC_TAG, WORKER_CONFIG_KEY, WORKER_LOG_KEY, WorkerConfig, sharedStore, showAlertNotifications } from './services/notifications';
+import { validateReading, validateSeries } from './services/quality';
+import { normalizeUnits } from './services/units';
+import { HistoricalDataPoint } from './types';
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: unknown };
+
+interface PeriodicSyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+// The build requires the precache manifest to be referenced; nothing is
+// precached, the dashboard keeps using the network and its own cache.
+void self.__WB_MANIFEST;
+
+const API = `${process.env.PUBLIC_URL}/api/calitateaer`;
+
+const getJSON = async (path: string): Promise<any> => {
+  const response = await fetch(API + path);
+  if (!response.ok) throw new Error(`${path}: HTTP ${response.status}`);
+  return response.json();
+};
+
+// Converted and validated like the dashboard's service layer does, so alerts
+// fire on the same values the dashboard shows
+const readingPoint = (item: any): HistoricalDataPoint => ({
+  date: item.timestamp,
+  aqi: null,
+  ...validateReading(normalizeUnits(item, item.units)).measurements,
+});
+
+const historyPoints = (items: any[]): HistoricalDataPoint[] =>
+  validateSeries(
+    items.map(item => ({ date: item.date, aqi: null, pm25: null, pm10: null, ...normalizeUnits(item, item.units) }) as HistoricalDataPoint)
+  );
+
+async function loadSamples({ rules, stations }: WorkerConfig, now: Date): Promise<StationSamples[]> {
+  const hours = Math.max(1, ...rules.filter(rule => rule.enabled).map(rule => ALERT_WINDOW_HOURS[rule.window]));
+  const start = new Date(now.getTime() - (hours + 1) * 3600 * 1000);
+  const query = `?startDate=${format(start, 'yyyy-MM-dd')}&endDate=${format(now, 'yyyy-MM-dd')}`;
+
+  // A station that fails is left out of this check, not the others
+  const results = await Promise.allSettled(
+    stations.map(async station => {
+      const [current, history] = await Promise.all([
+        getJSON(`/measurements/station/${station.id}/current`),
+        hours > 1 ? getJSON(`/measurements/station/${station.id}/historical${query}`) : Promise.resolve([]),
+      ]);
+      return {
+        stationId: station.id,
+        stationName: station.name,
+        samples: samplesFromHistory([...historyPoints(history), readingPoint(current)]),
+      };
+    })
+  );
+  return results.flatMap((result, i) => {
+    if (result.status === 'fulfilled') return [result.value];
+    console.warn(`Background alert check skipped station ${stations[i].id}:`, result.reason);
+    return [];
+  });
+}
+
+async function checkAlerts(): Promise<void> {
+  const config = await sharedStore.get<WorkerConfig>(WORKER_CONFIG_KEY);
+  if (!config?.preferences.enabled || config.stations.length === 0) return;
+  if (config.locale) setLocale(config.locale);
+
+  const now = new Date();
+  const log = evaluateAlerts(
+    config.rules,
+    await loadSamples(config, now),
+    (await sharedStore.get<Alert[]>(WORKER_LOG_KEY)) ?? [],
+    now
+  );
+  await sharedStore.set(WORKER_LOG_KEY, log);
+  await showAlertNotifications(self.registration, log, config.preferences, now);
+}
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('periodicsync', event => {
+  const syncEvent = event as PeriodicSyncEvent;
+  if (syncEvent.tag === ALERT_SYNC_TAG) {
+    syncEvent.waitUntil(checkAlerts().catch(error => console.warn('Background alert check failed:', error)));
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = event.notification.data?.url ?? '/';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(candidate => 'focus' in candidate);
+      return client ? client.focus() : self.clients.openWindow(url);
+    })
+  );
+});
+
+export {};
@@ -0,0 +1,108 @@
+import {
+  AlertRule,
+  AlertSample,
+  DEFAULT_ALERT_RULES,
+  activeAlerts,
+  evaluateAlerts,
+  loadAlertRules,
+  saveAlertRules,
+  windowMean,
+} from './alerts';
+
+const now = new Date('2026-03-10T12:30:00Z');
+
+// Hourly PM10 samples ending at 12:00, oldest first
+const pm10Hours = (values: number[]): AlertSample[] =>
+  values.map((value, i) => ({
+    timestamp: new Date(Date.UTC(2026, 2, 10, 12 - (values.length - 1 - i))).toISOString(),
+    values: { pm10: value },
+  }));
+
+const rule: AlertRule = {
+  id: 'pm10-24h',
+  name: 'Valoare limită zilnică PM10',
+  pollutant: 'pm10',
+  stationId: null,
+  window: '24h',
+  threshold: 50,
+  severity: 'warning',
+  hysteresis: 10,
+  enabled: true,
+};
+
+const station = (samples: AlertSample[], stationId = 1) => ({ stationId, stationName: `Stația ${stationId}`, samples });
+
+describe('windowMean', () => {
+  it('averages the hours inside the window', () => {
+    const samples = pm10Hours([...Array(16).fill(10), ...Array(8).fill(70)]);
+    expect(windowMean(samples, 'pm10', '24h', now)).toBeCloseTo(30);
+    expect(windowMean(samples, 'pm10', '8h', now)).toBeCloseTo(70);
+    expect(windowMean(samples, 'pm10', '1h', now)).toBe(70);
+  });
+
+  it('needs 75% of the hours and fresh data', () => {
+    expect(windowMean(pm10Hours(Array(17).fill(60)), 'pm10', '24h', now)).toBeNull();
+    expect(windowMean(pm10Hours(Array(18).fill(60)), 'pm10', '24h', now)).toBe(60);
+    expect(windowMean(pm10Hours(Array(24).fill(60)), 'pm10', '24h', new Date('2026-03-10T16:00:00Z'))).toBeNull();
+  });
+});
+
+describe('evaluateAlerts', () => {
+  it('raises once per rule and station and keeps it open inside the hysteresis band', () => {
+    const raised = evaluateAlerts([rule], [station(pm10Hours(Array(24).fill(60)))], [], now);
+    expect(raised).toHaveLength(1);
+    expect(raised[0]).toMatchObject({ key: 'pm10-24h:1', value: 60, threshold: 50, startedAt: now.toISOString() });
+
+    // 46 is below the threshold but above the 45 clearing level
+    const later = new Date(now.getTime() + 3600 * 1000);
+    const held = evaluateAlerts([rule], [station(pm10Hours(Array(24).fill(46)))], raised, later);
+    expect(held).toHaveLength(1);
+    expect(held[0]).toMatchObject({ value: 46, startedAt: now.toISOString() });
+    expect(held[0].endedAt).toBeUndefined();
+
+    const cleared = evaluateAlerts([rule], [station(pm10Hours(Array(24).fill(40)))], held, later);
+    expect(cleared).toHaveLength(1);
+    expect(cleared[0].endedAt).toBe(later.toISOString());
+  });
+
+  it('applies station-specific rules only to their station', () => {
+    const stationRule = { ...rule, id: 'custom', stationId: 2 };
+    const log = evaluateAlerts(
+      [stationRule],
+      [station(pm10Hours(Array(24).fill(60)), 1), station(pm10Hours(Array(24).fill(60)), 2)],
+      [],
+      now
+    );
+    expect(log.map(alert => alert.stationId)).toEqual([2]);
+  });
+
+  it('ends the alerts of disabled rules', () => {
+    const log = evaluateAlerts([rule], [station(pm10Hours(Array(24).fill(60)))], [], now);
+    const after = evaluateAlerts([{ ...rule, enabled: false }], [station(pm10Hours(Array(24).fill(60)))], log, now);
+    expect(after[0].endedAt).toBe(now.toISOString());
+  });
+});
+
+describe('activeAlerts', () => {
+  it('shows only the most severe open alert per station and pollutant', () => {
+    const critical = { ...rule, id: 'pm10-alert', window: '1h' as const, threshold: 55, severity: 'critical' as const };
+    const log = evaluateAlerts([rule, critical], [station(pm10Hours(Array(24).fill(60)))], [], now);
+
+    expect(log).toHaveLength(2);
+    expect(activeAlerts(log).map(alert => alert.ruleId)).toEqual(['pm10-alert']);
+  });
+});
+
+describe('alert rule storage', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps user rules and the enabled flag of built-in rules', () => {
+    const custom = { ...rule, id: 'custom-1', name: 'PM10 Berceni', stationId: 3 };
+    saveAlertRules([{ ...DEFAULT_ALERT_RULES[0], enabled: false, threshold: 1 }, custom]);
+
+    const rules = loadAlertRules();
+    expect(rules).toHaveLength(DEFAULT_ALERT_RULES.length + 1);
+    expect(rules[0]).toMatchObject({ id: DEFAULT_ALERT_RULES[0].id, enabled: false, threshold: 50 });
+    expect(rules[rules.length - 1]).toMatchObject(custom);
+  });
+});
@@ -0,0 +1,321 @@
+// src/services/alerts.ts
+import { formatDate, localizedLabels, messages } from '../i18n';
+import { AirQualityData, HistoricalDataPoint } from '../types';
+import { POLLUTANTS, POLLUTANT_LABELS, Pollutant } from './aqi';
+import { readJSON, writeJSON } from './storage';
+import { formatConcentration } from './units';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/** Averaging window a rule is evaluated over */
+export type AlertWindow = '1h' | '8h' | '24h';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  pollutant: Pollutant;
+  /** null applies the rule to every station */
+  stationId: number | null;
+  window: AlertWindow;
+  /** Raised when the window mean exceeds this value, in the pollutant's unit */
+  threshold: number;
+  severity: AlertSeverity;
+  /**
+   * Percentage below the threshold the mean has to fall before the alert
+   * clears, so a value hovering around the threshold does not flap.
+   */
+  hysteresis: number;
+  enabled: boolean;
+  /** Shipped with the dashboard; can be disabled but not deleted */
+  builtIn?: boolean;
+}
+
+export interface Alert {
+  /** One alert per rule and station: `<ruleId>:<stationId>` */
+  key: string;
+  ruleId: string;
+  ruleName: string;
+  stationId: number;
+  stationName: string;
+  pollutant: Pollutant;
+  window: AlertWindow;
+  severity: AlertSeverity;
+  threshold: number;
+  /** Latest window mean */
+  value: number;
+  startedAt: string;
+  updatedAt: string;
+  /** Set once the alert has cleared */
+  endedAt?: string;
+}
+
+export interface AlertSample {
+  timestamp: string;
+  values: Partial<Record<Pollutant, number>>;
+}
+
+export interface StationSamples {
+  stationId: number;
+  stationName: string;
+  samples: AlertSample[];
+}
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = localizedLabels(
+  catalog => catalog.alerts.severities
+);
+
+export const ALERT_SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export const ALERT_WINDOW_LABELS: Record<AlertWindow, string> = localizedLabels(catalog => catalog.alerts.windows);
+
+export const ALERT_WINDOW_HOURS: Record<AlertWindow, number> = {
+  '1h': 1,
+  '8h': 8,
+  '24h': 24,
+};
+
+const HOUR = 3600 * 1000;
+
+// A mean needs 75% of its hours, as for the EU limit values
+const MIN_COVERAGE = 0.75;
+
+// Readings older than this are not used to raise or clear alerts
+const STALE_AFTER_MS = 3 * HOUR;
+
+const HISTORY_LIMIT = 200;
+
+const RULES_STORAGE_KEY = 'alertRules';
+const ALERTS_STORAGE_KEY = 'alertLog';
+
+const builtIn = (rule: Omit<AlertRule, 'name' | 'enabled' | 'builtIn' | 'hysteresis' | 'stationId'>): AlertRule => ({
+  ...rule,
+  name: messages().alerts.builtInRules[rule.id],
+  stationId: null,
+  hysteresis: 10,
+  enabled: true,
+  builtIn: true,
+});
+
+/**
+ * Limit, information and alert thresholds of the EU ambient air quality
+ * directive, applied to every station.
+ */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  builtIn({ id: 'pm10-24h', pollutant: 'pm10', window: '24h', threshold: 50, severity: 'warning' }),
+  builtIn({ id: 'pm25-24h', pollutant: 'pm25', window: '24h', threshold: 25, severity: 'warning' }),
+  builtIn({ id: 'no2-1h', pollutant: 'no2', window: '1h', threshold: 200, severity: 'warning' }),
+  builtIn({ id: 'no2-1h-alert', pollutant: 'no2', window: '1h', threshold: 400, severity: 'critical' }),
+  builtIn({ id: 'o3-1h-info', pollutant: 'o3', window: '1h', threshold: 180, severity: 'info' }),
+  builtIn({ id: 'o3-1h-alert', pollutant: 'o3', window: '1h', threshold: 240, severity: 'critical' }),
+  builtIn({ id: 'o3-8h', pollutant: 'o3', window: '8h', threshold: 120, severity: 'warning' }),
+  builtIn({ id: 'so2-1h', pollutant: 'so2', window: '1h', threshold: 350, severity: 'warning' }),
+  builtIn({ id: 'so2-1h-alert', pollutant: 'so2', window: '1h', threshold: 500, severity: 'critical' }),
+  builtIn({ id: 'co-8h', pollutant: 'co', window: '8h', threshold: 10, severity: 'warning' }),
+];
+
+// Missing and rejected values are left out rather than counted as 0
+const presentValues = (values: Partial<Record<Pollutant, number | null>>): AlertSample['values'] =>
+  Object.fromEntries(
+    POLLUTANTS.filter(pollutant => typeof values[pollutant] === 'number').map(pollutant => [pollutant, values[pollutant]])
+  );
+
+export const sampleFromReading = (reading: AirQualityData): AlertSample => ({
+  timestamp: reading.timestamp,
+  values: presentValues(reading.measurements),
+});
+
+export const samplesFromHistory = (points: HistoricalDataPoint[]): AlertSample[] =>
+  points.map(point => ({
+    timestamp: point.date,
+    values: presentValues(point),
+  }));
+
+/**
+ * Mean of `pollutant` over the window ending at the latest hourly sample, or
+ * null when the data is stale or covers too few hours.
+ */
+export function windowMean(
+  samples: AlertSample[],
+  pollutant: Pollutant,
+  window: AlertWindow,
+  now: Date = new Date()
+): number | null {
+  // One value per hour; later samples replace earlier ones
+  const hourly = new Map<number, number>();
+  samples.forEach(sample => {
+    const value = sample.values[pollutant];
+    const time = new Date(sample.timestamp).getTime();
+    if (typeof value !== 'number' || !isFinite(value) || isNaN(time)) return;
+    hourly.set(Math.floor(time / HOUR) * HOUR, value);
+  });
+  if (hourly.size === 0) return null;
+
+  const latest = Math.max(...Array.from(hourly.keys()));
+  if (now.getTime() - latest > STALE_AFTER_MS) return null;
+
+  const hours = ALERT_WINDOW_HOURS[window];
+  const values = Array.from(hourly.entries())
+    .filter(([hour]) => hour > latest - hours * HOUR)
+    .map(([, value]) => value);
+  if (values.length < Math.ceil(hours * MIN_COVERAGE)) return null;
+
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+const clearBelow = (rule: AlertRule) => rule.threshold * (1 - rule.hysteresis / 100);
+
+/**
+ * Advance the alert log by one evaluation. Each rule and station pair has at
+ * most one open alert: it is raised when the window mean exceeds the
+ * threshold, updated while it stays above the clearing level and closed
+ * once it drops below it. Pairs without enough data keep their state.
+ */
+export function evaluateAlerts(
+  rules: AlertRule[],
+  stations: StationSamples[],
+  log: Alert[],
+  now: Date = new Date()
+): Alert[] {
+  const timestamp = now.toISOString();
+  const enabled = rules.filter(rule => rule.enabled);
+  const next = log.map(alert => ({ ...alert }));
+  const open = new Map(next.filter(alert => !alert.endedAt).map(alert => [alert.key, alert]));
+  const raised: Alert[] = [];
+
+  enabled.forEach(rule => {
+    stations
+      .filter(station => rule.stationId === null || station.stationId === rule.stationId)
+      .forEach(station => {
+        const key = `${rule.id}:${station.stationId}`;
+        const value = windowMean(station.samples, rule.pollutant, rule.window, now);
+        if (value === null) return;
+
+        const current = open.get(key);
+        if (current) {
+          if (value < clearBelow(rule)) {
+            current.endedAt = timestamp;
+          } else {
+            Object.assign(current, { value, updatedAt: timestamp, severity: rule.severity, threshold: rule.threshold });
+          }
+        } else if (value > rule.threshold) {
+          raised.push({
+            key,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            stationId: station.stationId,
+            stationName: station.stationName,
+            pollutant: rule.pollutant,
+            window: rule.window,
+            severity: rule.severity,
+            threshold: rule.threshold,
+            value,
+            startedAt: timestamp,
+            updatedAt: timestamp,
+          });
+        }
+      });
+  });
+
+  // Alerts of deleted or disabled rules end now
+  open.forEach(alert => {
+    if (!alert.endedAt && !enabled.some(rule => rule.id === alert.ruleId)) {
+      alert.endedAt = timestamp;
+    }
+  });
+
+  // Newest first; open alerts are never trimmed
+  let closed = 0;
+  return [...raised, ...next].filter(alert => !alert.endedAt || closed++ < HISTORY_LIMIT);
+}
+
+/**
+ * Open alerts for display. Where several rules fire for the same station and
+ * pollutant only the most severe is kept.
+ */
+export function activeAlerts(log: Alert[]): Alert[] {
+  const byTarget = new Map<string, Alert>();
+  log
+    .filter(alert => !alert.endedAt)
+    .forEach(alert => {
+      const target = `${alert.stationId}:${alert.pollutant}`;
+      const shown = byTarget.get(target);
+      if (
+        !shown ||
+        ALERT_SEVERITY_RANK[alert.severity] > ALERT_SEVERITY_RANK[shown.severity] ||
+        (alert.severity === shown.severity && alert.value / alert.threshold > shown.value / shown.threshold)
+      ) {
+        byTarget.set(target, alert);
+      }
+    });
+
+  return Array.from(byTarget.values()).sort(
+    (a, b) =>
+      ALERT_SEVERITY_RANK[b.severity] - ALERT_SEVERITY_RANK[a.severity] || a.startedAt.localeCompare(b.startedAt)
+  );
+}
+
+// Thresholds are kept in the units measurements are stored in
+export const formatAlertValue = (value: number, pollutant: Pollutant): string =>
+  formatConcentration(pollutant, value, 'mass');
+
+/**
+ * Built-in rules are shown in the current language; custom rules and the
+ * alerts they raised keep the name they were saved with.
+ */
+export const ruleName = (rule: AlertRule): string =>
+  (rule.builtIn && messages().alerts.builtInRules[rule.id]) || rule.name;
+
+export const alertRuleName = (alert: Alert): string => messages().alerts.builtInRules[alert.ruleId] ?? alert.ruleName;
+
+export const describeAlert = (alert: Alert): string =>
+  messages().alerts.describe(
+    ALERT_SEVERITY_LABELS[alert.severity],
+    alert.stationName,
+    `${POLLUTANT_LABELS[alert.pollutant]} ${ALERT_WINDOW_LABELS[alert.window]} ${formatAlertValue(alert.value, alert.pollutant)}`,
+    formatAlertValue(alert.threshold, alert.pollutant),
+    formatDate(alert.startedAt, 'dateTime')
+  );
+
+export const describeRule = (rule: AlertRule): string =>
+  `${POLLUTANT_LABELS[rule.pollutant]} ${ALERT_WINDOW_LABELS[rule.window]} > ${formatAlertValue(rule.threshold, rule.pollutant)}`;
+
+const isRule = (value: any): value is AlertRule =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  POLLUTANTS.includes(value.pollutant) &&
+  (value.stationId === null || typeof value.stationId === 'number') &&
+  value.window in ALERT_WINDOW_HOURS &&
+  typeof value.threshold === 'number' &&
+  value.severity in ALERT_SEVERITY_RANK &&
+  typeof value.hysteresis === 'number' &&
+  typeof value.enabled === 'boolean';
+
+/**
+ * Saved rules, with any built-in rule added since they were saved. Built-in
+ * rules keep only their enabled flag from storage.
+ */
+export function loadAlertRules(): AlertRule[] {
+  const stored = readJSON(RULES_STORAGE_KEY);
+  if (!Array.isArray(stored)) return DEFAULT_ALERT_RULES;
+
+  const rules = stored.filter(isRule);
+  const builtIns = DEFAULT_ALERT_RULES.map(rule => ({
+    ...rule,
+    enabled: rules.find(saved => saved.id === rule.id)?.enabled ?? rule.enabled,
+  }));
+  return [...builtIns, ...rules.filter(rule => !DEFAULT_ALERT_RULES.some(builtInRule => builtInRule.id === rule.id))];
+}
+
+export const saveAlertRules = (rules: AlertRule[]): void => writeJSON(RULES_STORAGE_KEY, rules);
+
+export function loadAlertLog(): Alert[] {
+  const stored = readJSON(ALERTS_STORAGE_KEY);
+  return Array.isArray(stored) ? stored.filter(alert => alert && typeof alert.key === 'string') : [];
+}
+
+export const saveAlertLog = (log: Alert[]): void => writeJSON(ALERTS_STORAGE_KEY, log);
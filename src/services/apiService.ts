@@ -1,65 +1,138 @@
 // src/services/apiService.ts
 import axios, { AxiosInstance } from 'axios';
+import { format } from 'date-fns';
+import {
+  Station,
+  AirQualityData,
+  AirQualityForecastPoint,
+  WeatherData,
+  HistoricalDataPoint,
+  DashboardData,
+  DashboardProvenance,
+  DataSource,
+  Provenance,
+  Sourced,
+} from '../types';
+import {
+  AQISchemeId,
+  DEFAULT_AQI_SCHEME,
+  getAQILevel,
+  indexOrNull,
+} from './aqi';
+import { CACHE_DURATIONS, CachePolicy, DailySeriesPolicy, ServiceCache, mergeProvenance, serviceCache } from './cache';
+import { checkFreshness, validateReading, validateSeries } from './quality';
+import { ResiliencePolicy, applyResiliencePolicy, createLimiter, resolvePolicy } from './resilience';
+import { syntheticData } from './synthetic';
+import { DateRange, previousPeriod, resolvePresetRange } from './timeRange';
+import { normalizeUnits } from './units';
+
+export type {
+  Station,
+  AirQualityMeasurement,
+  AirQualityData,
+  AirQualityForecastPoint,
+  WeatherData,
+  HistoricalDataPoint,
+  DashboardData,
+  DashboardProvenance,
+  DataSource,
+  Provenance,
+  Sourced,
+} from '../types';
+
+// Configuration. Both upstreams are reached through the backend-for-frontend
+// (server/bff), which holds the credentials; nothing secret is bundled here.
+const API_CONFIG = {
+  CALITATE_AER: {
+    baseURL: '/api/calitateaer',
+    resilience: resolvePolicy({ timeoutMs: 10000 })
+  },
+  COPERNICUS: {
+    baseURL: '/api/copernicus',
+    // Fewer, slower calls: back off for longer before giving up
+    resilience: resolvePolicy({ timeoutMs: 15000, retries: 2, baseDelayMs: 1000 })
+  },
+  // Skip the network entirely and serve mock data (demo deployments)
+  USE_MOCK_DATA: process.env.REACT_APP_USE_MOCK_DATA === 'true'
+};
 
-// Type definitions
-export interface Station {
-  id: number;
-  name: string;
-  lat: number;
-  lon: number;
-  county: string;
-  city?: string;
-}
+const { MINUTE, HOUR, DAY } = CACHE_DURATIONS;
+
+// Per-endpoint cache lifetimes, see ServiceCache.swr for the semantics
+const CACHE_POLICIES: {
+  stations: CachePolicy;
+  currentAirQuality: CachePolicy;
+  currentWeather: CachePolicy;
+  hourlyForecast: CachePolicy;
+  airQualityForecast: CachePolicy;
+  historical: DailySeriesPolicy;
+} = {
+  stations: { ttl: DAY, maxStale: 7 * DAY },
+  currentAirQuality: { ttl: 5 * MINUTE, maxStale: HOUR },
+  currentWeather: { ttl: 10 * MINUTE, maxStale: HOUR },
+  hourlyForecast: { ttl: 30 * MINUTE, maxStale: 3 * HOUR },
+  // CAMS publishes new runs twice a day
+  airQualityForecast: { ttl: HOUR, maxStale: 12 * HOUR },
+  historical: {
+    closedDay: { ttl: 30 * DAY, maxStale: 335 * DAY },
+    openDay: { ttl: 15 * MINUTE, maxStale: HOUR },
+    // Stations report late and ERA5 lags by about five days
+    recentDays: 7,
+    // 23 hours on the day the clocks go forward
+    fullDayPoints: 23
+  }
+};
 
-export interface AirQualityMeasurement {
-  pm25: number;
-  pm10: number;
-  no2: number;
-  o3: number;
-  so2: number;
-  co: number;
-}
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
 
-export interface AirQualityData {
-  stationId: number;
-  stationName: string;
-  timestamp: string;
-  measurements: AirQualityMeasurement;
-  aqi: number;
-}
+const sourced = <T>(data: T, source: DataSource, error?: unknown): Sourced<T> => ({
+  data,
+  provenance: {
+    source,
+    fetchedAt: new Date().toISOString(),
+    ...(error !== undefined && { error: errorMessage(error) })
+  }
+});
 
-export interface WeatherData {
-  timestamp: string;
-  temperature: number;
-  humidity: number;
-  windSpeed: number;
-  pressure: number;
-  uvIndex: number;
-}
+const mock = <T>(data: T, error?: unknown): Sourced<T> => sourced(data, 'mock', error);
 
-export interface HistoricalDataPoint {
-  date: string;
-  aqi: number;
-  pm25: number;
-  pm10: number;
-  temperature?: number;
+export class MockDataModeError extends Error {
+  constructor() {
+    super('Mock data mode is enabled (REACT_APP_USE_MOCK_DATA)');
+    this.name = 'MockDataModeError';
+  }
 }
 
-// Configuration
-const API_CONFIG = {
-  CALITATE_AER: {
-    baseURL: 'https://calitateaer.ro:8443',
-    username: process.env.REACT_APP_CALITATE_AER_USERNAME || '',
-    password: process.env.REACT_APP_CALITATE_AER_PASSWORD || ''
-  },
-  COPERNICUS: {
-    baseURL: '/api/copernicus', // Your backend proxy endpoint
-    apiKey: process.env.REACT_APP_COPERNICUS_API_KEY || ''
-  }
-};
+/**
+ * Serve mock data straight away when REACT_APP_USE_MOCK_DATA is set, without
+ * touching the network or the cache.
+ */
+const mockDataModeResult = <T>(getMockData: () => T): Sourced<T> | null =>
+  API_CONFIG.USE_MOCK_DATA ? mock(getMockData(), new MockDataModeError()) : null;
+
+export const isMockDataMode = (): boolean => API_CONFIG.USE_MOCK_DATA;
+
+// Variables an older proxy does not send come through as null
+const weatherFields = (item: any): Omit<WeatherData, 'timestamp'> => ({
+  temperature: item.temperature,
+  humidity: item.humidity,
+  windSpeed: item.windSpeed,
+  pressure: item.pressure,
+  uvIndex: item.uvIndex ?? null,
+  visibility: item.visibility ?? null,
+  windDirection: item.windDirection ?? null,
+  windGusts: item.windGusts ?? null,
+  precipitation: item.precipitation ?? null,
+  cloudCover: item.cloudCover ?? null,
+  boundaryLayerHeight: item.boundaryLayerHeight ?? null,
+});
+
+// How far ahead the air quality forecast looks
+export const AIR_QUALITY_FORECAST_HOURS = 72;
 
 // Bucharest coordinates and region
-const BUCHAREST_COORDS = {
+export const BUCHAREST_COORDS = {
   lat: 44.4268,
   lon: 26.1025,
   north: 44.5,
@@ -70,15 +143,15 @@ const BUCHAREST_COORDS = {
 
 export class CalitateAerService {
   private api: AxiosInstance;
+  private cache: ServiceCache;
+  private limit: ReturnType<typeof createLimiter>;
 
-  constructor() {
+  constructor(cache: ServiceCache = serviceCache, policy: ResiliencePolicy = API_CONFIG.CALITATE_AER.resilience) {
+    this.cache = cache;
+    this.limit = createLimiter(policy.concurrency);
     this.api = axios.create({
       baseURL: API_CONFIG.CALITATE_AER.baseURL,
-      timeout: 10000,
-      auth: API_CONFIG.CALITATE_AER.username && API_CONFIG.CALITATE_AER.password ? {
-        username: API_CONFIG.CALITATE_AER.username,
-        password: API_CONFIG.CALITATE_AER.password
-      } : undefined,
+      timeout: policy.timeoutMs,
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
@@ -93,13 +166,17 @@ export class CalitateAerService {
         return Promise.reject(error);
       }
     );
+    applyResiliencePolicy(this.api, 'CalitateAer', policy);
   }
 
   /**
    * Get all monitoring stations in Bucharest area
    */
-  async getStations(): Promise<Station[]> {
-    try {
+  async getStations(): Promise<Sourced<Station[]>> {
+    const demo = mockDataModeResult(() => this.getMockStations());
+    if (demo) return demo;
+
+    return this.cache.swr('calitateaer:stations', CACHE_POLICIES.stations, async () => {
       const response = await this.api.get('/stations');
       const stations = response.data;
       
@@ -118,93 +195,119 @@ export class CalitateAerService {
         county: station.county,
         city: station.city
       }));
-    } catch (error) {
+    }, () => {
       console.warn('Using mock stations data due to API error');
       return this.getMockStations();
-    }
+    });
   }
 
   /**
-   * Get current air quality data for Bucharest stations
+   * Get current air quality data for Bucharest stations.
+   * Each station is cached on its own, so a station that fails keeps showing
+   * its last reading instead of disappearing. Requests go out at most
+   * `policy.concurrency` at a time.
    */
-  async getCurrentAirQuality(): Promise<AirQualityData[]> {
+  async getCurrentAirQuality(): Promise<Sourced<AirQualityData[]>> {
+    const demo = mockDataModeResult(() => this.getMockAirQuality());
+    if (demo) return demo;
+
     try {
-      const stations = await this.getStations();
-      const stationIds = stations.map((s: Station) => s.id);
+      const { data: stations } = await this.getStations();
+      const failures: string[] = [];
       
-      const promises = stationIds.map(async (stationId: number) => {
+      const promises = stations.map(async (station: Station) => {
         try {
-          const response = await this.api.get(`/measurements/station/${stationId}/current`);
-          const data = response.data;
-          
-          return {
-            stationId,
-            stationName: stations.find(s => s.id === stationId)?.name || 'Unknown',
-            timestamp: new Date().toISOString(),
-            measurements: {
-              pm25: data.pm25 || 0,
-              pm10: data.pm10 || 0,
-              no2: data.no2 || 0,
-              o3: data.o3 || 0,
-              so2: data.so2 || 0,
-              co: data.co || 0
-            },
-            aqi: this.calculateAQI(data)
-          };
+          return await this.cache.swr(
+            `calitateaer:current:${station.id}`,
+            CACHE_POLICIES.currentAirQuality,
+            async (): Promise<AirQualityData> => {
+              const response = await this.limit(() => this.api.get(`/measurements/station/${station.id}/current`));
+              const data = response.data;
+              const { measurements, quality } = validateReading(normalizeUnits(data, data.units));
+
+              return {
+                stationId: station.id,
+                stationName: station.name || 'Unknown',
+                timestamp: typeof data.timestamp === 'string' ? data.timestamp : new Date().toISOString(),
+                measurements,
+                quality,
+                aqi: indexOrNull(measurements)
+              };
+            }
+          );
         } catch (error) {
-          console.warn(`Failed to get data for station ${stationId}`);
+          console.warn(`Failed to get data for station ${station.id}`);
+          failures.push(`${station.id}: ${errorMessage(error)}`);
           return null;
         }
       });
 
-      const results = await Promise.all(promises);
-      return results.filter(result => result !== null) as AirQualityData[];
+      const results = (await Promise.all(promises)).filter(result => result !== null) as Sourced<AirQualityData>[];
+      if (results.length === 0 && failures.length > 0) {
+        throw new Error(`No station returned data (${failures.join('; ')})`);
+      }
+
+      const provenance = mergeProvenance(results.map(result => result.provenance));
+      return {
+        data: results.map(result => checkFreshness(result.data)),
+        provenance: failures.length > 0
+          ? { ...provenance, error: [provenance.error, `Missing stations ${failures.join('; ')}`].filter(Boolean).join('; ') }
+          : provenance
+      };
     } catch (error) {
       console.warn('Using mock air quality data due to API error');
-      return this.getMockAirQuality();
+      return mock(this.getMockAirQuality(), error);
     }
   }
 
   /**
-   * Get historical air quality data for a station
+   * Get historical air quality data for a station.
+   * Days are cached individually; only days missing from the cache are requested.
    */
   async getHistoricalAirQuality(
     stationId: number, 
     startDate: Date, 
     endDate: Date
-  ): Promise<HistoricalDataPoint[]> {
-    try {
-      const response = await this.api.get(`/measurements/station/${stationId}/historical`, {
-        params: {
-          startDate: startDate.toISOString().split('T')[0],
-          endDate: endDate.toISOString().split('T')[0]
-        }
-      });
-
-      return response.data.map((item: any) => ({
-        date: item.date,
-        aqi: this.calculateAQI(item),
-        pm25: item.pm25 || 0,
-        pm10: item.pm10 || 0
-      }));
-    } catch (error) {
-      console.warn('Using mock historical data due to API error');
-      return this.getMockHistoricalData();
-    }
-  }
+  ): Promise<Sourced<HistoricalDataPoint[]>> {
+    const demo = mockDataModeResult(() => this.getMockHistoricalData(stationId, startDate, endDate));
+    if (demo) return demo;
+
+    const history = await this.cache.dailySeries(
+      `calitateaer:historical:${stationId}`,
+      startDate,
+      endDate,
+      CACHE_POLICIES.historical,
+      async (spanStart, spanEnd): Promise<HistoricalDataPoint[]> => {
+        const response = await this.limit(() =>
+          this.api.get(`/measurements/station/${stationId}/historical`, {
+            params: {
+              startDate: format(spanStart, 'yyyy-MM-dd'),
+              endDate: format(spanEnd, 'yyyy-MM-dd')
+            }
+          })
+        );
 
-  /**
-   * Calculate AQI from pollutant concentrations
-   */
-  private calculateAQI(measurements: any): number {
-    const { pm25, pm10, no2, o3, so2 } = measurements;
-    
-    // Simplified AQI calculation (you should use the official EPA formula)
-    const pm25AQI = pm25 ? Math.min((pm25 / 35.4) * 100, 300) : 0;
-    const pm10AQI = pm10 ? Math.min((pm10 / 154) * 100, 300) : 0;
-    const no2AQI = no2 ? Math.min((no2 / 100) * 100, 300) : 0;
-    
-    return Math.round(Math.max(pm25AQI, pm10AQI, no2AQI));
+        return response.data.map((item: any) => {
+          const values = normalizeUnits(item, item.units);
+          return {
+            date: item.date,
+            aqi: null,
+            pm25: values.pm25 ?? null,
+            pm10: values.pm10 ?? null,
+            no2: values.no2 ?? null,
+            o3: values.o3 ?? null,
+            so2: values.so2 ?? null,
+            co: values.co ?? null
+          };
+        });
+      },
+      (spanStart, spanEnd) => {
+        console.warn('Using mock historical data due to API error');
+        return this.getMockHistoricalData(stationId, spanStart, spanEnd);
+      }
+    );
+    // Validated as a whole, since stuck runs and spikes cross the cached days
+    return { ...history, data: validateSeries(history.data) };
   }
 
   // Mock data methods
@@ -219,48 +322,30 @@ export class CalitateAerService {
   }
 
   getMockAirQuality(): AirQualityData[] {
-    const stations = this.getMockStations();
-    return stations.map(station => ({
-      stationId: station.id,
-      stationName: station.name,
-      timestamp: new Date().toISOString(),
-      measurements: {
-        pm25: Math.floor(Math.random() * 50) + 10,
-        pm10: Math.floor(Math.random() * 80) + 20,
-        no2: Math.floor(Math.random() * 60) + 15,
-        o3: Math.floor(Math.random() * 120) + 30,
-        so2: Math.floor(Math.random() * 30) + 5,
-        co: Math.floor(Math.random() * 10) + 2
-      },
-      aqi: Math.floor(Math.random() * 150) + 25
-    }));
+    const now = new Date();
+    return this.getMockStations().map(station => syntheticData.airQualityAt(station, now));
   }
 
-  getMockHistoricalData(): HistoricalDataPoint[] {
-    const days = Array.from({length: 30}, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - (29 - i));
-      return {
-        date: date.toISOString().split('T')[0],
-        aqi: 50 + Math.sin(i * 0.2) * 30 + Math.random() * 20,
-        pm25: 20 + Math.sin(i * 0.3) * 15 + Math.random() * 10,
-        pm10: 35 + Math.sin(i * 0.25) * 20 + Math.random() * 15
-      };
-    });
-    return days;
+  getMockHistoricalData(
+    stationId: number,
+    startDate: Date = resolvePresetRange('30d').start,
+    endDate: Date = new Date()
+  ): HistoricalDataPoint[] {
+    return syntheticData.historicalAirQuality(stationId, startDate, endDate);
   }
 }
 
 export class CopernicusService {
   private api: AxiosInstance;
+  private cache: ServiceCache;
 
-  constructor() {
+  constructor(cache: ServiceCache = serviceCache, policy: ResiliencePolicy = API_CONFIG.COPERNICUS.resilience) {
+    this.cache = cache;
     this.api = axios.create({
       baseURL: API_CONFIG.COPERNICUS.baseURL,
-      timeout: 15000,
+      timeout: policy.timeoutMs,
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${API_CONFIG.COPERNICUS.apiKey}`
+        'Content-Type': 'application/json'
       }
     });
 
@@ -271,13 +356,17 @@ export class CopernicusService {
         return Promise.reject(error);
       }
     );
+    applyResiliencePolicy(this.api, 'Copernicus', policy);
   }
 
   /**
    * Get current weather data for Bucharest
    */
-  async getCurrentWeather(): Promise<WeatherData> {
-    try {
+  async getCurrentWeather(): Promise<Sourced<WeatherData>> {
+    const demo = mockDataModeResult(() => this.getMockWeatherData());
+    if (demo) return demo;
+
+    return this.cache.swr('copernicus:current-weather', CACHE_POLICIES.currentWeather, async () => {
       const response = await this.api.get('/current-weather', {
         params: {
           lat: BUCHAREST_COORDS.lat,
@@ -286,31 +375,35 @@ export class CopernicusService {
             '2m_temperature', 
             '2m_relative_humidity', 
             '10m_wind_speed', 
-            'surface_pressure'
+            'surface_pressure',
+            'visibility',
+            '10m_wind_direction',
+            '10m_wind_gusts',
+            'precipitation',
+            'cloud_cover',
+            'boundary_layer_height'
           ]
         }
       });
 
-      const data = response.data;
       return {
         timestamp: new Date().toISOString(),
-        temperature: data.temperature,
-        humidity: data.humidity,
-        windSpeed: data.windSpeed,
-        pressure: data.pressure,
-        uvIndex: data.uvIndex || Math.random() * 8
+        ...weatherFields(response.data)
       };
-    } catch (error) {
+    }, () => {
       console.warn('Using mock weather data due to API error');
       return this.getMockWeatherData();
-    }
+    });
   }
 
   /**
    * Get hourly forecast for next 24 hours
    */
-  async getHourlyForecast(): Promise<WeatherData[]> {
-    try {
+  async getHourlyForecast(): Promise<Sourced<WeatherData[]>> {
+    const demo = mockDataModeResult(() => this.getMockHourlyData());
+    if (demo) return demo;
+
+    return this.cache.swr('copernicus:hourly-forecast', CACHE_POLICIES.hourlyForecast, async () => {
       const response = await this.api.get('/hourly-forecast', {
         params: {
           lat: BUCHAREST_COORDS.lat,
@@ -321,90 +414,116 @@ export class CopernicusService {
 
       return response.data.map((item: any) => ({
         timestamp: item.time,
-        temperature: item.temperature,
-        humidity: item.humidity,
-        windSpeed: item.windSpeed,
-        pressure: item.pressure,
-        uvIndex: item.uvIndex || 0
+        ...weatherFields(item)
       }));
-    } catch (error) {
+    }, () => {
       console.warn('Using mock hourly forecast due to API error');
       return this.getMockHourlyData();
-    }
+    });
   }
 
   /**
-   * Get historical climate data
+   * Get the hourly CAMS air quality forecast for Bucharest, with the AQI of
+   * every hour
    */
-  async getHistoricalClimate(startDate: Date, endDate: Date): Promise<HistoricalDataPoint[]> {
-    try {
-      const response = await this.api.get('/historical-climate', {
+  async getAirQualityForecast(hours: number = AIR_QUALITY_FORECAST_HOURS): Promise<Sourced<AirQualityForecastPoint[]>> {
+    const demo = mockDataModeResult(() => this.getMockAirQualityForecast(hours));
+    if (demo) return demo;
+
+    return this.cache.swr(`copernicus:air-quality-forecast:${hours}`, CACHE_POLICIES.airQualityForecast, async () => {
+      const response = await this.api.get('/air-quality-forecast', {
         params: {
           lat: BUCHAREST_COORDS.lat,
           lon: BUCHAREST_COORDS.lon,
-          startDate: startDate.toISOString().split('T')[0],
-          endDate: endDate.toISOString().split('T')[0]
+          hours
         }
       });
 
-      return response.data.map((item: any) => ({
-        date: item.date,
-        aqi: 0, // Not available from weather data
-        pm25: 0,
-        pm10: 0,
-        temperature: item.temperature
-      }));
-    } catch (error) {
-      console.warn('Using mock historical weather due to API error');
-      return this.getMockHistoricalWeather();
-    }
+      return response.data.map((item: any): AirQualityForecastPoint => {
+        const measurements = {
+          pm25: item.pm25 ?? null,
+          pm10: item.pm10 ?? null,
+          no2: item.no2 ?? null,
+          o3: item.o3 ?? null,
+          so2: item.so2 ?? null
+        };
+        return {
+          timestamp: item.time,
+          measurements,
+          aqi: indexOrNull(measurements, DEFAULT_AQI_SCHEME)
+        };
+      });
+    }, () => {
+      console.warn('Using mock air quality forecast due to API error');
+      return this.getMockAirQualityForecast(hours);
+    });
+  }
+
+  /**
+   * Get historical climate data, cached day by day like the air quality history
+   */
+  async getHistoricalClimate(startDate: Date, endDate: Date): Promise<Sourced<HistoricalDataPoint[]>> {
+    const demo = mockDataModeResult(() => this.getMockHistoricalWeather(startDate, endDate));
+    if (demo) return demo;
+
+    return this.cache.dailySeries(
+      'copernicus:historical-climate',
+      startDate,
+      endDate,
+      CACHE_POLICIES.historical,
+      async (spanStart, spanEnd): Promise<HistoricalDataPoint[]> => {
+        const response = await this.api.get('/historical-climate', {
+          params: {
+            lat: BUCHAREST_COORDS.lat,
+            lon: BUCHAREST_COORDS.lon,
+            startDate: format(spanStart, 'yyyy-MM-dd'),
+            endDate: format(spanEnd, 'yyyy-MM-dd'),
+            // The days are local ones, like the days of the cache
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+          }
+        });
+
+        return response.data.map((item: any) => ({
+          date: item.date,
+          aqi: null, // Not available from weather data
+          pm25: null,
+          pm10: null,
+          temperature: item.temperature,
+          humidity: item.humidity,
+          windSpeed: item.windSpeed,
+          pressure: item.pressure ?? undefined,
+          windDirection: item.windDirection ?? undefined,
+          windGusts: item.windGusts ?? undefined,
+          precipitation: item.precipitation ?? undefined,
+          cloudCover: item.cloudCover ?? undefined,
+          boundaryLayerHeight: item.boundaryLayerHeight ?? undefined
+        }));
+      },
+      (spanStart, spanEnd) => {
+        console.warn('Using mock historical weather due to API error');
+        return this.getMockHistoricalWeather(spanStart, spanEnd);
+      }
+    );
   }
 
   // Mock data methods
   getMockWeatherData(): WeatherData {
-    const now = new Date();
-    const hour = now.getHours();
-    
-    return {
-      timestamp: now.toISOString(),
-      temperature: 18 + Math.sin((hour - 6) * Math.PI / 12) * 8 + Math.random() * 2,
-      humidity: 45 + Math.random() * 30,
-      windSpeed: 5 + Math.random() * 10,
-      pressure: 1010 + Math.random() * 20,
-      uvIndex: Math.max(0, Math.sin((hour - 6) * Math.PI / 12) * 8)
-    };
+    return syntheticData.weatherAt(new Date());
   }
 
   getMockHourlyData(): WeatherData[] {
-    const hours = Array.from({length: 24}, (_, i) => {
-      const time = new Date();
-      time.setHours(time.getHours() + i);
-      
-      return {
-        timestamp: time.toISOString(),
-        temperature: 18 + Math.sin((i - 6) * Math.PI / 12) * 8 + Math.random() * 2,
-        humidity: 45 + Math.random() * 30,
-        windSpeed: 5 + Math.random() * 10,
-        pressure: 1010 + Math.random() * 20,
-        uvIndex: Math.max(0, Math.sin((i - 6) * Math.PI / 12) * 8)
-      };
-    });
-    return hours;
+    return syntheticData.hourlyForecast(new Date(), 24);
   }
 
-  getMockHistoricalWeather(): HistoricalDataPoint[] {
-    const days = Array.from({length: 30}, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - (29 - i));
-      return {
-        date: date.toISOString().split('T')[0],
-        aqi: 0,
-        pm25: 0,
-        pm10: 0,
-        temperature: 15 + Math.sin(i * 0.2) * 10 + Math.random() * 5
-      };
-    });
-    return days;
+  getMockAirQualityForecast(hours: number = AIR_QUALITY_FORECAST_HOURS): AirQualityForecastPoint[] {
+    return syntheticData.airQualityForecast(new Date(), hours);
+  }
+
+  getMockHistoricalWeather(
+    startDate: Date = resolvePresetRange('30d').start,
+    endDate: Date = new Date()
+  ): HistoricalDataPoint[] {
+    return syntheticData.historicalWeather(startDate, endDate);
   }
 }
 
@@ -413,35 +532,54 @@ export class DataService {
   private calitateAer: CalitateAerService;
   private copernicus: CopernicusService;
 
-  constructor() {
-    this.calitateAer = new CalitateAerService();
-    this.copernicus = new CopernicusService();
+  constructor(cache: ServiceCache = serviceCache) {
+    this.calitateAer = new CalitateAerService(cache);
+    this.copernicus = new CopernicusService(cache);
   }
 
-  async getAllDashboardData() {
+  async getAllDashboardData(
+    range: DateRange = resolvePresetRange('30d')
+  ): Promise<DashboardData> {
     try {
       const [
         airQualityData,
         currentWeather,
         hourlyForecast,
+        airQualityForecast,
         stations,
-        historicalAirQuality
+        historicalAirQuality,
+        historicalWeather
       ] = await Promise.all([
         this.calitateAer.getCurrentAirQuality(),
         this.copernicus.getCurrentWeather(),
         this.copernicus.getHourlyForecast(),
+        this.copernicus.getAirQualityForecast(),
         this.calitateAer.getStations(),
-        this.getHistoricalData()
+        this.getHistoricalData(range),
+        this.copernicus.getHistoricalClimate(range.start, range.end)
       ]);
 
+      const provenance: DashboardProvenance = {
+        airQuality: airQualityData.provenance,
+        currentWeather: currentWeather.provenance,
+        hourlyForecast: hourlyForecast.provenance,
+        airQualityForecast: airQualityForecast.provenance,
+        stations: stations.provenance,
+        historical: historicalAirQuality.provenance,
+        historicalWeather: historicalWeather.provenance
+      };
+
       return {
-        airQuality: airQualityData,
+        airQuality: airQualityData.data,
         weather: {
-          current: currentWeather,
-          hourly: hourlyForecast
+          current: currentWeather.data,
+          hourly: hourlyForecast.data
         },
-        stations,
-        historical: historicalAirQuality,
+        airQualityForecast: airQualityForecast.data,
+        stations: stations.data,
+        historical: historicalAirQuality.data,
+        historicalWeather: historicalWeather.data,
+        provenance,
         lastUpdated: new Date()
       };
     } catch (error) {
@@ -450,47 +588,98 @@ export class DataService {
     }
   }
 
-  private async getHistoricalData(): Promise<HistoricalDataPoint[]> {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - 30);
+  /**
+   * Get the historical series of a single station
+   */
+  async getStationHistory(stationId: number, { start, end }: DateRange): Promise<Sourced<HistoricalDataPoint[]>> {
+    return this.calitateAer.getHistoricalAirQuality(stationId, start, end);
+  }
+
+  /**
+   * Histories of every station over `range`, keyed by station id, for the
+   * series that average the whole network. A station whose history fails is
+   * left out rather than failing the others.
+   */
+  async getNetworkHistory(range: DateRange): Promise<Record<number, HistoricalDataPoint[]>> {
+    const { data: stations } = await this.calitateAer.getStations();
+    const histories = await Promise.allSettled(stations.map(station => this.getStationHistory(station.id, range)));
+    return Object.fromEntries(
+      stations.flatMap((station, i) => {
+        const result = histories[i];
+        return result.status === 'fulfilled' ? [[station.id, result.value.data]] : [];
+      })
+    );
+  }
+
+  /**
+   * Get the hourly weather history, e.g. to train the nowcast on
+   */
+  async getHistoricalWeather({ start, end }: DateRange): Promise<Sourced<HistoricalDataPoint[]>> {
+    return this.copernicus.getHistoricalClimate(start, end);
+  }
+
+  /**
+   * Air quality and weather history of the period just before `range`, the
+   * baseline of the trend indicators. Without a station, the history follows
+   * the same station as the overview chart.
+   */
+  async getPreviousPeriod(
+    range: DateRange,
+    stationId: number | null = null
+  ): Promise<{ historical: Sourced<HistoricalDataPoint[]>; historicalWeather: Sourced<HistoricalDataPoint[]> }> {
+    const previous = previousPeriod(range);
+    const [historical, historicalWeather] = await Promise.all([
+      stationId === null ? this.getHistoricalData(previous) : this.getStationHistory(stationId, previous),
+      this.copernicus.getHistoricalClimate(previous.start, previous.end),
+    ]);
+    return { historical, historicalWeather };
+  }
 
+  private async getHistoricalData({ start, end }: DateRange): Promise<Sourced<HistoricalDataPoint[]>> {
+    const mockStationId = this.calitateAer.getMockStations()[0].id;
     try {
       // Get historical data from the first available station
-      const stations = await this.calitateAer.getStations();
+      const { data: stations } = await this.calitateAer.getStations();
       if (stations.length > 0) {
         return await this.calitateAer.getHistoricalAirQuality(
           stations[0].id,
-          startDate,
-          endDate
+          start,
+          end
         );
       }
-      return this.calitateAer.getMockHistoricalData();
+      return mock(this.calitateAer.getMockHistoricalData(mockStationId, start, end), new Error('No stations available'));
     } catch (error) {
-      return this.calitateAer.getMockHistoricalData();
+      return mock(this.calitateAer.getMockHistoricalData(mockStationId, start, end), error);
     }
   }
 
+  /**
+   * True when any part of the dashboard is served from mock data
+   */
+  static usesMockData(provenance: Partial<DashboardProvenance>): boolean {
+    return Object.values(provenance).some(
+      (item?: Provenance) => item?.source === 'mock'
+    );
+  }
+
   // Utility methods
-  static calculateAverageAQI(airQualityData: AirQualityData[]): number {
-    if (airQualityData.length === 0) return 0;
-    const sum = airQualityData.reduce((acc, station) => acc + station.aqi, 0);
-    return sum / airQualityData.length;
+  /**
+   * Mean AQI of the stations that have one; null when none has, so that an
+   * outage does not pass for clean air
+   */
+  static calculateAverageAQI(airQualityData: Array<{ aqi: number | null }>): number | null {
+    const values = airQualityData
+      .map(station => station.aqi)
+      .filter((aqi): aqi is number => aqi !== null);
+    if (values.length === 0) return null;
+    return values.reduce((acc, aqi) => acc + aqi, 0) / values.length;
   }
 
-  static getAQILevel(aqi: number): string {
-    if (aqi <= 50) return 'Bună';
-    if (aqi <= 100) return 'Moderată';
-    if (aqi <= 150) return 'Nesănătoasă pentru grupuri sensibile';
-    if (aqi <= 200) return 'Nesănătoasă';
-    return 'Foarte nesănătoasă';
+  static getAQILevel(aqi: number, schemeId: AQISchemeId = DEFAULT_AQI_SCHEME): string {
+    return getAQILevel(aqi, schemeId).label;
   }
 
-  static getAQIColor(aqi: number): string {
-    if (aqi <= 50) return '#4ade80';
-    if (aqi <= 100) return '#facc15';
-    if (aqi <= 150) return '#fb923c';
-    if (aqi <= 200) return '#ef4444';
-    return '#991b1b';
+  static getAQIColor(aqi: number, schemeId: AQISchemeId = DEFAULT_AQI_SCHEME): string {
+    return getAQILevel(aqi, schemeId).color;
   }
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { calculateAQI, calculateSubIndex, getAQILevel } from './aqi';
+
+describe('calculateSubIndex', () => {
+  it('interpolates inside an EPA breakpoint band', () => {
+    // PM2.5 35.4 μg/m³ is the top of the "Moderate" band
+    expect(calculateSubIndex('pm25', 35.4, 'epa')).toBeCloseTo(100);
+    expect(calculateSubIndex('pm10', 154, 'epa')).toBeCloseTo(100);
+  });
+
+  it('converts gases to ppb for the EPA tables', () => {
+    // 53 ppb NO2 ≈ 99.7 μg/m³ at 25 °C, the top of the "Good" band
+    expect(calculateSubIndex('no2', 99.7, 'epa')).toBeCloseTo(50, 0);
+  });
+
+  it('ignores pollutants the scheme does not index', () => {
+    expect(calculateSubIndex('co', 5, 'eaqi')).toBeNull();
+    expect(calculateSubIndex('pm25', undefined, 'epa')).toBeNull();
+  });
+
+  it('caps values above the last band at the scheme maximum', () => {
+    expect(calculateSubIndex('pm10', 5000, 'eaqi')).toBe(6);
+  });
+});
+
+describe('calculateAQI', () => {
+  it('reports the worst sub-index and its pollutant', () => {
+    const result = calculateAQI(
+      { pm25: 5, pm10: 20, no2: 20, o3: 180, so2: 5, co: 0.5 },
+      'epa'
+    );
+
+    expect(result.dominantPollutant).toBe('o3');
+    expect(result.aqi).toBeGreaterThan(100);
+    expect(Object.keys(result.subIndices)).toHaveLength(6);
+  });
+
+  it('returns 0 when nothing can be indexed', () => {
+    expect(calculateAQI({}, 'ro')).toEqual({
+      aqi: 0,
+      subIndices: {},
+      dominantPollutant: null,
+    });
+  });
+});
+
+describe('getAQILevel', () => {
+  it('maps the index to the level of the selected scheme', () => {
+    expect(getAQILevel(42, 'epa').label).toBe('Bună');
+    expect(getAQILevel(3.5, 'eaqi').label).toBe('Slabă');
+    expect(getAQILevel(5.5, 'ro').label).toBe('Foarte rău');
+  });
+});
@@ -0,0 +1,316 @@
+// src/services/aqi.ts
+import { formatDecimal, messages } from '../i18n';
+import { AirQualityMeasurement } from '../types';
+import { ConcentrationUnit, MEASUREMENT_UNITS, convert } from './units';
+
+export type Pollutant = keyof AirQualityMeasurement;
+
+export type AQISchemeId = 'epa' | 'eaqi' | 'ro';
+
+export interface AQILevel {
+  /** Upper bound (inclusive) of the index range covered by this level */
+  max: number;
+  /** 0 for the best level, increasing with each worse level */
+  severity: number;
+  label: string;
+  color: string;
+  health: string;
+  sensitiveGroups: string;
+}
+
+export interface AQIBreakpoint {
+  cLow: number;
+  cHigh: number;
+  iLow: number;
+  iHigh: number;
+}
+
+export interface AQIScheme {
+  id: AQISchemeId;
+  name: string;
+  /** Highest index value the scale can report */
+  maxIndex: number;
+  /** Decimals used when displaying the index */
+  decimals: number;
+  levels: AQILevel[];
+  /**
+   * Breakpoints in the scheme's native units. Measurements are stored in
+   * MEASUREMENT_UNITS and converted to `units` where those differ.
+   */
+  breakpoints: Partial<Record<Pollutant, AQIBreakpoint[]>>;
+  units: Partial<Record<Pollutant, ConcentrationUnit>>;
+}
+
+export interface AQIResult {
+  aqi: number;
+  subIndices: Partial<Record<Pollutant, number>>;
+  dominantPollutant: Pollutant | null;
+}
+
+export const POLLUTANTS: Pollutant[] = ['pm25', 'pm10', 'no2', 'o3', 'so2', 'co'];
+
+export const POLLUTANT_LABELS: Record<Pollutant, string> = {
+  pm25: 'PM2.5',
+  pm10: 'PM10',
+  no2: 'NO₂',
+  o3: 'O₃',
+  so2: 'SO₂',
+  co: 'CO',
+};
+
+export const DEFAULT_AQI_SCHEME: AQISchemeId = 'epa';
+
+/**
+ * Build breakpoints for categorical indices (EAQI, Romanian index) where band
+ * `k` covers the index range [k - 1, k].
+ */
+const categoricalBreakpoints = (limits: number[]): AQIBreakpoint[] =>
+  limits.slice(1).map((cHigh, i) => ({
+    cLow: limits[i],
+    cHigh,
+    iLow: i,
+    iHigh: i + 1,
+  }));
+
+/** Level names and advice come from the catalog of the current locale */
+const localizedLevels = (
+  schemeId: AQISchemeId,
+  levels: Array<Omit<AQILevel, 'label' | 'health' | 'sensitiveGroups'>>
+): AQILevel[] =>
+  levels.map((level, i) => ({
+    ...level,
+    get label() {
+      return messages().aqi.levels[schemeId][i].label;
+    },
+    get health() {
+      return messages().aqi.levels[schemeId][i].health;
+    },
+    get sensitiveGroups() {
+      return messages().aqi.levels[schemeId][i].sensitiveGroups;
+    },
+  }));
+
+const epaBreakpoints = (
+  rows: Array<[number, number, number, number]>
+): AQIBreakpoint[] =>
+  rows.map(([cLow, cHigh, iLow, iHigh]) => ({ cLow, cHigh, iLow, iHigh }));
+
+const EPA: AQIScheme = {
+  id: 'epa',
+  get name() {
+    return messages().aqi.schemes.epa;
+  },
+  maxIndex: 500,
+  decimals: 0,
+  levels: localizedLevels('epa', [
+    { max: 50, severity: 0, color: '#4ade80' },
+    { max: 100, severity: 1, color: '#facc15' },
+    { max: 150, severity: 2, color: '#fb923c' },
+    { max: 200, severity: 3, color: '#ef4444' },
+    { max: 300, severity: 4, color: '#991b1b' },
+    { max: Infinity, severity: 5, color: '#7e0023' },
+  ]),
+  breakpoints: {
+    // μg/m³, 24h (2024 revision)
+    pm25: epaBreakpoints([
+      [0, 9.0, 0, 50],
+      [9.1, 35.4, 51, 100],
+      [35.5, 55.4, 101, 150],
+      [55.5, 125.4, 151, 200],
+      [125.5, 225.4, 201, 300],
+      [225.5, 325.4, 301, 500],
+    ]),
+    // μg/m³, 24h
+    pm10: epaBreakpoints([
+      [0, 54, 0, 50],
+      [55, 154, 51, 100],
+      [155, 254, 101, 150],
+      [255, 354, 151, 200],
+      [355, 424, 201, 300],
+      [425, 604, 301, 500],
+    ]),
+    // ppb, 1h
+    no2: epaBreakpoints([
+      [0, 53, 0, 50],
+      [54, 100, 51, 100],
+      [101, 360, 101, 150],
+      [361, 649, 151, 200],
+      [650, 1249, 201, 300],
+      [1250, 2049, 301, 500],
+    ]),
+    // ppb, 8h (1h values above 300)
+    o3: epaBreakpoints([
+      [0, 54, 0, 50],
+      [55, 70, 51, 100],
+      [71, 85, 101, 150],
+      [86, 105, 151, 200],
+      [106, 200, 201, 300],
+      [405, 604, 301, 500],
+    ]),
+    // ppb, 1h
+    so2: epaBreakpoints([
+      [0, 35, 0, 50],
+      [36, 75, 51, 100],
+      [76, 185, 101, 150],
+      [186, 304, 151, 200],
+      [305, 604, 201, 300],
+      [605, 1004, 301, 500],
+    ]),
+    // ppm, 8h
+    co: epaBreakpoints([
+      [0, 4.4, 0, 50],
+      [4.5, 9.4, 51, 100],
+      [9.5, 12.4, 101, 150],
+      [12.5, 15.4, 151, 200],
+      [15.5, 30.4, 201, 300],
+      [30.5, 50.4, 301, 500],
+    ]),
+  },
+  units: { pm25: 'μg/m³', pm10: 'μg/m³', no2: 'ppb', o3: 'ppb', so2: 'ppb', co: 'ppm' },
+};
+
+const EAQI: AQIScheme = {
+  id: 'eaqi',
+  get name() {
+    return messages().aqi.schemes.eaqi;
+  },
+  maxIndex: 6,
+  decimals: 1,
+  levels: localizedLevels('eaqi', [
+    { max: 1, severity: 0, color: '#50f0e6' },
+    { max: 2, severity: 1, color: '#50ccaa' },
+    { max: 3, severity: 2, color: '#f0e641' },
+    { max: 4, severity: 3, color: '#ff5050' },
+    { max: 5, severity: 4, color: '#960032' },
+    { max: Infinity, severity: 5, color: '#7d2181' },
+  ]),
+  // μg/m³, upper limits of each of the six EEA bands
+  breakpoints: {
+    pm25: categoricalBreakpoints([0, 10, 20, 25, 50, 75, 800]),
+    pm10: categoricalBreakpoints([0, 20, 40, 50, 100, 150, 1200]),
+    no2: categoricalBreakpoints([0, 40, 90, 120, 230, 340, 1000]),
+    o3: categoricalBreakpoints([0, 50, 100, 130, 240, 380, 800]),
+    so2: categoricalBreakpoints([0, 100, 200, 350, 500, 750, 1250]),
+  },
+  units: MEASUREMENT_UNITS,
+};
+
+const RO: AQIScheme = {
+  id: 'ro',
+  get name() {
+    return messages().aqi.schemes.ro;
+  },
+  maxIndex: 6,
+  decimals: 1,
+  levels: localizedLevels('ro', [
+    { max: 1, severity: 0, color: '#00e400' },
+    { max: 2, severity: 1, color: '#92d050' },
+    { max: 3, severity: 2, color: '#ffff00' },
+    { max: 4, severity: 3, color: '#ffc000' },
+    { max: 5, severity: 4, color: '#ff0000' },
+    { max: Infinity, severity: 5, color: '#7030a0' },
+  ]),
+  // μg/m³ (CO in mg/m³), upper limits of the six national index bands
+  breakpoints: {
+    pm25: categoricalBreakpoints([0, 10, 20, 25, 50, 75, 800]),
+    pm10: categoricalBreakpoints([0, 10, 20, 30, 50, 100, 1200]),
+    no2: categoricalBreakpoints([0, 50, 100, 140, 200, 400, 1000]),
+    o3: categoricalBreakpoints([0, 40, 80, 120, 180, 240, 800]),
+    so2: categoricalBreakpoints([0, 50, 75, 125, 350, 500, 1250]),
+    co: categoricalBreakpoints([0, 3, 5, 7, 10, 15, 50]),
+  },
+  units: MEASUREMENT_UNITS,
+};
+
+export const AQI_SCHEMES: Record<AQISchemeId, AQIScheme> = {
+  epa: EPA,
+  eaqi: EAQI,
+  ro: RO,
+};
+
+export const getAQIScheme = (schemeId: AQISchemeId = DEFAULT_AQI_SCHEME): AQIScheme =>
+  AQI_SCHEMES[schemeId] || AQI_SCHEMES[DEFAULT_AQI_SCHEME];
+
+/**
+ * Linear interpolation of a concentration inside its breakpoint band.
+ * Returns null when the scheme does not index the pollutant or the value is
+ * missing.
+ */
+export function calculateSubIndex(
+  pollutant: Pollutant,
+  concentration: number | null | undefined,
+  schemeId: AQISchemeId = DEFAULT_AQI_SCHEME
+): number | null {
+  const scheme = getAQIScheme(schemeId);
+  const breakpoints = scheme.breakpoints[pollutant];
+  if (!breakpoints || concentration == null || !isFinite(concentration) || concentration < 0) {
+    return null;
+  }
+
+  // Tables in ppb/ppm refer to 25 °C and 1 atm, the default conditions
+  const value = convert(
+    pollutant,
+    { value: concentration, unit: MEASUREMENT_UNITS[pollutant] },
+    scheme.units[pollutant] ?? MEASUREMENT_UNITS[pollutant]
+  );
+  if (value === null) return null;
+  const band = breakpoints.find(bp => value <= bp.cHigh);
+  if (!band) {
+    return scheme.maxIndex;
+  }
+
+  // Values falling in the gap between two bands are clamped to the lower edge
+  const clamped = Math.max(value, band.cLow);
+  return ((band.iHigh - band.iLow) / (band.cHigh - band.cLow)) * (clamped - band.cLow) + band.iLow;
+}
+
+/**
+ * Overall index = worst pollutant sub-index.
+ */
+export function calculateAQI(
+  measurements: Partial<Record<Pollutant, number | null>>,
+  schemeId: AQISchemeId = DEFAULT_AQI_SCHEME
+): AQIResult {
+  const scheme = getAQIScheme(schemeId);
+  const subIndices: Partial<Record<Pollutant, number>> = {};
+  let dominantPollutant: Pollutant | null = null;
+
+  POLLUTANTS.forEach(pollutant => {
+    const subIndex = calculateSubIndex(pollutant, measurements[pollutant], schemeId);
+    if (subIndex === null) return;
+
+    subIndices[pollutant] = subIndex;
+    if (dominantPollutant === null || subIndex > (subIndices[dominantPollutant] as number)) {
+      dominantPollutant = pollutant;
+    }
+  });
+
+  const aqi = dominantPollutant ? (subIndices[dominantPollutant] as number) : 0;
+  const factor = Math.pow(10, scheme.decimals);
+
+  return {
+    aqi: Math.round(aqi * factor) / factor,
+    subIndices,
+    dominantPollutant,
+  };
+}
+
+/**
+ * Overall index, or null when no pollutant can be indexed, so that missing
+ * data never reads as the 0 of clean air.
+ */
+export function indexOrNull(
+  measurements: Partial<Record<Pollutant, number | null>>,
+  schemeId: AQISchemeId = DEFAULT_AQI_SCHEME
+): number | null {
+  const result = calculateAQI(measurements, schemeId);
+  return result.dominantPollutant === null ? null : result.aqi;
+}
+
+export function getAQILevel(aqi: number, schemeId: AQISchemeId = DEFAULT_AQI_SCHEME): AQILevel {
+  const { levels } = getAQIScheme(schemeId);
+  return levels.find(level => aqi <= level.max) || levels[levels.length - 1];
+}
+
+export const formatAQI = (aqi: number | null, schemeId: AQISchemeId = DEFAULT_AQI_SCHEME): string =>
+  aqi === null ? '–' : formatDecimal(aqi, getAQIScheme(schemeId).decimals);
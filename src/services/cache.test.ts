@@ -0,0 +1,161 @@
+import { CACHE_DURATIONS, ServiceCache } from './cache';
+
+const { MINUTE, HOUR, DAY } = CACHE_DURATIONS;
+const policy = { ttl: 5 * MINUTE, maxStale: HOUR };
+
+describe('ServiceCache.swr', () => {
+  let cache: ServiceCache;
+
+  beforeEach(() => {
+    localStorage.clear();
+    cache = new ServiceCache(localStorage, 'test:');
+  });
+
+  it('serves fresh entries without calling the upstream', async () => {
+    const request = jest.fn().mockResolvedValue(['live']);
+    await cache.swr('key', policy, request);
+    const second = await cache.swr('key', policy, request);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(second.provenance.source).toBe('cache');
+    expect(second.data).toEqual(['live']);
+  });
+
+  it('returns stale entries and refreshes them in the background', async () => {
+    cache.set('key', 'old', Date.now() - 10 * MINUTE);
+    const request = jest.fn().mockResolvedValue('new');
+
+    const result = await cache.swr('key', policy, request);
+    expect(result.data).toBe('old');
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(cache.get('key')?.data).toBe('new');
+  });
+
+  it('prefers an expired real reading over mock data when the upstream fails', async () => {
+    cache.set('key', 'real', Date.now() - 2 * DAY);
+    const fallback = jest.fn().mockReturnValue('mock');
+
+    const result = await cache.swr('key', policy, () => Promise.reject(new Error('down')), fallback);
+
+    expect(result.data).toBe('real');
+    expect(result.provenance).toMatchObject({ source: 'cache', error: 'down' });
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it('persists entries across instances', async () => {
+    await cache.swr('key', policy, () => Promise.resolve(42));
+    const reloaded = new ServiceCache(localStorage, 'test:');
+
+    expect(reloaded.get('key')?.data).toBe(42);
+  });
+});
+
+describe('ServiceCache.dailySeries', () => {
+  const seriesPolicy = {
+    closedDay: { ttl: 30 * DAY, maxStale: DAY },
+    openDay: { ttl: 15 * MINUTE, maxStale: HOUR },
+    recentDays: 1,
+    fullDayPoints: 23,
+  };
+  const now = new Date(2026, 9, 19, 12).getTime();
+  const hourlyPoints = (start: Date, end: Date) => {
+    const points = [];
+    for (let t = start.getTime(); t <= end.getTime(); t += HOUR) {
+      points.push({ date: new Date(t).toISOString() });
+    }
+    return points;
+  };
+
+  it('only requests the days missing from the cache', async () => {
+    const cache = new ServiceCache(null);
+    const requestSpan = jest.fn((start: Date, end: Date) => Promise.resolve(hourlyPoints(start, end)));
+
+    await cache.dailySeries(
+      'hist',
+      new Date(2026, 9, 15),
+      new Date(2026, 9, 17, 23),
+      seriesPolicy,
+      requestSpan,
+      () => [],
+      now
+    );
+    requestSpan.mockClear();
+
+    const widened = await cache.dailySeries(
+      'hist',
+      new Date(2026, 9, 12),
+      new Date(2026, 9, 17, 23),
+      seriesPolicy,
+      requestSpan,
+      () => [],
+      now
+    );
+
+    expect(requestSpan).toHaveBeenCalledTimes(1);
+    expect(requestSpan.mock.calls[0][0]).toEqual(new Date(2026, 9, 12));
+    expect(requestSpan.mock.calls[0][1]).toEqual(new Date(new Date(2026, 9, 15).getTime() - 1));
+    expect(widened.data).toHaveLength(6 * 24);
+  });
+
+  it('refetches empty, short and recent days instead of closing them', async () => {
+    const cache = new ServiceCache(null);
+    // The 14th is empty, the 16th has only its first five hours
+    const upstream = (start: Date, end: Date) =>
+      hourlyPoints(start, end).filter(point => {
+        const date = new Date(point.date);
+        return date.getDate() !== 14 && (date.getDate() !== 16 || date.getHours() < 5);
+      });
+    const requestSpan = jest.fn((start: Date, end: Date) => Promise.resolve(upstream(start, end)));
+    const load = (at: number) =>
+      cache.dailySeries('hist', new Date(2026, 9, 14), new Date(2026, 9, 18, 23), seriesPolicy, requestSpan, () => [], at);
+
+    await load(now);
+    requestSpan.mockClear();
+    const later = await load(now + 2 * HOUR);
+
+    // The complete 15th and 17th are closed; the 14th, the short 16th and the recent 18th are asked for again
+    const requested = requestSpan.mock.calls.map(([start]) => start.getDate());
+    expect(requested).toEqual([14, 16, 18]);
+    expect(later.data).toHaveLength(24 + 5 + 24 + 24);
+  });
+});
+
+describe('ServiceCache eviction', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps at most maxEntries in storage, evicting those stored longest ago', () => {
+    const cache = new ServiceCache(localStorage, 'test:', 2);
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 3000);
+    cache.set('c', 3, 2000);
+
+    const reloaded = new ServiceCache(localStorage, 'test:', 2);
+    expect(reloaded.get('a')).toBeUndefined();
+    expect(reloaded.get('b')?.data).toBe(2);
+    expect(reloaded.get('c')?.data).toBe(3);
+  });
+
+  it('makes room when the quota is exceeded', () => {
+    localStorage.setItem('test:old', JSON.stringify({ data: 0, storedAt: 1000 }));
+    localStorage.setItem('test:recent', JSON.stringify({ data: 1, storedAt: 2000 }));
+    const setItem = Storage.prototype.setItem;
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (this.length >= 2) throw new DOMException('Storage is full', 'QuotaExceededError');
+      setItem.call(this, key, value);
+    });
+
+    new ServiceCache(localStorage, 'test:').set('new', 2, 3000);
+
+    expect(localStorage.getItem('test:old')).toBeNull();
+    expect(localStorage.getItem('test:recent')).not.toBeNull();
+    expect(JSON.parse(localStorage.getItem('test:new') as string).data).toBe(2);
+  });
+});
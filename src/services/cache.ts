@@ -0,0 +1,373 @@
+// src/services/cache.ts
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { DataSource, Provenance, Sourced } from '../types';
+import { browserStorage } from './storage';
+
+export interface CachePolicy {
+  /** How long an entry is served without contacting the upstream */
+  ttl: number;
+  /**
+   * How long a stale entry is still served while it is revalidated in the
+   * background. Older entries are only used when the upstream fails.
+   */
+  maxStale: number;
+}
+
+export interface DailySeriesPolicy {
+  /** Policy for days that are over and will not change anymore */
+  closedDay: CachePolicy;
+  /**
+   * Policy for today, which keeps receiving new points, and for days that may
+   * still be filled in: recent days and days with too few points
+   */
+  openDay: CachePolicy;
+  /** Days before today upstreams may still deliver late points for */
+  recentDays: number;
+  /** Points a day needs to count as complete */
+  fullDayPoints: number;
+}
+
+interface CacheEntry<T> {
+  data: T;
+  storedAt: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CACHE_DURATIONS = { MINUTE, HOUR, DAY };
+
+const DEFAULT_NAMESPACE = 'idk-dashboard:cache:';
+
+// A few months of daily history for every station, well under the quota
+const DEFAULT_MAX_ENTRIES = 2000;
+
+const SOURCE_RANK: Record<DataSource, number> = { live: 0, cache: 1, mock: 2 };
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Combine the provenance of several partial results: the least trustworthy
+ * source wins and all errors are kept.
+ */
+export function mergeProvenance(items: Provenance[]): Provenance {
+  if (items.length === 0) {
+    return { source: 'live', fetchedAt: new Date().toISOString() };
+  }
+
+  const source = items.reduce<DataSource>(
+    (worst, item) => (SOURCE_RANK[item.source] > SOURCE_RANK[worst] ? item.source : worst),
+    'live'
+  );
+  const fetchedAt = items.map(item => item.fetchedAt).sort()[0];
+  const errors = Array.from(new Set(items.map(item => item.error).filter(Boolean)));
+
+  return {
+    source,
+    fetchedAt,
+    ...(errors.length > 0 && { error: errors.join('; ') }),
+  };
+}
+
+/**
+ * Key/value store over localStorage. Entries survive reloads so a page opened
+ * while an upstream is down still shows the last real readings. At most
+ * `maxEntries` are persisted; beyond that, or when the quota is exceeded,
+ * the entries stored longest ago are evicted first.
+ */
+export class ServiceCache {
+  private storage: Storage | null;
+  private namespace: string;
+  private maxEntries: number;
+  private memory = new Map<string, CacheEntry<unknown>>();
+  private inflight = new Map<string, Promise<unknown>>();
+  // storedAt of the persisted entries by key, read from storage on first write
+  private persisted: Map<string, number> | null = null;
+
+  constructor(storage?: Storage | null, namespace: string = DEFAULT_NAMESPACE, maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.storage = storage !== undefined ? storage : browserStorage();
+    this.namespace = namespace;
+    this.maxEntries = maxEntries;
+  }
+
+  get<T>(key: string): CacheEntry<T> | undefined {
+    const cached = this.memory.get(key) as CacheEntry<T> | undefined;
+    if (cached || !this.storage) return cached;
+
+    try {
+      const raw = this.storage.getItem(this.namespace + key);
+      if (!raw) return undefined;
+
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  set<T>(key: string, data: T, storedAt: number = Date.now()): void {
+    const entry: CacheEntry<T> = { data, storedAt };
+    this.memory.set(key, entry);
+    if (!this.storage) return;
+
+    const persisted = this.persistedEntries();
+    const raw = JSON.stringify(entry);
+    for (;;) {
+      try {
+        this.storage.setItem(this.namespace + key, raw);
+        persisted.set(key, storedAt);
+        break;
+      } catch (error) {
+        // Quota exceeded: make room, or keep the entry in memory only
+        if (this.evictOldest(Math.ceil(persisted.size / 4), key) === 0) {
+          console.warn(`Cache entry ${key} could not be persisted:`, errorMessage(error));
+          return;
+        }
+      }
+    }
+    this.evictOldest(persisted.size - this.maxEntries, key);
+  }
+
+  clear(): void {
+    this.memory.clear();
+    this.persisted = null;
+    if (!this.storage) return;
+
+    this.storageKeys().forEach(key => this.storage?.removeItem(key));
+  }
+
+  /**
+   * Run `request` once per key at a time; concurrent callers share the
+   * same promise.
+   */
+  dedupe<T>(key: string, request: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key) as Promise<T> | undefined;
+    if (pending) return pending;
+
+    const promise = request().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Stale-while-revalidate lookup.
+   *
+   * - fresh entry: served from cache
+   * - stale entry within `maxStale`: served from cache, refreshed in the background
+   * - otherwise: fetched; on failure the last cached value (of any age) is
+   *   preferred over `fallback`
+   *
+   * Without a fallback and without a cached value the request error is thrown.
+   */
+  async swr<T>(
+    key: string,
+    policy: CachePolicy,
+    request: () => Promise<T>,
+    fallback?: (error: unknown) => T,
+    now: number = Date.now()
+  ): Promise<Sourced<T>> {
+    const entry = this.get<T>(key);
+    const age = entry ? now - entry.storedAt : Infinity;
+
+    if (entry && age < policy.ttl) {
+      return this.fromCache(entry);
+    }
+
+    if (entry && age < policy.ttl + policy.maxStale) {
+      this.revalidate(key, request);
+      return this.fromCache(entry);
+    }
+
+    try {
+      const data = await this.dedupe(key, request);
+      this.set(key, data);
+      return { data, provenance: { source: 'live', fetchedAt: new Date().toISOString() } };
+    } catch (error) {
+      if (entry) {
+        return this.fromCache(entry, error);
+      }
+      if (fallback) {
+        return {
+          data: fallback(error),
+          provenance: {
+            source: 'mock',
+            fetchedAt: new Date().toISOString(),
+            error: errorMessage(error),
+          },
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cache a time series day by day so that widening a range only requests the
+   * days that are missing. Consecutive missing days are fetched in one request.
+   */
+  async dailySeries<T extends { date: string }>(
+    keyPrefix: string,
+    start: Date,
+    end: Date,
+    policy: DailySeriesPolicy,
+    requestSpan: (spanStart: Date, spanEnd: Date) => Promise<T[]>,
+    fallback: (spanStart: Date, spanEnd: Date) => T[],
+    now: number = Date.now()
+  ): Promise<Sourced<T[]>> {
+    const days: Date[] = [];
+    for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+      days.push(day);
+    }
+
+    const dayKey = (day: Date) => `${keyPrefix}:${format(day, 'yyyy-MM-dd')}`;
+    // Empty days are never stored and short ones stay open, so late data fills the gaps
+    const policyFor = (day: Date, entry: CacheEntry<T[]>) =>
+      differenceInCalendarDays(now, day) <= policy.recentDays || entry.data.length < policy.fullDayPoints
+        ? policy.openDay
+        : policy.closedDay;
+    const hasPoints = (dayPoints: T[]) => dayPoints.length > 0;
+
+    const points: T[] = [];
+    const provenance: Provenance[] = [];
+    let missing: Date[] = [];
+
+    const fetchMissing = async () => {
+      if (missing.length === 0) return;
+      const span = missing;
+      missing = [];
+
+      const spanStart = span[0];
+      const spanEnd = new Date(addDays(span[span.length - 1], 1).getTime() - 1);
+
+      try {
+        const fetched = await this.dedupe(`${keyPrefix}:${spanStart.getTime()}-${spanEnd.getTime()}`, () =>
+          requestSpan(spanStart, spanEnd)
+        );
+        const byDay = new Map<string, T[]>(span.map(day => [format(day, 'yyyy-MM-dd'), []]));
+        fetched.forEach(point => {
+          byDay.get(format(new Date(point.date), 'yyyy-MM-dd'))?.push(point);
+        });
+        byDay.forEach((dayPoints, day) => {
+          if (hasPoints(dayPoints)) this.set(`${keyPrefix}:${day}`, dayPoints, now);
+        });
+        points.push(...fetched);
+        provenance.push({ source: 'live', fetchedAt: new Date().toISOString() });
+      } catch (error) {
+        // Prefer whatever we have cached for those days over generated data
+        const cachedDays = span.map(day => this.get<T[]>(dayKey(day)));
+        if (cachedDays.every(Boolean)) {
+          cachedDays.forEach(entry => {
+            points.push(...(entry as CacheEntry<T[]>).data);
+            provenance.push(this.fromCache(entry as CacheEntry<T[]>, error).provenance);
+          });
+        } else {
+          points.push(...fallback(spanStart, spanEnd));
+          provenance.push({
+            source: 'mock',
+            fetchedAt: new Date().toISOString(),
+            error: errorMessage(error),
+          });
+        }
+      }
+    };
+
+    for (const day of days) {
+      const entry = this.get<T[]>(dayKey(day));
+      const { ttl, maxStale } = entry ? policyFor(day, entry) : policy.openDay;
+      const age = entry ? now - entry.storedAt : Infinity;
+
+      if (entry && age < ttl + maxStale) {
+        await fetchMissing();
+        if (age >= ttl) {
+          this.revalidate(
+            dayKey(day),
+            () => requestSpan(day, new Date(addDays(day, 1).getTime() - 1)),
+            hasPoints
+          );
+        }
+        points.push(...entry.data);
+        provenance.push(this.fromCache(entry).provenance);
+      } else {
+        missing.push(day);
+      }
+    }
+    await fetchMissing();
+
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+    const inRange = points
+      .filter(point => {
+        const time = new Date(point.date).getTime();
+        return time >= startTime && time <= endTime;
+      })
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    return { data: inRange, provenance: mergeProvenance(provenance) };
+  }
+
+  private storageKeys(): string[] {
+    const keys: string[] = [];
+    if (!this.storage) return keys;
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(this.namespace)) keys.push(key);
+    }
+    return keys;
+  }
+
+  private persistedEntries(): Map<string, number> {
+    if (!this.persisted) {
+      this.persisted = new Map(
+        this.storageKeys().map(storageKey => {
+          let storedAt = 0;
+          try {
+            storedAt = Number(JSON.parse(this.storage?.getItem(storageKey) ?? '{}').storedAt) || 0;
+          } catch (error) {
+            // Unreadable entries go first
+          }
+          return [storageKey.slice(this.namespace.length), storedAt];
+        })
+      );
+    }
+    return this.persisted;
+  }
+
+  /** Remove the `count` entries stored longest ago, except `keep`; returns how many went */
+  private evictOldest(count: number, keep: string): number {
+    if (count <= 0) return 0;
+    const oldest = Array.from(this.persistedEntries())
+      .filter(([key]) => key !== keep)
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, count);
+    oldest.forEach(([key]) => {
+      this.storage?.removeItem(this.namespace + key);
+      this.persisted?.delete(key);
+      this.memory.delete(key);
+    });
+    return oldest.length;
+  }
+
+  /** Refresh `key` in the background; results `keep` rejects are not stored */
+  private revalidate<T>(key: string, request: () => Promise<T>, keep: (data: T) => boolean = () => true): void {
+    this.dedupe(key, request)
+      .then(data => {
+        if (keep(data)) this.set(key, data);
+      })
+      .catch(error => console.warn(`Background refresh of ${key} failed:`, errorMessage(error)));
+  }
+
+  private fromCache<T>(entry: CacheEntry<T>, error?: unknown): Sourced<T> {
+    return {
+      data: entry.data,
+      provenance: {
+        source: 'cache',
+        fetchedAt: new Date(entry.storedAt).toISOString(),
+        ...(error !== undefined && { error: errorMessage(error) }),
+      },
+    };
+  }
+}
+
+export const serviceCache = new ServiceCache();
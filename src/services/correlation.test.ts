@@ -0,0 +1,72 @@
+import { correlate, lagProfile, linearFit, pearson, ranks, spearman } from './correlation';
+
+const HOUR = 3600 * 1000;
+const start = new Date(2026, 0, 5).getTime();
+
+const windAt = (hour: number) => 8 + 6 * Math.sin(hour / 5);
+
+// PM2.5 builds up when the wind dropped three hours earlier
+const series = (hours: number) => ({
+  pollution: Array.from({ length: hours }, (_, hour) => ({
+    date: new Date(start + hour * HOUR).toISOString(),
+    aqi: 0,
+    pm25: 60 - 3 * windAt(hour - 3),
+    pm10: 0,
+  })),
+  weather: Array.from({ length: hours }, (_, hour) => ({
+    date: new Date(start + hour * HOUR).toISOString(),
+    aqi: 0,
+    pm25: 0,
+    pm10: 0,
+    windSpeed: windAt(hour),
+  })),
+});
+
+describe('coefficients', () => {
+  it('computes Pearson and Spearman coefficients', () => {
+    expect(pearson([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+    expect(pearson([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+    // Monotonic but not linear: only Spearman is exactly 1
+    expect(spearman([1, 2, 3, 4], [1, 8, 27, 1000])).toBeCloseTo(1);
+    expect(pearson([1, 2, 3, 4], [1, 8, 27, 1000])).toBeLessThan(0.9);
+  });
+
+  it('returns null without variance or with too few pairs', () => {
+    expect(pearson([1, 1, 1], [1, 2, 3])).toBeNull();
+    expect(pearson([1, 2], [1, 2])).toBeNull();
+  });
+
+  it('averages the ranks of ties', () => {
+    expect(ranks([10, 20, 20, 5])).toEqual([2, 3.5, 3.5, 1]);
+  });
+
+  it('fits a least-squares line', () => {
+    expect(linearFit([0, 1, 2, 3], [1, 3, 5, 7])).toEqual({ slope: 2, intercept: 1 });
+  });
+});
+
+describe('correlate', () => {
+  it('pairs the pollutant with the weather hours earlier', () => {
+    const { pollution, weather } = series(72);
+
+    const simultaneous = correlate(pollution, weather, 'pm25', 'windSpeed');
+    const lagged = correlate(pollution, weather, 'pm25', 'windSpeed', 3);
+
+    expect(lagged.points).toHaveLength(69);
+    expect(lagged.pearson).toBeCloseTo(-1);
+    expect(lagged.fit?.slope).toBeCloseTo(-3);
+    expect(Math.abs(simultaneous.pearson as number)).toBeLessThan(Math.abs(lagged.pearson as number));
+  });
+
+  it('finds the strongest relation at the lag of the cause', () => {
+    const { pollution, weather } = series(240);
+
+    const profile = lagProfile(pollution, weather, 'pm25', 'windSpeed', 6);
+    const strongest = profile.reduce((best, lag) =>
+      Math.abs(lag.pearson ?? 0) > Math.abs(best.pearson ?? 0) ? lag : best
+    );
+
+    expect(profile).toHaveLength(7);
+    expect(strongest.lagHours).toBe(3);
+  });
+});
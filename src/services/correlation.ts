@@ -0,0 +1,176 @@
+// src/services/correlation.ts
+import { HistoricalDataPoint } from '../types';
+import { Pollutant } from './aqi';
+
+const HOUR = 3600 * 1000;
+
+/** Weather variables of the history that can be related to a pollutant; wind direction is circular and left out */
+export type WeatherVariable =
+  | 'temperature'
+  | 'humidity'
+  | 'windSpeed'
+  | 'pressure'
+  | 'windGusts'
+  | 'precipitation'
+  | 'cloudCover'
+  | 'boundaryLayerHeight';
+
+export const WEATHER_VARIABLES: WeatherVariable[] = [
+  'temperature',
+  'humidity',
+  'windSpeed',
+  'pressure',
+  'windGusts',
+  'precipitation',
+  'cloudCover',
+  'boundaryLayerHeight',
+];
+
+export const WEATHER_VARIABLE_UNITS: Record<WeatherVariable, string> = {
+  temperature: '°C',
+  humidity: '%',
+  windSpeed: 'km/h',
+  pressure: 'hPa',
+  windGusts: 'km/h',
+  precipitation: 'mm',
+  cloudCover: '%',
+  boundaryLayerHeight: 'm',
+};
+
+export const MAX_LAG_HOURS = 24;
+
+// Fewer pairs than this give coefficients too noisy to show
+const MIN_PAIRS = 3;
+
+export interface CorrelationPoint {
+  /** Timestamp of the pollutant reading */
+  date: string;
+  /** Weather variable, `lagHours` before the reading */
+  x: number;
+  /** Pollutant concentration */
+  y: number;
+}
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+}
+
+export interface CorrelationResult {
+  points: CorrelationPoint[];
+  /** Null when there are too few pairs or one side is constant */
+  pearson: number | null;
+  spearman: number | null;
+  fit: LinearFit | null;
+}
+
+export interface LagCorrelation {
+  lagHours: number;
+  pearson: number | null;
+  pairs: number;
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < MIN_PAIRS || xs.length !== ys.length) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - mx) * (ys[i] - my);
+    varianceX += (x - mx) ** 2;
+    varianceY += (ys[i] - my) ** 2;
+  });
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null;
+}
+
+/** 1-based ranks, ties get the mean of the ranks they span */
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+}
+
+export const spearman = (xs: number[], ys: number[]): number | null => pearson(ranks(xs), ranks(ys));
+
+/** Least-squares line y = slope * x + intercept */
+export function linearFit(xs: number[], ys: number[]): LinearFit | null {
+  if (xs.length < MIN_PAIRS || xs.length !== ys.length) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  const sxx = xs.reduce((sum, x) => sum + (x - mx) ** 2, 0);
+  if (sxx === 0) return null;
+  const slope = xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0) / sxx;
+  return { slope, intercept: my - slope * mx };
+}
+
+/**
+ * Pair every pollutant reading with the weather `lagHours` earlier, matched
+ * on the exact timestamp. Readings without a matching value are skipped.
+ */
+export function pairSeries(
+  pollution: HistoricalDataPoint[],
+  weather: HistoricalDataPoint[],
+  pollutant: Pollutant,
+  variable: WeatherVariable,
+  lagHours = 0
+): CorrelationPoint[] {
+  const weatherByTime = new Map<number, number>();
+  weather.forEach(point => {
+    const value = point[variable];
+    if (isNumber(value)) weatherByTime.set(new Date(point.date).getTime(), value);
+  });
+
+  return pollution.flatMap(point => {
+    const y = point[pollutant];
+    const x = weatherByTime.get(new Date(point.date).getTime() - lagHours * HOUR);
+    return isNumber(x) && isNumber(y) ? [{ date: point.date, x, y }] : [];
+  });
+}
+
+export function correlate(
+  pollution: HistoricalDataPoint[],
+  weather: HistoricalDataPoint[],
+  pollutant: Pollutant,
+  variable: WeatherVariable,
+  lagHours = 0
+): CorrelationResult {
+  const points = pairSeries(pollution, weather, pollutant, variable, lagHours);
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return { points, pearson: pearson(xs, ys), spearman: spearman(xs, ys), fit: linearFit(xs, ys) };
+}
+
+/** Pearson coefficient for every lag from 0 to `maxLag` hours */
+export function lagProfile(
+  pollution: HistoricalDataPoint[],
+  weather: HistoricalDataPoint[],
+  pollutant: Pollutant,
+  variable: WeatherVariable,
+  maxLag: number = MAX_LAG_HOURS
+): LagCorrelation[] {
+  return Array.from({ length: maxLag + 1 }, (_, lagHours) => {
+    const points = pairSeries(pollution, weather, pollutant, variable, lagHours);
+    return {
+      lagHours,
+      pearson: pearson(
+        points.map(point => point.x),
+        points.map(point => point.y)
+      ),
+      pairs: points.length,
+    };
+  });
+}
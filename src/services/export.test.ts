@@ -0,0 +1,102 @@
+import { AirQualityData } from '../types';
+import {
+  ExportInput,
+  buildExportTables,
+  createExportFile,
+  measurementsTable,
+  toBucharestISO,
+  toCSV,
+  toXLSX,
+} from './export';
+import { validateReading } from './quality';
+import { crc32, utf8Encode } from './zip';
+
+const asText = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+const reading: AirQualityData = {
+  stationId: 3,
+  stationName: 'Berceni, "Sud"',
+  timestamp: '2026-07-01T12:00:00.000Z',
+  ...validateReading({ pm25: 12.345, pm10: 30, no2: 40, o3: 60, so2: 5, co: 0.4 }),
+  aqi: 0,
+};
+
+const input: ExportInput = {
+  scope: 'view',
+  range: { start: new Date('2026-06-01T00:00:00Z'), end: new Date('2026-06-30T23:00:00Z') },
+  schemeId: 'eaqi',
+  measurements: [reading],
+  hourlyWeather: [],
+  historical: [
+    {
+      stationName: 'Berceni',
+      points: [
+        { date: '2026-05-31T12:00:00.000Z', aqi: 40, pm25: 10, pm10: 20 },
+        { date: '2026-06-15T12:00:00.000Z', aqi: 40, pm25: 10, pm10: 20 },
+      ],
+    },
+  ],
+  historicalWeather: [],
+};
+
+describe('toBucharestISO', () => {
+  it('uses the summer and winter offsets', () => {
+    expect(toBucharestISO('2026-07-01T12:00:00Z')).toBe('2026-07-01T15:00:00+03:00');
+    expect(toBucharestISO('2026-01-15T12:00:00Z')).toBe('2026-01-15T14:00:00+02:00');
+  });
+
+  it('follows the DST switch', () => {
+    // Clocks go forward at 03:00 local on 29 March 2026
+    expect(toBucharestISO('2026-03-29T00:30:00Z')).toBe('2026-03-29T02:30:00+02:00');
+    expect(toBucharestISO('2026-03-29T01:30:00Z')).toBe('2026-03-29T04:30:00+03:00');
+  });
+});
+
+describe('export tables', () => {
+  it('puts units in the headers and escapes CSV cells', () => {
+    const csv = toCSV(measurementsTable([reading], 'eaqi', { source: 'live', fetchedAt: '2026-07-01T12:05:00Z' }));
+    const [header, row] = csv.split('\r\n');
+
+    expect(header).toContain('PM2.5 (μg/m³)');
+    expect(header).toContain('CO (mg/m³)');
+    expect(row).toContain('"Berceni, ""Sud"""');
+    expect(row).toContain('2026-07-01T15:00:00+03:00');
+    expect(row).toContain('12.35');
+  });
+
+  it('writes gases as mixing ratios in the volume units and says so', () => {
+    const table = measurementsTable([reading], 'eaqi', undefined, 'volume');
+    const column = (key: string) => table.columns.findIndex(item => item.key === key);
+
+    expect(table.columns[column('pm25')].header).toBe('PM2.5 (μg/m³)');
+    expect(table.columns[column('no2')].header).toBe('NO₂ (ppb)');
+    expect(table.columns[column('co')].header).toBe('CO (ppm)');
+    expect(table.rows[0][column('no2')]).toBe(21.26);
+    expect(table.rows[0][column('co')]).toBe(0.35);
+  });
+
+  it('keeps only historical points inside the range', () => {
+    const historical = buildExportTables(input).find(table => table.name === 'Istoric');
+    expect(historical?.rows).toHaveLength(1);
+    expect(historical?.rows[0][1]).toBe('2026-06-15T15:00:00+03:00');
+  });
+
+  it('writes an XLSX workbook with one sheet per table', () => {
+    const text = asText(toXLSX(buildExportTables(input)));
+    expect(text.startsWith('PK')).toBe(true);
+    expect(text).toContain('xl/worksheets/sheet4.xml');
+    expect(text).toContain('<pane ySplit="1" topLeftCell="A2" state="frozen"/>');
+  });
+
+  it('bundles several CSV tables into a zip', () => {
+    const file = createExportFile(buildExportTables(input), 'csv', input);
+    expect(file.filename).toMatch(/^calitate-aer-bucuresti_vizualizare_\d{8}-\d{4}\.zip$/);
+    expect(asText(file.content)).toContain('istoric-meteo.csv');
+  });
+});
+
+describe('zip helpers', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(utf8Encode('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,489 @@
+// src/services/export.ts
+import { format } from 'date-fns';
+import { localizedLabels, messages } from '../i18n';
+import { AirQualityData, HistoricalDataPoint, MeasurementQuality, Provenance, WeatherData } from '../types';
+import { AQISchemeId, POLLUTANTS, POLLUTANT_LABELS, getAQIScheme, indexOrNull } from './aqi';
+import { DateRange } from './timeRange';
+import { DEFAULT_UNIT_SYSTEM, UnitSystem, displayUnit, historyInUnits, toDisplay } from './units';
+import { createZip, utf8Encode } from './zip';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type ExportScope = 'view' | 'all';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = localizedLabels(catalog => catalog.export.formats);
+
+export const EXPORT_SCOPE_LABELS: Record<ExportScope, string> = localizedLabels(catalog => catalog.export.scopes);
+
+type Cell = string | number | null;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export interface ExportTable {
+  /** Sheet name and CSV file name */
+  name: string;
+  columns: ExportColumn[];
+  rows: Cell[][];
+}
+
+export interface StationSeries {
+  stationName: string;
+  points: HistoricalDataPoint[];
+  provenance?: Provenance;
+}
+
+export interface ExportInput {
+  scope: ExportScope;
+  range: DateRange;
+  schemeId: AQISchemeId;
+  /** Units pollutant columns are written in; mass concentrations by default */
+  unitSystem?: UnitSystem;
+  measurements: AirQualityData[];
+  measurementsProvenance?: Provenance;
+  hourlyWeather: WeatherData[];
+  hourlyWeatherProvenance?: Provenance;
+  historical: StationSeries[];
+  historicalWeather: HistoricalDataPoint[];
+  historicalWeatherProvenance?: Provenance;
+}
+
+const TIME_ZONE = 'Europe/Bucharest';
+
+const bucharestParts = new Intl.DateTimeFormat('en-GB', {
+  timeZone: TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+const pad = (value: number) => String(Math.floor(value)).padStart(2, '0');
+
+/**
+ * ISO 8601 timestamp in Bucharest local time with its UTC offset,
+ * e.g. 2026-07-01T15:00:00+03:00.
+ */
+export function toBucharestISO(value: string | Date): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+
+  const parts: Record<string, number> = {};
+  bucharestParts.formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  const sign = offset >= 0 ? '+' : '-';
+
+  return (
+    `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.abs(offset) / 60)}:${pad(Math.abs(offset) % 60)}`
+  );
+}
+
+const withUnit = (label: string, unit: string) => `${label} (${unit})`;
+
+const pollutantColumns = (unitSystem: UnitSystem): ExportColumn[] =>
+  POLLUTANTS.map(pollutant => ({
+    key: pollutant,
+    header: withUnit(POLLUTANT_LABELS[pollutant], displayUnit(pollutant, unitSystem)),
+  }));
+
+const provenanceColumns = (): ExportColumn[] => [
+  { key: 'source', header: messages().export.columns.source },
+  { key: 'fetchedAt', header: messages().export.columns.fetchedAt },
+];
+
+const provenanceCells = (provenance?: Provenance): Cell[] => [
+  provenance?.source ?? null,
+  provenance ? toBucharestISO(provenance.fetchedAt) : null,
+];
+
+const numberOrNull = (value: number | null | undefined): Cell =>
+  typeof value === 'number' && isFinite(value) ? Number(value.toFixed(2)) : null;
+
+// Values validation rejected, as "pollutant=flag" pairs; missing ones are already empty cells
+const qualityCell = (quality: Partial<MeasurementQuality> = {}): Cell => {
+  const rejected = POLLUTANTS.flatMap(pollutant => {
+    const flag = quality[pollutant];
+    return flag && flag !== 'valid' && flag !== 'missing' ? [`${pollutant}=${flag}`] : [];
+  });
+  return rejected.length > 0 ? rejected.join('; ') : null;
+};
+
+// Weather variables shared by the hourly and the historical weather tables
+const DISPERSION_UNITS = {
+  windDirection: '°',
+  windGusts: 'km/h',
+  precipitation: 'mm',
+  cloudCover: '%',
+  boundaryLayerHeight: 'm',
+};
+
+type DispersionField = keyof typeof DISPERSION_UNITS;
+
+const DISPERSION_FIELDS = Object.keys(DISPERSION_UNITS) as DispersionField[];
+
+const dispersionColumns = (): ExportColumn[] =>
+  DISPERSION_FIELDS.map(field => ({
+    key: field,
+    header: withUnit(messages().export.columns[field], DISPERSION_UNITS[field]),
+  }));
+
+const dispersionCells = (point: Partial<Record<DispersionField, number | null>>): Cell[] =>
+  DISPERSION_FIELDS.map(field => numberOrNull(point[field]));
+
+/** Current readings */
+export function measurementsTable(
+  data: AirQualityData[],
+  schemeId: AQISchemeId,
+  provenance?: Provenance,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): ExportTable {
+  const scheme = getAQIScheme(schemeId);
+  const { tables, columns } = messages().export;
+  return {
+    name: tables.measurements,
+    columns: [
+      { key: 'stationId', header: columns.stationId },
+      { key: 'station', header: columns.station },
+      { key: 'timestamp', header: columns.timestamp },
+      { key: 'aqi', header: `AQI (${scheme.name})` },
+      ...pollutantColumns(unitSystem),
+      { key: 'quality', header: columns.quality },
+      ...provenanceColumns(),
+    ],
+    rows: data.map(reading => [
+      reading.stationId,
+      reading.stationName,
+      toBucharestISO(reading.timestamp),
+      numberOrNull(indexOrNull(reading.measurements, schemeId)),
+      ...POLLUTANTS.map(pollutant =>
+        numberOrNull(toDisplay(pollutant, reading.measurements[pollutant], unitSystem))
+      ),
+      qualityCell(reading.quality),
+      ...provenanceCells(provenance),
+    ]),
+  };
+}
+
+export function hourlyWeatherTable(data: WeatherData[], provenance?: Provenance): ExportTable {
+  const { tables, columns } = messages().export;
+  return {
+    name: tables.hourlyWeather,
+    columns: [
+      { key: 'timestamp', header: columns.timestamp },
+      { key: 'temperature', header: withUnit(columns.temperature, '°C') },
+      { key: 'humidity', header: withUnit(columns.humidity, '%') },
+      { key: 'windSpeed', header: withUnit(columns.windSpeed, 'km/h') },
+      { key: 'pressure', header: withUnit(columns.pressure, 'hPa') },
+      { key: 'uvIndex', header: columns.uvIndex },
+      { key: 'visibility', header: withUnit(columns.visibility, 'km') },
+      ...dispersionColumns(),
+      ...provenanceColumns(),
+    ],
+    rows: data.map(hour => [
+      toBucharestISO(hour.timestamp),
+      numberOrNull(hour.temperature),
+      numberOrNull(hour.humidity),
+      numberOrNull(hour.windSpeed),
+      numberOrNull(hour.pressure),
+      numberOrNull(hour.uvIndex),
+      numberOrNull(hour.visibility),
+      ...dispersionCells(hour),
+      ...provenanceCells(provenance),
+    ]),
+  };
+}
+
+/** Station histories */
+export function historicalTable(
+  series: StationSeries[],
+  schemeId: AQISchemeId,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): ExportTable {
+  const scheme = getAQIScheme(schemeId);
+  const { tables, columns } = messages().export;
+  return {
+    name: tables.historical,
+    columns: [
+      { key: 'station', header: columns.station },
+      { key: 'date', header: columns.timestamp },
+      { key: 'aqi', header: `AQI (${scheme.name})` },
+      ...pollutantColumns(unitSystem),
+      { key: 'quality', header: columns.quality },
+      ...provenanceColumns(),
+    ],
+    rows: series.flatMap(({ stationName, points, provenance }) => {
+      const converted = historyInUnits(points, unitSystem);
+      return points.map((point, i) => [
+        stationName,
+        toBucharestISO(point.date),
+        numberOrNull(indexOrNull(point, schemeId)),
+        ...POLLUTANTS.map(pollutant => numberOrNull(converted[i][pollutant])),
+        qualityCell(point.quality),
+        ...provenanceCells(provenance),
+      ]);
+    }),
+  };
+}
+
+export function historicalWeatherTable(points: HistoricalDataPoint[], provenance?: Provenance): ExportTable {
+  const { tables, columns } = messages().export;
+  return {
+    name: tables.historicalWeather,
+    columns: [
+      { key: 'date', header: columns.timestamp },
+      { key: 'temperature', header: withUnit(columns.temperature, '°C') },
+      { key: 'humidity', header: withUnit(columns.humidity, '%') },
+      { key: 'windSpeed', header: withUnit(columns.windSpeed, 'km/h') },
+      { key: 'pressure', header: withUnit(columns.pressure, 'hPa') },
+      ...dispersionColumns(),
+      ...provenanceColumns(),
+    ],
+    rows: points.map(point => [
+      toBucharestISO(point.date),
+      numberOrNull(point.temperature),
+      numberOrNull(point.humidity),
+      numberOrNull(point.windSpeed),
+      numberOrNull(point.pressure),
+      ...dispersionCells(point),
+      ...provenanceCells(provenance),
+    ]),
+  };
+}
+
+export function buildExportTables(input: ExportInput): ExportTable[] {
+  const inRange = (date: string) => {
+    const time = new Date(date).getTime();
+    return time >= input.range.start.getTime() && time <= input.range.end.getTime();
+  };
+
+  return [
+    measurementsTable(input.measurements, input.schemeId, input.measurementsProvenance, input.unitSystem),
+    hourlyWeatherTable(input.hourlyWeather, input.hourlyWeatherProvenance),
+    historicalTable(
+      input.historical.map(series => ({ ...series, points: series.points.filter(point => inRange(point.date)) })),
+      input.schemeId,
+      input.unitSystem
+    ),
+    historicalWeatherTable(input.historicalWeather.filter(point => inRange(point.date)), input.historicalWeatherProvenance),
+  ];
+}
+
+const csvCell = (cell: Cell): string => {
+  if (cell === null) return '';
+  const text = String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (table: ExportTable): string =>
+  [table.columns.map(column => column.header), ...table.rows]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n');
+
+/**
+ * JSON export: one array of records per table, keyed by column key, with
+ * the column headers (and so the units) listed alongside.
+ */
+export function toJSON(tables: ExportTable[], meta: Record<string, unknown>): string {
+  return JSON.stringify(
+    {
+      ...meta,
+      tables: tables.map(table => ({
+        name: table.name,
+        columns: table.columns,
+        rows: table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [column.key, row[i]]))),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Excel rejects sheet names over 31 characters or with []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+const sheetXML = (table: ExportTable): string => {
+  const rows = [table.columns.map(column => column.header), ...table.rows].map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (cell === null) return '';
+      if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+      // Header row uses the bold style
+      const style = r === 0 ? ' s="1"' : '';
+      return `<c r="${ref}" t="inlineStr"${style}><is><t>${xmlEscape(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+};
+
+/** Minimal Office Open XML workbook, one sheet per table */
+export function toXLSX(tables: ExportTable[]): Uint8Array {
+  const sheets = tables.map((table, i) => ({ id: i + 1, name: sheetName(table.name), table }));
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets
+          .map(
+            sheet =>
+              `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join('') +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${sheets.map(sheet => `<sheet name="${xmlEscape(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`).join('')}</sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map(
+            sheet =>
+              `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`
+          )
+          .join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/styles.xml',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>',
+    },
+    ...sheets.map(sheet => ({ name: `xl/worksheets/sheet${sheet.id}.xml`, data: sheetXML(sheet.table) })),
+  ]);
+}
+
+const MIME_TYPES: Record<ExportFormat | 'zip', string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  zip: 'application/zip',
+};
+
+const slug = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+/**
+ * Serialize the tables. CSV holds a single table, so several tables are
+ * bundled as a zip with one CSV each.
+ */
+export function createExportFile(tables: ExportTable[], exportFormat: ExportFormat, input: ExportInput): ExportFile {
+  const base = `${messages().export.filename(input.scope === 'all')}_${format(new Date(), 'yyyyMMdd-HHmm')}`;
+
+  switch (exportFormat) {
+    case 'json':
+      return {
+        filename: `${base}.json`,
+        mimeType: MIME_TYPES.json,
+        content: utf8Encode(
+          toJSON(tables, {
+            exportedAt: toBucharestISO(new Date()),
+            timeZone: TIME_ZONE,
+            scope: input.scope,
+            range: { start: toBucharestISO(input.range.start), end: toBucharestISO(input.range.end) },
+            aqiScheme: getAQIScheme(input.schemeId).name,
+            units: Object.fromEntries(
+              POLLUTANTS.map(pollutant => [pollutant, displayUnit(pollutant, input.unitSystem ?? DEFAULT_UNIT_SYSTEM)])
+            ),
+          })
+        ),
+      };
+    case 'xlsx':
+      return { filename: `${base}.xlsx`, mimeType: MIME_TYPES.xlsx, content: toXLSX(tables) };
+    case 'csv':
+    default: {
+      // The BOM makes Excel read the file as UTF-8 (μg/m³, °C, diacritics)
+      const csv = (table: ExportTable) => `\uFEFF${toCSV(table)}`;
+      if (tables.length === 1) {
+        return { filename: `${base}.csv`, mimeType: MIME_TYPES.csv, content: utf8Encode(csv(tables[0])) };
+      }
+      return {
+        filename: `${base}.zip`,
+        mimeType: MIME_TYPES.zip,
+        content: createZip(tables.map(table => ({ name: `${slug(table.name)}.csv`, data: csv(table) }))),
+      };
+    }
+  }
+}
+
+export function downloadFile({ filename, mimeType, content }: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,73 @@
+import { calculateAQI } from './aqi';
+import { forecastChartSeries, indexForecast, worstForecastWindow } from './forecast';
+
+const start = new Date(2026, 9, 19, 12);
+
+const hour = (offset: number) => new Date(start.getTime() + offset * 3600 * 1000).toISOString();
+
+const forecastPoint = (offset: number, pm25: number) => ({
+  timestamp: hour(offset),
+  measurements: { pm25, pm10: 10, no2: 10, o3: 20, so2: 2 },
+  aqi: 0,
+});
+
+describe('indexForecast', () => {
+  it('computes the AQI and dominant pollutant of every hour with the selected scheme', () => {
+    const [point] = indexForecast([forecastPoint(0, 40)], 'eaqi');
+
+    expect(point.aqi).toBe(calculateAQI(point.measurements, 'eaqi').aqi);
+    expect(point.dominantPollutant).toBe('pm25');
+  });
+
+  it('leaves hours without any pollutant without an index', () => {
+    const [point] = indexForecast(
+      [{ ...forecastPoint(0, 0), measurements: { pm25: null, pm10: null, no2: null, o3: null, so2: null } }],
+      'eaqi'
+    );
+
+    expect(point.aqi).toBeNull();
+    expect(point.dominantPollutant).toBeNull();
+  });
+});
+
+describe('worstForecastWindow', () => {
+  it('finds the consecutive hours with the highest mean AQI', () => {
+    const points = indexForecast([10, 12, 30, 60, 55, 14, 12, 80].map((pm25, i) => forecastPoint(i, pm25)), 'epa');
+
+    const window = worstForecastWindow(points, 3);
+
+    expect(window).toMatchObject({ start: hour(2), end: hour(4), dominantPollutant: 'pm25' });
+    expect(window?.peak).toBe(points[3].aqi);
+  });
+
+  it('skips windows with an hour without an index', () => {
+    const points = indexForecast([10, 60, 55, 50, 12, 12].map((pm25, i) => forecastPoint(i, pm25)), 'epa');
+    points[2] = { ...points[2], aqi: null };
+
+    expect(worstForecastWindow(points, 3)).toMatchObject({ start: hour(3), end: hour(5) });
+    expect(worstForecastWindow(points.slice(0, 4), 3)).toBeNull();
+  });
+
+  it('returns null when the forecast is shorter than a window', () => {
+    expect(worstForecastWindow(indexForecast([forecastPoint(0, 10)], 'epa'), 3)).toBeNull();
+  });
+});
+
+describe('forecastChartSeries', () => {
+  it('continues the last observed hours with the forecast', () => {
+    const observed = [-30, -2, -1].map(offset => ({ date: hour(offset), aqi: 40 + offset, pm25: 0, pm10: 0 }));
+    const forecast = indexForecast([forecastPoint(0, 20), forecastPoint(1, 25)], 'epa');
+
+    const series = forecastChartSeries(observed, forecast, 24);
+
+    expect(series.map(point => point.date)).toEqual([hour(-2), hour(-1), hour(0), hour(1)]);
+    expect(series[1]).toEqual({ date: hour(-1), observed: 39, forecast: 39 });
+    expect(series[2]).toEqual({ date: hour(0), forecast: forecast[0].aqi });
+  });
+
+  it('leaves forecast hours without an index as gaps', () => {
+    const forecast = indexForecast([forecastPoint(0, 20)], 'epa').map(point => ({ ...point, aqi: null }));
+
+    expect(forecastChartSeries([], forecast)).toEqual([{ date: hour(0), forecast: undefined }]);
+  });
+});
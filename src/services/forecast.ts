@@ -0,0 +1,101 @@
+// src/services/forecast.ts
+import { AirQualityForecastPoint, HistoricalDataPoint } from '../types';
+import { AQISchemeId, Pollutant, calculateAQI, indexOrNull } from './aqi';
+
+const HOUR = 3600 * 1000;
+
+// Length of the worst window, long enough to plan a walk or a run around it
+export const WORST_WINDOW_HOURS = 3;
+
+// How much of the observed series the forecast chart continues from
+export const OBSERVED_HOURS = 24;
+
+export interface IndexedForecastPoint extends AirQualityForecastPoint {
+  dominantPollutant: Pollutant | null;
+}
+
+export interface ForecastWindow {
+  /** First hour of the window */
+  start: string;
+  /** Last hour of the window */
+  end: string;
+  /** Mean AQI over the window */
+  aqi: number;
+  /** Highest hourly AQI inside the window */
+  peak: number;
+  dominantPollutant: Pollutant | null;
+}
+
+export interface ForecastChartPoint {
+  date: string;
+  observed?: number;
+  forecast?: number;
+}
+
+/** Re-index the forecast with the selected scheme */
+export const indexForecast = (points: AirQualityForecastPoint[], schemeId: AQISchemeId): IndexedForecastPoint[] =>
+  points.map(point => ({
+    ...point,
+    aqi: indexOrNull(point.measurements, schemeId),
+    dominantPollutant: calculateAQI(point.measurements, schemeId).dominantPollutant,
+  }));
+
+/**
+ * The `hours` consecutive forecast hours with the highest mean AQI; the
+ * earliest one wins a tie. Windows with an hour without an index are
+ * skipped. Null when no complete window is left.
+ */
+export function worstForecastWindow(
+  points: IndexedForecastPoint[],
+  hours: number = WORST_WINDOW_HOURS
+): ForecastWindow | null {
+  let worst: ForecastWindow | null = null;
+
+  for (let i = 0; i + hours <= points.length; i++) {
+    const window = points.slice(i, i + hours);
+    if (window.some(point => point.aqi === null)) continue;
+    const values = window.map(point => point.aqi as number);
+    const aqi = values.reduce((sum, value) => sum + value, 0) / hours;
+    if (worst && aqi <= worst.aqi) continue;
+
+    const peak = values.indexOf(Math.max(...values));
+    worst = {
+      start: window[0].timestamp,
+      end: window[window.length - 1].timestamp,
+      aqi,
+      peak: values[peak],
+      dominantPollutant: window[peak].dominantPollutant,
+    };
+  }
+  return worst;
+}
+
+/**
+ * Observed AQI of the last `observedHours` before the forecast starts,
+ * followed by the forecast. The last observed hour also carries a forecast
+ * value so that the two lines join.
+ */
+export function forecastChartSeries(
+  observed: HistoricalDataPoint[],
+  forecast: IndexedForecastPoint[],
+  observedHours: number = OBSERVED_HOURS
+): ForecastChartPoint[] {
+  if (forecast.length === 0) return [];
+
+  const forecastStart = new Date(forecast[0].timestamp).getTime();
+  const history: ForecastChartPoint[] = observed
+    .filter(point => {
+      const time = new Date(point.date).getTime();
+      return time < forecastStart && time >= forecastStart - observedHours * HOUR;
+    })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(point => ({ date: point.date, observed: point.aqi ?? undefined }));
+
+  if (history.length > 0) {
+    const last = history[history.length - 1];
+    history[history.length - 1] = { ...last, forecast: last.observed };
+  }
+
+  // Hours without an index stay in the series as gaps
+  return [...history, ...forecast.map(point => ({ date: point.timestamp, forecast: point.aqi ?? undefined }))];
+}
@@ -0,0 +1,96 @@
+import { Alert } from './alerts';
+import { DEFAULT_NOTIFICATION_PREFERENCES, isQuietTime, selectNotifications } from './notifications';
+
+const alert = (overrides: Partial<Alert> = {}): Alert => ({
+  key: 'no2-1h:3',
+  ruleId: 'no2-1h',
+  ruleName: 'Valoare limită orară NO₂',
+  stationId: 3,
+  stationName: 'Berceni',
+  pollutant: 'no2',
+  window: '1h',
+  severity: 'warning',
+  threshold: 200,
+  value: 230,
+  startedAt: '2026-03-10T08:00:00.000Z',
+  updatedAt: '2026-03-10T08:00:00.000Z',
+  ...overrides,
+});
+
+const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, enabled: true, repeatMinutes: 60 };
+const at = (time: string) => new Date(`2026-03-10T${time}`);
+
+describe('isQuietTime', () => {
+  it('handles ranges across midnight', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '07:00' };
+    expect(isQuietTime(quietHours, at('23:30:00'))).toBe(true);
+    expect(isQuietTime(quietHours, at('06:59:00'))).toBe(true);
+    expect(isQuietTime(quietHours, at('07:00:00'))).toBe(false);
+    expect(isQuietTime({ ...quietHours, enabled: false }, at('23:30:00'))).toBe(false);
+  });
+
+  it('handles ranges within a day', () => {
+    const quietHours = { enabled: true, start: '13:00', end: '15:00' };
+    expect(isQuietTime(quietHours, at('14:00:00'))).toBe(true);
+    expect(isQuietTime(quietHours, at('16:00:00'))).toBe(false);
+  });
+});
+
+describe('selectNotifications', () => {
+  it('rate-limits repeats of the same episode', () => {
+    const first = selectNotifications([alert()], preferences, {}, at('10:00:00'));
+    expect(first.due).toHaveLength(1);
+
+    const soon = selectNotifications([alert()], preferences, first.episodes, at('10:30:00'));
+    expect(soon.due).toHaveLength(0);
+
+    const later = selectNotifications([alert()], preferences, soon.episodes, at('11:00:00'));
+    expect(later.due).toHaveLength(1);
+  });
+
+  it('notifies again when the severity rises or a new episode starts', () => {
+    const { episodes } = selectNotifications([alert()], preferences, {}, at('10:00:00'));
+
+    expect(selectNotifications([alert({ severity: 'critical' })], preferences, episodes, at('10:05:00')).due).toHaveLength(1);
+
+    const ended = selectNotifications([alert({ endedAt: '2026-03-10T10:10:00.000Z' })], preferences, episodes, at('10:10:00'));
+    expect(ended.episodes).toEqual({});
+    const restarted = alert({ startedAt: '2026-03-10T10:15:00.000Z' });
+    expect(selectNotifications([restarted], preferences, ended.episodes, at('10:15:00')).due).toHaveLength(1);
+  });
+
+  it('shares the rate limit between logs that started the episode at different times', () => {
+    // The page and the service worker each keep a log of their own
+    const page = selectNotifications([alert()], preferences, {}, at('10:00:00'));
+    const worker = selectNotifications(
+      [alert({ startedAt: '2026-03-10T08:20:00.000Z' }), alert({ key: 'o3-8h:5', stationId: 5, pollutant: 'o3' })],
+      preferences,
+      page.episodes,
+      at('10:30:00')
+    );
+
+    expect(worker.due.map(item => item.key)).toEqual(['o3-8h:5']);
+    // The episode the worker notified stays known to the page, and back
+    expect(selectNotifications([alert()], preferences, worker.episodes, at('10:40:00')).episodes).toHaveProperty(['o3-8h:5']);
+    expect(Object.keys(worker.episodes).sort()).toEqual(['no2-1h:3', 'o3-8h:5']);
+  });
+
+  it('filters by station and minimum severity', () => {
+    const alerts = [alert(), alert({ key: 'o3-1h-info:5', stationId: 5, severity: 'info' })];
+
+    expect(selectNotifications(alerts, preferences, {}, at('10:00:00')).due.map(item => item.stationId)).toEqual([3]);
+    expect(
+      selectNotifications(alerts, { ...preferences, minSeverity: 'info', stationIds: [5] }, {}, at('10:00:00')).due.map(
+        item => item.stationId
+      )
+    ).toEqual([5]);
+  });
+
+  it('stays silent when disabled or during quiet hours', () => {
+    expect(selectNotifications([alert()], { ...preferences, enabled: false }, {}, at('10:00:00')).due).toHaveLength(0);
+
+    const quiet = { ...preferences, quietHours: { enabled: true, start: '09:00', end: '11:00' } };
+    expect(selectNotifications([alert()], quiet, {}, at('10:00:00')).due).toHaveLength(0);
+    expect(selectNotifications([alert()], quiet, {}, at('11:00:00')).due).toHaveLength(1);
+  });
+});
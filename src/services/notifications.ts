@@ -0,0 +1,246 @@
+// src/services/notifications.ts
+import { Locale, localizedLabels, messages } from '../i18n';
+import { POLLUTANT_LABELS } from './aqi';
+import {
+  ALERT_SEVERITY_LABELS,
+  ALERT_SEVERITY_RANK,
+  ALERT_WINDOW_LABELS,
+  Alert,
+  AlertRule,
+  AlertSeverity,
+  activeAlerts,
+  alertRuleName,
+  formatAlertValue,
+} from './alerts';
+import { readJSON, writeJSON } from './storage';
+import { Station } from '../types';
+
+export interface QuietHours {
+  enabled: boolean;
+  /** Local time, HH:mm */
+  start: string;
+  end: string;
+}
+
+export interface NotificationPreferences {
+  enabled: boolean;
+  /** null notifies for every station */
+  stationIds: number[] | null;
+  minSeverity: AlertSeverity;
+  quietHours: QuietHours;
+  /** Minimum time between two notifications for the same ongoing episode */
+  repeatMinutes: number;
+}
+
+/**
+ * What was last notified for an open episode, keyed by alert key. The page
+ * and the service worker keep separate logs, whose start times of the same
+ * episode differ, so the key leaves the start time out.
+ */
+export type NotifiedEpisodes = Record<string, { notifiedAt: string; severity: AlertSeverity }>;
+
+/** Everything the service worker needs to evaluate the rules on its own */
+export interface WorkerConfig {
+  rules: AlertRule[];
+  stations: Station[];
+  preferences: NotificationPreferences;
+  /** Language of the notifications */
+  locale: Locale;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: false,
+  stationIds: null,
+  minSeverity: 'warning',
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  repeatMinutes: 240,
+};
+
+export const REPEAT_OPTIONS: Record<number, string> = localizedLabels(catalog => catalog.notifications.repeatOptions);
+
+export const ALERT_SYNC_TAG = 'air-quality-check';
+
+// Browsers may run periodic syncs less often than asked
+const SYNC_INTERVAL_MS = 30 * 60 * 1000;
+
+const PREFERENCES_STORAGE_KEY = 'notificationPreferences';
+
+export const WORKER_CONFIG_KEY = 'worker-config';
+export const WORKER_LOG_KEY = 'worker-alert-log';
+const EPISODES_KEY = 'notified-episodes';
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** True inside the quiet hours; the range may span midnight */
+export function isQuietTime({ enabled, start, end }: QuietHours, date: Date = new Date()): boolean {
+  if (!enabled) return false;
+  const now = date.getHours() * 60 + date.getMinutes();
+  const from = minutesOf(start);
+  const to = minutesOf(end);
+  return from <= to ? now >= from && now < to : now >= from || now < to;
+}
+
+/**
+ * Pick the open alerts of `log` to notify about. An episode notifies when it
+ * starts, when its severity rises and otherwise at most once per
+ * `repeatMinutes`. Nothing is due while notifications are off or during
+ * quiet hours.
+ */
+export function selectNotifications(
+  log: Alert[],
+  preferences: NotificationPreferences,
+  episodes: NotifiedEpisodes,
+  now: Date = new Date()
+): { due: Alert[]; episodes: NotifiedEpisodes } {
+  const open = activeAlerts(log);
+  // Forget the episodes this log saw end; keys it does not know are left to
+  // the log of the other side
+  const openKeys = new Set(log.filter(alert => !alert.endedAt).map(alert => alert.key));
+  const known = new Set(log.map(alert => alert.key));
+  const next: NotifiedEpisodes = Object.fromEntries(
+    Object.entries(episodes).filter(([key]) => openKeys.has(key) || !known.has(key))
+  );
+  if (!preferences.enabled || isQuietTime(preferences.quietHours, now)) {
+    return { due: [], episodes: next };
+  }
+
+  const due = open.filter(alert => {
+    if (ALERT_SEVERITY_RANK[alert.severity] < ALERT_SEVERITY_RANK[preferences.minSeverity]) return false;
+    if (preferences.stationIds && !preferences.stationIds.includes(alert.stationId)) return false;
+
+    const last = next[alert.key];
+    return (
+      !last ||
+      ALERT_SEVERITY_RANK[alert.severity] > ALERT_SEVERITY_RANK[last.severity] ||
+      now.getTime() - new Date(last.notifiedAt).getTime() >= preferences.repeatMinutes * 60 * 1000
+    );
+  });
+
+  due.forEach(alert => {
+    next[alert.key] = { notifiedAt: now.toISOString(), severity: alert.severity };
+  });
+  return { due, episodes: next };
+}
+
+export const notificationContent = (alert: Alert): { title: string; body: string } => ({
+  title: messages().notifications.notificationTitle(
+    ALERT_SEVERITY_LABELS[alert.severity],
+    POLLUTANT_LABELS[alert.pollutant],
+    alert.stationName
+  ),
+  body: messages().notifications.notificationBody(
+    `${ALERT_WINDOW_LABELS[alert.window]} ${formatAlertValue(alert.value, alert.pollutant)}`,
+    formatAlertValue(alert.threshold, alert.pollutant),
+    alertRuleName(alert)
+  ),
+});
+
+/**
+ * Key/value store over the Cache API. Unlike localStorage it is shared with
+ * the service worker, so both sides see the same episodes and config.
+ */
+const SHARED_CACHE = 'alert-state';
+
+export const sharedStore = {
+  async get<T>(key: string): Promise<T | undefined> {
+    if (typeof caches === 'undefined') return undefined;
+    try {
+      const response = await (await caches.open(SHARED_CACHE)).match(`/__alert-state/${key}`);
+      return response ? ((await response.json()) as T) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  },
+
+  async set(key: string, value: unknown): Promise<void> {
+    if (typeof caches === 'undefined') return;
+    try {
+      const cache = await caches.open(SHARED_CACHE);
+      await cache.put(
+        `/__alert-state/${key}`,
+        new Response(JSON.stringify(value), { headers: { 'Content-Type': 'application/json' } })
+      );
+    } catch (error) {
+      console.warn(`${key} could not be stored:`, error instanceof Error ? error.message : String(error));
+    }
+  },
+};
+
+/**
+ * Show the due notifications through `registration` (page or service
+ * worker). Returns how many were shown.
+ */
+export async function showAlertNotifications(
+  registration: ServiceWorkerRegistration | null,
+  log: Alert[],
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): Promise<number> {
+  const episodes = (await sharedStore.get<NotifiedEpisodes>(EPISODES_KEY)) ?? {};
+  const selection = selectNotifications(log, preferences, episodes, now);
+  await sharedStore.set(EPISODES_KEY, selection.episodes);
+
+  await Promise.all(
+    selection.due.map(alert => {
+      const { title, body } = notificationContent(alert);
+      const options = { body, tag: alert.key, icon: '/logo192.png', data: { url: '/' } };
+      if (registration) return registration.showNotification(title, options);
+      new Notification(title, options);
+      return undefined;
+    })
+  );
+  return selection.due.length;
+}
+
+export const notificationsSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+export function loadNotificationPreferences(): NotificationPreferences {
+  const stored = readJSON(PREFERENCES_STORAGE_KEY);
+  if (!stored || typeof stored !== 'object') return DEFAULT_NOTIFICATION_PREFERENCES;
+  const preferences = stored as Partial<NotificationPreferences>;
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...preferences,
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...preferences.quietHours },
+  };
+}
+
+export const saveNotificationPreferences = (preferences: NotificationPreferences): void =>
+  writeJSON(PREFERENCES_STORAGE_KEY, preferences, 'Notification preferences');
+
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+}
+
+/**
+ * Register the service worker (production builds only) and hand it the
+ * rules and preferences. Background checks use Periodic Background Sync,
+ * which Chromium offers to installed apps; elsewhere notifications are only
+ * sent while a dashboard tab is open. Resolves to null without a worker.
+ */
+export async function registerAlertWorker(config: WorkerConfig): Promise<ServiceWorkerRegistration | null> {
+  await sharedStore.set(WORKER_CONFIG_KEY, config);
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return null;
+
+  try {
+    await navigator.serviceWorker.register(`${process.env.PUBLIC_URL}/service-worker.js`);
+    const registration = (await navigator.serviceWorker.ready) as PeriodicSyncRegistration;
+
+    if (config.preferences.enabled && registration.periodicSync) {
+      const status = await navigator.permissions
+        .query({ name: 'periodic-background-sync' as PermissionName })
+        .catch(() => null);
+      if (status?.state === 'granted') {
+        await registration.periodicSync.register(ALERT_SYNC_TAG, { minInterval: SYNC_INTERVAL_MS });
+      }
+    }
+    return registration;
+  } catch (error) {
+    console.warn('Alert service worker unavailable:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
@@ -0,0 +1,77 @@
+import { HOLDOUT_DAYS, NOWCAST_HORIZONS, nowcast } from './nowcast';
+
+const HOUR = 3600 * 1000;
+const start = new Date(2026, 8, 1).getTime();
+
+// Wind clears the air; a slow weather cycle makes persistence a poor guess
+const windAt = (hour: number) => 10 + 8 * Math.sin((2 * Math.PI * hour) / 37);
+const aqiAt = (hour: number) => 120 - 6 * windAt(hour);
+
+const series = (hours: number) => {
+  const history = Array.from({ length: hours }, (_, hour) => ({
+    date: new Date(start + hour * HOUR).toISOString(),
+    aqi: aqiAt(hour),
+    pm25: aqiAt(hour) / 3,
+    pm10: 0,
+  }));
+  const weather = Array.from({ length: hours + 24 }, (_, hour) => ({
+    date: new Date(start + hour * HOUR).toISOString(),
+    aqi: 0,
+    pm25: 0,
+    pm10: 0,
+    temperature: 15,
+    humidity: 60,
+    windSpeed: windAt(hour),
+    pressure: 1015,
+  }));
+  return { history, weather };
+};
+
+describe('nowcast', () => {
+  it('predicts every horizon after the last reading from the weather at the target hour', () => {
+    const hours = 30 * 24;
+    const { history, weather } = series(hours);
+
+    const forecast = weather.slice(hours).map(point => ({
+      timestamp: point.date,
+      temperature: 15,
+      humidity: 60,
+      windSpeed: point.windSpeed,
+      pressure: 1015,
+      uvIndex: null,
+      visibility: null,
+      windDirection: null,
+      windGusts: null,
+      precipitation: null,
+      cloudCover: null,
+      boundaryLayerHeight: null,
+    }));
+    const result = nowcast(history, weather.slice(0, hours), forecast);
+
+    expect(result?.issuedAt).toBe(history[hours - 1].date);
+    expect(result?.predictions.map(prediction => prediction.horizon)).toEqual(NOWCAST_HORIZONS);
+    result?.predictions.forEach(prediction => {
+      const hour = hours - 1 + prediction.horizon;
+      expect(prediction.timestamp).toBe(new Date(start + hour * HOUR).toISOString());
+      expect(prediction.aqi).toBeCloseTo(aqiAt(hour), 0);
+    });
+  });
+
+  it('backtests on held-out days and beats persistence when the weather drives the AQI', () => {
+    const { history, weather } = series(30 * 24);
+
+    const result = nowcast(history, weather);
+
+    expect(result?.backtest).toHaveLength(NOWCAST_HORIZONS.length);
+    result?.backtest.forEach(score => {
+      expect(score.samples).toBeLessThanOrEqual(HOLDOUT_DAYS * 24);
+      expect(score.rmse).toBeGreaterThanOrEqual(score.mae);
+      expect(score.mae).toBeLessThan(score.persistenceMae / 5);
+    });
+  });
+
+  it('returns null for a history too short to fit', () => {
+    const { history, weather } = series(24);
+    expect(nowcast(history, weather)).toBeNull();
+  });
+});
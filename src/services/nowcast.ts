@@ -0,0 +1,246 @@
+// src/services/nowcast.ts
+import { HistoricalDataPoint, WeatherData } from '../types';
+
+/**
+ * Local statistical AQI nowcast.
+ *
+ * One ridge regression per horizon, fitted in the browser on a station's
+ * hourly history joined with the weather at the target hour. The features are
+ * the latest AQI, its 24-hour mean and PM2.5 at issue time, plus temperature,
+ * humidity, wind speed, pressure, hour of day and weekend at the target hour.
+ * Training uses the observed weather; predictions use the weather forecast.
+ * Missing feature values are imputed with the training mean.
+ */
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+export const NOWCAST_HORIZONS = [6, 12, 18, 24];
+
+// History the model is fitted on, and how much of it the backtest holds out
+export const TRAINING_DAYS = 30;
+export const HOLDOUT_DAYS = 7;
+
+const RIDGE_LAMBDA = 1;
+
+// Fewer samples than two days of hours do not make a model
+const MIN_TRAINING_SAMPLES = 48;
+
+export const NOWCAST_FEATURES = [
+  'aqi',
+  'aqiMean24h',
+  'pm25',
+  'temperature',
+  'humidity',
+  'windSpeed',
+  'pressure',
+  'hourSin',
+  'hourCos',
+  'weekend',
+] as const;
+
+type WeatherSample = Partial<Pick<WeatherData, 'temperature' | 'humidity' | 'windSpeed' | 'pressure'>>;
+
+interface Sample {
+  issuedAt: number;
+  features: number[];
+  target: number;
+  /** AQI at issue time, the naive "nothing changes" forecast */
+  persistence: number;
+}
+
+interface Model {
+  means: number[];
+  scales: number[];
+  weights: number[];
+  intercept: number;
+}
+
+export interface NowcastPrediction {
+  horizon: number;
+  timestamp: string;
+  aqi: number;
+}
+
+export interface BacktestScore {
+  horizon: number;
+  mae: number;
+  rmse: number;
+  /** MAE of repeating the AQI at issue time, the baseline to beat */
+  persistenceMae: number;
+  samples: number;
+}
+
+export interface Nowcast {
+  issuedAt: string;
+  predictions: NowcastPrediction[];
+  backtest: BacktestScore[];
+  trainingSamples: number;
+}
+
+type Reading = HistoricalDataPoint & { aqi: number };
+
+const hourKey = (time: number): number => Math.floor(time / HOUR) * HOUR;
+
+const numberOrNaN = (value: number | null | undefined): number =>
+  typeof value === 'number' && isFinite(value) ? value : NaN;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function features(aqi: number, aqiMean24h: number, pm25: number, target: number, weather?: WeatherSample): number[] {
+  const date = new Date(target);
+  const angle = (2 * Math.PI * date.getHours()) / 24;
+  return [
+    aqi,
+    aqiMean24h,
+    pm25,
+    numberOrNaN(weather?.temperature),
+    numberOrNaN(weather?.humidity),
+    numberOrNaN(weather?.windSpeed),
+    numberOrNaN(weather?.pressure),
+    Math.sin(angle),
+    Math.cos(angle),
+    date.getDay() === 0 || date.getDay() === 6 ? 1 : 0,
+  ];
+}
+
+/** Solve A x = b by Gaussian elimination with partial pivoting */
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+const standardize = (model: Pick<Model, 'means' | 'scales'>, row: number[]): number[] =>
+  row.map((value, j) => (isFinite(value) ? (value - model.means[j]) / model.scales[j] : 0));
+
+function fit(samples: Sample[]): Model {
+  const width = NOWCAST_FEATURES.length;
+  const means: number[] = [];
+  const scales: number[] = [];
+  for (let j = 0; j < width; j++) {
+    const column = samples.map(sample => sample.features[j]).filter(value => isFinite(value));
+    const columnMean = column.length > 0 ? mean(column) : 0;
+    const spread = column.length > 0 ? Math.sqrt(mean(column.map(value => (value - columnMean) ** 2))) : 0;
+    means.push(columnMean);
+    scales.push(spread > 0 ? spread : 1);
+  }
+
+  const rows = samples.map(sample => standardize({ means, scales }, sample.features));
+  const intercept = mean(samples.map(sample => sample.target));
+  const gram = Array.from({ length: width }, (_, i) =>
+    Array.from({ length: width }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? RIDGE_LAMBDA : 0))
+  );
+  const moments = Array.from({ length: width }, (_, i) =>
+    rows.reduce((sum, row, n) => sum + row[i] * (samples[n].target - intercept), 0)
+  );
+
+  return { means, scales, weights: solve(gram, moments), intercept };
+}
+
+const predict = (model: Model, row: number[]): number =>
+  Math.max(0, standardize(model, row).reduce((sum, value, j) => sum + value * model.weights[j], model.intercept));
+
+/**
+ * AQI predictions of one station for NOWCAST_HORIZONS hours after its last
+ * reading, with a backtest on the last HOLDOUT_DAYS of the history. `history`
+ * must be hourly; its AQI decides the scale the predictions are in. Null
+ * when the history is too short to fit any horizon.
+ */
+export function nowcast(
+  history: HistoricalDataPoint[],
+  weatherHistory: HistoricalDataPoint[],
+  weatherForecast: WeatherData[] = []
+): Nowcast | null {
+  // Hours without a valid AQI can be neither an issue time nor a target
+  const readings = new Map<number, Reading>();
+  history.forEach(point => {
+    if (point.aqi !== null) readings.set(hourKey(new Date(point.date).getTime()), { ...point, aqi: point.aqi });
+  });
+  const times = Array.from(readings.keys()).sort((a, b) => a - b);
+  if (times.length === 0) return null;
+
+  const observedWeather = new Map<number, WeatherSample>();
+  weatherHistory.forEach(point => observedWeather.set(hourKey(new Date(point.date).getTime()), point));
+  const forecastWeather = new Map<number, WeatherSample>();
+  weatherForecast.forEach(point => forecastWeather.set(hourKey(new Date(point.timestamp).getTime()), point));
+
+  const aqiMean24h = (time: number): number => {
+    const values: number[] = [];
+    for (let hour = 0; hour < 24; hour++) {
+      const point = readings.get(time - hour * HOUR);
+      if (point) values.push(point.aqi);
+    }
+    return mean(values);
+  };
+  const issueFeatures = (time: number, target: number, weather?: WeatherSample): number[] => {
+    const point = readings.get(time) as Reading;
+    return features(point.aqi, aqiMean24h(time), numberOrNaN(point.pm25), target, weather);
+  };
+
+  const last = times[times.length - 1];
+  const holdoutStart = last - HOLDOUT_DAYS * DAY;
+  const latestWeather = [...weatherHistory].sort((a, b) => a.date.localeCompare(b.date)).pop();
+  const predictions: NowcastPrediction[] = [];
+  const backtest: BacktestScore[] = [];
+  let trainingSamples = 0;
+
+  NOWCAST_HORIZONS.forEach(horizon => {
+    const samples: Sample[] = times
+      .filter(time => readings.has(time + horizon * HOUR))
+      .map(time => ({
+        issuedAt: time,
+        features: issueFeatures(time, time + horizon * HOUR, observedWeather.get(time + horizon * HOUR)),
+        target: (readings.get(time + horizon * HOUR) as Reading).aqi,
+        persistence: (readings.get(time) as Reading).aqi,
+      }));
+    if (samples.length < MIN_TRAINING_SAMPLES) return;
+
+    // Train only on targets before the held-out days, so nothing leaks into the backtest
+    const training = samples.filter(sample => sample.issuedAt + horizon * HOUR < holdoutStart);
+    const heldOut = samples.filter(sample => sample.issuedAt >= holdoutStart);
+    if (training.length >= MIN_TRAINING_SAMPLES && heldOut.length > 0) {
+      const model = fit(training);
+      const errors = heldOut.map(sample => predict(model, sample.features) - sample.target);
+      backtest.push({
+        horizon,
+        mae: mean(errors.map(Math.abs)),
+        rmse: Math.sqrt(mean(errors.map(error => error * error))),
+        persistenceMae: mean(heldOut.map(sample => Math.abs(sample.persistence - sample.target))),
+        samples: heldOut.length,
+      });
+    }
+
+    const target = last + horizon * HOUR;
+    const model = fit(samples);
+    trainingSamples = Math.max(trainingSamples, samples.length);
+    predictions.push({
+      horizon,
+      timestamp: new Date(target).toISOString(),
+      aqi: predict(model, issueFeatures(last, target, forecastWeather.get(target) ?? latestWeather)),
+    });
+  });
+
+  return predictions.length > 0
+    ? { issuedAt: new Date(last).toISOString(), predictions, backtest, trainingSamples }
+    : null;
+}
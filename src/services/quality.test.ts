@@ -0,0 +1,97 @@
+import { STUCK_HOURS, checkFreshness, readingCompleteness, seriesCompleteness, validateReading, validateSeries } from './quality';
+
+const HOUR = 3600 * 1000;
+const start = new Date(2026, 9, 1).getTime();
+
+const hourly = (values: Array<number | null>) =>
+  values.map((pm25, hour) => ({
+    date: new Date(start + hour * HOUR).toISOString(),
+    aqi: 0,
+    pm25,
+    pm10: 20 + (hour % 3),
+  }));
+
+describe('validateReading', () => {
+  it('nulls missing, negative and implausible values and flags them', () => {
+    const { measurements, quality } = validateReading({ pm25: 12, pm10: -4, no2: 5000, o3: null, so2: 3, co: 0.4 });
+
+    expect(measurements).toEqual({ pm25: 12, pm10: null, no2: null, o3: null, so2: 3, co: 0.4 });
+    expect(quality).toEqual({
+      pm25: 'valid',
+      pm10: 'negative',
+      no2: 'implausible',
+      o3: 'missing',
+      so2: 'valid',
+      co: 'valid',
+    });
+    expect(readingCompleteness(quality)).toBe(0.5);
+  });
+});
+
+describe('checkFreshness', () => {
+  const reading = (timestamp: string) => ({
+    stationId: 1,
+    stationName: 'Berceni',
+    timestamp,
+    ...validateReading({ pm25: 12, pm10: 30, no2: 20, o3: 40, so2: 3 }),
+    aqi: 50,
+  });
+  const now = new Date(2026, 9, 1, 12);
+
+  it('flags a reading older than a few hours as stale and drops its index', () => {
+    const stale = checkFreshness(reading(new Date(2026, 9, 1, 6).toISOString()), now);
+
+    expect(stale.aqi).toBeNull();
+    expect(stale.measurements.pm25).toBeNull();
+    expect(stale.quality.pm25).toBe('stale');
+    expect(stale.quality.co).toBe('missing');
+  });
+
+  it('leaves a recent reading as it is', () => {
+    const fresh = reading(new Date(2026, 9, 1, 11).toISOString());
+    expect(checkFreshness(fresh, now)).toBe(fresh);
+  });
+});
+
+describe('validateSeries', () => {
+  it('flags a run of identical values as a stuck sensor', () => {
+    const values = [10, 12, ...Array(STUCK_HOURS).fill(15), 11, 13];
+    const series = validateSeries(hourly(values));
+
+    expect(series.map(point => point.pm25)).toEqual([10, 12, ...Array(STUCK_HOURS).fill(null), 11, 13]);
+    expect(series[2].quality).toEqual({ pm25: 'stuck' });
+    // PM10 is still valid, so those hours keep an index
+    expect(series[2].aqi).not.toBeNull();
+  });
+
+  it('leaves a flat run at the detection limit alone', () => {
+    const series = validateSeries(hourly(Array(STUCK_HOURS + 2).fill(1)));
+    expect(series.every(point => point.pm25 === 1)).toBe(true);
+  });
+
+  it('flags an isolated spike but not a sustained episode', () => {
+    const series = validateSeries(hourly([10, 11, 300, 12, 10, 80, 90, 85]));
+
+    expect(series[2].pm25).toBeNull();
+    expect(series[2].quality).toEqual({ pm25: 'spike' });
+    expect(series.slice(5).map(point => point.pm25)).toEqual([80, 90, 85]);
+  });
+
+  it('recomputes the index from the valid values only, null without any', () => {
+    const [point] = validateSeries([
+      { date: new Date(start).toISOString(), aqi: 0, pm25: -5, pm10: null },
+    ]);
+
+    expect(point.aqi).toBeNull();
+    expect(point.quality).toEqual({ pm25: 'negative' });
+  });
+});
+
+describe('seriesCompleteness', () => {
+  it('counts the buckets of the range with an index', () => {
+    const range = { start: new Date(start), end: new Date(start + 10 * HOUR) };
+    const series = hourly(Array(10).fill(10)).map((point, hour) => ({ ...point, aqi: hour < 8 ? 30 : null }));
+
+    expect(seriesCompleteness(series, range, 'hourly')).toBeCloseTo(0.8);
+  });
+});
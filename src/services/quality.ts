@@ -0,0 +1,166 @@
+// src/services/quality.ts
+import { AirQualityData, AirQualityMeasurement, HistoricalDataPoint, MeasurementQuality, QualityFlag } from '../types';
+import { POLLUTANTS, Pollutant, indexOrNull } from './aqi';
+import { DateRange, Resolution, getResolution } from './timeRange';
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+// Concentrations no urban sensor reports outside a fault (μg/m³, CO mg/m³)
+export const PLAUSIBLE_MAX: Record<Pollutant, number> = {
+  pm25: 1000,
+  pm10: 2000,
+  no2: 1000,
+  o3: 800,
+  so2: 2000,
+  co: 100,
+};
+
+// A current reading older than this no longer describes the air now
+export const STALE_AFTER_HOURS = 3;
+
+// The same value this many hours in a row means the sensor is stuck
+export const STUCK_HOURS = 6;
+
+// Runs at or below these levels are left alone: clean air reads the same
+// value near the detection limit for hours (μg/m³, CO mg/m³)
+export const DETECTION_LIMIT: Record<Pollutant, number> = {
+  pm25: 2,
+  pm10: 3,
+  no2: 5,
+  o3: 5,
+  so2: 3,
+  co: 0.1,
+};
+
+// An isolated reading this many times above both neighbours, and at least
+// SPIKE_MIN_JUMP above them, is a glitch rather than a pollution episode
+export const SPIKE_FACTOR = 4;
+export const SPIKE_MIN_JUMP: Record<Pollutant, number> = {
+  pm25: 50,
+  pm10: 100,
+  no2: 100,
+  o3: 100,
+  so2: 100,
+  co: 5,
+};
+
+export interface ValidatedReading {
+  measurements: AirQualityMeasurement;
+  quality: MeasurementQuality;
+}
+
+/** Checks a single value can pass on its own: present, not negative, physically plausible */
+export function checkValue(pollutant: Pollutant, value: unknown): QualityFlag {
+  if (typeof value !== 'number' || !isFinite(value)) return 'missing';
+  if (value < 0) return 'negative';
+  if (value > PLAUSIBLE_MAX[pollutant]) return 'implausible';
+  return 'valid';
+}
+
+// Keep the values that passed, null the rest
+function toMeasurements(values: Partial<Record<Pollutant, unknown>>, quality: MeasurementQuality): AirQualityMeasurement {
+  const measurements = {} as AirQualityMeasurement;
+  POLLUTANTS.forEach(pollutant => {
+    measurements[pollutant] = quality[pollutant] === 'valid' ? (values[pollutant] as number) : null;
+  });
+  return measurements;
+}
+
+/**
+ * Validate the current reading of a station value by value. Stuck sensors
+ * and spikes need the neighbouring hours, so they are caught by
+ * `validateSeries` on the history.
+ */
+export function validateReading(raw: Partial<Record<Pollutant, unknown>>): ValidatedReading {
+  const quality = Object.fromEntries(
+    POLLUTANTS.map(pollutant => [pollutant, checkValue(pollutant, raw[pollutant])])
+  ) as MeasurementQuality;
+  return { measurements: toMeasurements(raw, quality), quality };
+}
+
+/**
+ * Flag the valid values of a reading older than STALE_AFTER_HOURS as stale.
+ * Checked whenever the reading is served, since a cached reading ages.
+ */
+export function checkFreshness(reading: AirQualityData, now: Date = new Date()): AirQualityData {
+  const age = now.getTime() - new Date(reading.timestamp).getTime();
+  if (age <= STALE_AFTER_HOURS * HOUR) return reading;
+
+  const quality = Object.fromEntries(
+    POLLUTANTS.map(pollutant => [pollutant, reading.quality[pollutant] === 'valid' ? 'stale' : reading.quality[pollutant]])
+  ) as MeasurementQuality;
+  return { ...reading, measurements: toMeasurements(reading.measurements, quality), quality, aqi: null };
+}
+
+/**
+ * Validate a station history: every value is checked on its own, then runs
+ * of STUCK_HOURS identical values above the detection limit and isolated
+ * spikes are flagged too.
+ * Flagged values become null, the AQI is recomputed from what is left and is
+ * null when nothing is. Points come back sorted by date.
+ */
+export function validateSeries(points: HistoricalDataPoint[]): HistoricalDataPoint[] {
+  const sorted = [...points].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const flags = POLLUTANTS.map(pollutant => {
+    const values = sorted.map(point => point[pollutant]);
+    const result = values.map(value => checkValue(pollutant, value));
+    const usable = (i: number) => result[i] === 'valid';
+
+    let runStart = 0;
+    for (let i = 1; i <= values.length; i++) {
+      if (i < values.length && usable(i) && usable(runStart) && values[i] === values[runStart]) continue;
+      if (i - runStart >= STUCK_HOURS && usable(runStart) && (values[runStart] as number) > DETECTION_LIMIT[pollutant]) {
+        for (let j = runStart; j < i; j++) result[j] = 'stuck';
+      }
+      runStart = i;
+    }
+
+    values.forEach((value, i) => {
+      if (!usable(i) || !usable(i - 1) || !usable(i + 1)) return;
+      const neighbours = Math.max(values[i - 1] as number, values[i + 1] as number);
+      const current = value as number;
+      if (current > SPIKE_FACTOR * neighbours && current - neighbours >= SPIKE_MIN_JUMP[pollutant]) {
+        result[i] = 'spike';
+      }
+    });
+    return result;
+  });
+
+  return sorted.map((point, i) => {
+    const quality = Object.fromEntries(POLLUTANTS.map((pollutant, p) => [pollutant, flags[p][i]])) as MeasurementQuality;
+    const measurements = toMeasurements(point, quality);
+    const rejected = POLLUTANTS.filter(pollutant => quality[pollutant] !== 'valid' && quality[pollutant] !== 'missing');
+    const validated: HistoricalDataPoint = {
+      ...point,
+      ...measurements,
+      aqi: indexOrNull(measurements),
+    };
+    if (rejected.length > 0) {
+      validated.quality = Object.fromEntries(rejected.map(pollutant => [pollutant, quality[pollutant]]));
+    }
+    return validated;
+  });
+}
+
+/** Share of the pollutants of a reading that passed validation, 0–1 */
+export const readingCompleteness = (quality: MeasurementQuality): number =>
+  POLLUTANTS.filter(pollutant => quality[pollutant] === 'valid').length / POLLUTANTS.length;
+
+/** Pollutants of a reading that were rejected, with the reason */
+export const rejectedPollutants = (quality: MeasurementQuality): Array<[Pollutant, QualityFlag]> =>
+  POLLUTANTS.filter(pollutant => quality[pollutant] !== 'valid').map(pollutant => [pollutant, quality[pollutant]]);
+
+/**
+ * Share of the buckets of `range` for which an aggregated series has an AQI,
+ * 0–1. Hours or days the station did not report count as missing.
+ */
+export function seriesCompleteness(
+  series: HistoricalDataPoint[],
+  range: DateRange,
+  resolution: Resolution = getResolution(range)
+): number {
+  const step = resolution === 'hourly' ? HOUR : DAY;
+  const expected = Math.max(1, Math.ceil((range.end.getTime() - range.start.getTime()) / step));
+  return Math.min(1, series.filter(point => point.aqi !== null).length / expected);
+}
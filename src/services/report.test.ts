@@ -0,0 +1,86 @@
+import { AirQualityData } from '../types';
+import { validateReading } from './quality';
+import { Report, captureCharts, toReportHTML, stationSummaryTable } from './report';
+
+const reading = (stationId: number, stationName: string, pm25: number): AirQualityData => ({
+  stationId,
+  stationName,
+  timestamp: '2026-07-01T12:00:00.000Z',
+  ...validateReading({ pm25, pm10: 20, no2: 15, o3: 30, so2: 3, co: 0.3 }),
+  aqi: 0,
+});
+
+const report = (overrides: Partial<Report> = {}): Report => ({
+  title: 'Buletin calitatea aerului – București',
+  range: { start: new Date(2026, 5, 1), end: new Date(2026, 5, 7, 23) },
+  generatedAt: new Date(2026, 5, 8, 9, 30),
+  schemeId: 'eaqi',
+  kpis: [{ label: 'Indice mediu Calitate Aer', value: '2', detail: 'Acceptabil' }],
+  charts: [],
+  stations: stationSummaryTable([reading(1, 'Drumul Taberei', 8), reading(2, 'Cercul Militar', 40)], 'eaqi'),
+  alerts: [],
+  recommendations: [{ title: 'Persoane Sensibile', text: 'Limitați efortul <prelungit>.' }],
+  ...overrides,
+});
+
+describe('stationSummaryTable', () => {
+  it('lists the worst station first with units in the headers', () => {
+    const table = stationSummaryTable([reading(1, 'Drumul Taberei', 8), reading(2, 'Cercul Militar', 40)], 'epa');
+
+    expect(table.rows.map(row => row[0])).toEqual(['Cercul Militar', 'Drumul Taberei']);
+    expect(table.columns.map(column => column.header)).toContain('PM2.5 (μg/m³)');
+    expect(table.rows[0][3]).toBe('PM2.5');
+  });
+});
+
+describe('toReportHTML', () => {
+  it('lays out the period, KPIs, table and recommendations for A4', () => {
+    const markup = toReportHTML(report());
+
+    expect(markup).toContain('@page { size: A4');
+    expect(markup).toContain('Perioada: 01.06.2026 – 07.06.2026');
+    expect(markup).toContain('Generat la 08.06.2026 09:30');
+    expect(markup).toContain('<td>Cercul Militar</td>');
+    expect(markup).toContain('Limitați efortul &lt;prelungit&gt;.');
+    expect(markup).toContain('Nicio alertă declanșată');
+  });
+
+  it('lists the triggered alerts', () => {
+    const markup = toReportHTML(report({ alerts: ['Calitatea aerului: Slab.'] }));
+    expect(markup).toContain('<li>Calitatea aerului: Slab.</li>');
+    expect(markup).not.toContain('Nicio alertă declanșată');
+  });
+});
+
+describe('captureCharts', () => {
+  it('snapshots marked charts as standalone SVG with their legend', () => {
+    document.body.innerHTML = `
+      <div data-report-chart="Tendințe Istorice" data-report-caption="AQI mediu">
+        <svg class="recharts-surface" width="400" height="200" style="width: 100%">
+          <path d="M0 0L10 10" stroke="#8b5cf6" />
+        </svg>
+        <ul>
+          <li class="recharts-legend-item"><svg><path class="recharts-legend-icon" stroke="#ef4444" fill="none" /></svg>PM2.5</li>
+          <li class="recharts-legend-item"><svg><path class="recharts-legend-icon" fill="#8b5cf6" /></svg>AQI</li>
+        </ul>
+      </div>
+      <div data-report-chart="Fără grafic"></div>`;
+
+    const charts = captureCharts();
+
+    expect(charts).toHaveLength(1);
+    expect(charts[0]).toMatchObject({
+      title: 'Tendințe Istorice',
+      caption: 'AQI mediu',
+      width: 400,
+      height: 200,
+      legend: [
+        { label: 'PM2.5', color: '#ef4444' },
+        { label: 'AQI', color: '#8b5cf6' },
+      ],
+    });
+    expect(charts[0].svg).toContain('viewBox="0 0 400 200"');
+    expect(charts[0].svg).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(charts[0].svg).not.toContain('style=');
+  });
+});
@@ -0,0 +1,497 @@
+// src/services/report.ts
+import { format } from 'date-fns';
+import { formatDate, getLocale, localizedLabels, messages } from '../i18n';
+import { AirQualityData } from '../types';
+import { AQISchemeId, POLLUTANT_LABELS, calculateAQI, formatAQI, getAQILevel, getAQIScheme } from './aqi';
+import { ExportFile, ExportTable } from './export';
+import { DateRange, formatPeriod } from './timeRange';
+import { MEASUREMENT_UNITS } from './units';
+import { createZip } from './zip';
+
+export type ReportFormat = 'pdf' | 'png';
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = localizedLabels(catalog => catalog.report.formats);
+
+export interface ReportKPI {
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+export interface ReportChart {
+  title: string;
+  caption?: string;
+  /** Standalone SVG markup of the chart */
+  svg: string;
+  width: number;
+  height: number;
+  legend: { label: string; color: string }[];
+}
+
+export interface ReportSection {
+  title: string;
+  text: string;
+}
+
+export interface Report {
+  title: string;
+  range: DateRange;
+  generatedAt: Date;
+  schemeId: AQISchemeId;
+  kpis: ReportKPI[];
+  charts: ReportChart[];
+  stations: ExportTable;
+  alerts: string[];
+  recommendations: ReportSection[];
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+
+const round = (value: number | null) => (value !== null && isFinite(value) ? Number(value.toFixed(1)) : null);
+
+/** One row per station, worst first */
+export function stationSummaryTable(readings: AirQualityData[], schemeId: AQISchemeId): ExportTable {
+  const rows = readings
+    .map(reading => ({ reading, result: calculateAQI(reading.measurements, schemeId) }))
+    .sort((a, b) => b.result.aqi - a.result.aqi);
+
+  const { summary, station, level, dominantPollutant } = messages().report;
+  return {
+    name: summary,
+    columns: [
+      { key: 'station', header: station },
+      { key: 'aqi', header: `AQI (${getAQIScheme(schemeId).name})` },
+      { key: 'level', header: level },
+      { key: 'dominant', header: dominantPollutant },
+      ...(['pm25', 'pm10', 'no2'] as const).map(pollutant => ({
+        key: pollutant,
+        header: `${POLLUTANT_LABELS[pollutant]} (${MEASUREMENT_UNITS[pollutant]})`,
+      })),
+    ],
+    rows: rows.map(({ reading, result }) => [
+      reading.stationName,
+      // A station without a single valid value has no index, not a good one
+      result.dominantPollutant ? formatAQI(result.aqi, schemeId) : null,
+      result.dominantPollutant ? getAQILevel(result.aqi, schemeId).label : null,
+      result.dominantPollutant ? POLLUTANT_LABELS[result.dominantPollutant] : null,
+      round(reading.measurements.pm25),
+      round(reading.measurements.pm10),
+      round(reading.measurements.no2),
+    ]),
+  };
+}
+
+const numericAttribute = (element: Element, name: string) => Number(element.getAttribute(name)) || 0;
+
+/**
+ * Snapshot every chart marked with `data-report-chart="<title>"`. Recharts
+ * draws the plot as SVG but the legend as HTML, so the legend entries are
+ * read separately.
+ */
+export function captureCharts(root: ParentNode = document): ReportChart[] {
+  return Array.from(root.querySelectorAll<HTMLElement>('[data-report-chart]')).flatMap(container => {
+    const surface = container.querySelector('svg.recharts-surface');
+    if (!surface) return [];
+
+    const width = numericAttribute(surface, 'width') || surface.getBoundingClientRect().width;
+    const height = numericAttribute(surface, 'height') || surface.getBoundingClientRect().height;
+    if (!width || !height) return [];
+
+    const clone = surface.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', SVG_NS);
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    clone.setAttribute('font-family', FONT_FAMILY);
+    clone.setAttribute('font-size', '12');
+    clone.removeAttribute('style');
+
+    const legend = Array.from(container.querySelectorAll('.recharts-legend-item')).map(item => {
+      const icon = item.querySelector('.recharts-legend-icon');
+      const stroke = icon?.getAttribute('stroke');
+      return {
+        label: item.textContent?.trim() ?? '',
+        color: (stroke && stroke !== 'none' ? stroke : icon?.getAttribute('fill')) || '#6b7280',
+      };
+    });
+
+    return [
+      {
+        title: container.dataset.reportChart ?? '',
+        caption: container.dataset.reportCaption,
+        svg: new XMLSerializer().serializeToString(clone),
+        width,
+        height,
+        legend,
+      },
+    ];
+  });
+}
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const generatedLabel = (report: Report) =>
+  messages().report.generated(formatDate(report.generatedAt, 'dateTime'), getAQIScheme(report.schemeId).name);
+
+// The page counters are spliced into the translated text between CSS strings
+const reportCSS = () => `
+@page { size: A4; margin: 15mm 15mm 18mm; @bottom-right { content: "${messages().report.page('" counter(page) "', '" counter(pages) "')}"; font-size: 8pt; color: #6b7280; } }
+* { box-sizing: border-box; }
+body { margin: 0; font-family: ${FONT_FAMILY}; font-size: 10pt; color: #1f2937; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+header { border-bottom: 2px solid #16a34a; padding-bottom: 8px; margin-bottom: 12px; }
+h1 { font-size: 18pt; margin: 0 0 4px; }
+h2 { font-size: 12pt; margin: 16px 0 6px; break-after: avoid; }
+.muted { color: #6b7280; font-size: 9pt; }
+.kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; }
+.kpi { border: 1px solid #e5e7eb; border-radius: 6px; padding: 6px 8px; }
+.kpi strong { display: block; font-size: 14pt; }
+figure { margin: 0 0 12px; break-inside: avoid; }
+figure svg { width: 100%; height: auto; max-height: 90mm; }
+.legend { display: flex; flex-wrap: wrap; gap: 4px 12px; font-size: 8pt; }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; vertical-align: -1px; }
+table { width: 100%; border-collapse: collapse; font-size: 9pt; }
+thead { display: table-header-group; }
+th { text-align: left; background: #f3f4f6; }
+th, td { padding: 3px 6px; border-bottom: 1px solid #e5e7eb; }
+tr { break-inside: avoid; }
+.section { break-inside: avoid; margin-bottom: 8px; }
+footer { margin-top: 16px; }
+`;
+
+/**
+ * The report as a standalone HTML document laid out for A4 printing. Charts
+ * are embedded as SVG, so "Save as PDF" keeps them vector.
+ */
+export function toReportHTML(report: Report): string {
+  const kpis = report.kpis
+    .map(
+      kpi =>
+        `<div class="kpi"><span class="muted">${escapeHTML(kpi.label)}</span><strong>${escapeHTML(kpi.value)}</strong>` +
+        `${kpi.detail ? `<span class="muted">${escapeHTML(kpi.detail)}</span>` : ''}</div>`
+    )
+    .join('');
+
+  const charts = report.charts
+    .map(
+      chart =>
+        `<figure><h2>${escapeHTML(chart.title)}</h2>${chart.svg}` +
+        `<div class="legend">${chart.legend
+          .map(entry => `<span><i style="background:${escapeHTML(entry.color)}"></i>${escapeHTML(entry.label)}</span>`)
+          .join('')}</div>` +
+        `${chart.caption ? `<figcaption class="muted">${escapeHTML(chart.caption)}</figcaption>` : ''}</figure>`
+    )
+    .join('');
+
+  const cell = (value: string | number | null) => escapeHTML(value === null ? '–' : String(value));
+  const table =
+    `<table><thead><tr>${report.stations.columns.map(column => `<th>${escapeHTML(column.header)}</th>`).join('')}</tr></thead>` +
+    `<tbody>${report.stations.rows.map(row => `<tr>${row.map(value => `<td>${cell(value)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+  const alerts = report.alerts.length
+    ? `<ul>${report.alerts.map(alert => `<li>${escapeHTML(alert)}</li>`).join('')}</ul>`
+    : `<p class="muted">${escapeHTML(messages().report.noAlerts)}</p>`;
+
+  const recommendations = report.recommendations
+    .map(section => `<div class="section"><strong>${escapeHTML(section.title)}</strong><p>${escapeHTML(section.text)}</p></div>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(report.title)} – ${escapeHTML(formatPeriod(report.range))}</title>
+<style>${reportCSS()}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHTML(report.title)}</h1>
+<div>${escapeHTML(messages().report.period(formatPeriod(report.range)))}</div>
+<div class="muted">${escapeHTML(generatedLabel(report))}</div>
+</header>
+<div class="kpis">${kpis}</div>
+${charts}
+<h2>${escapeHTML(report.stations.name)}</h2>
+${table}
+<h2>${escapeHTML(messages().report.alerts)}</h2>
+${alerts}
+<h2>${escapeHTML(messages().report.recommendations)}</h2>
+${recommendations}
+<footer class="muted">${escapeHTML(messages().app.sources)}</footer>
+</body>
+</html>`;
+}
+
+/**
+ * Open the report in a new window and bring up the print dialog, where it
+ * can be printed or saved as PDF.
+ */
+export function printReport(report: Report): void {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error(messages().report.popupBlocked);
+  }
+
+  win.document.open();
+  win.document.write(toReportHTML(report));
+  win.document.close();
+
+  const print = () => {
+    win.focus();
+    win.print();
+  };
+  if (win.document.readyState === 'complete') print();
+  else win.addEventListener('load', print);
+}
+
+// A4 in CSS pixels
+const PAGE_WIDTH = 794;
+const PAGE_HEIGHT = 1123;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const MAX_CHART_HEIGHT = 340;
+
+const font = (size: number, weight: 'normal' | 'bold' = 'normal') => `${weight} ${size}px ${FONT_FAMILY}`;
+
+const loadImage = (svg: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(messages().report.chartFailed));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+const toPNG = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error(messages().report.pngFailed));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+
+/** Lays content out top to bottom, starting a new page when one fills up */
+class PageWriter {
+  readonly pages: HTMLCanvasElement[] = [];
+  private ctx!: CanvasRenderingContext2D;
+  private y = 0;
+
+  constructor(private readonly scale: number) {
+    this.newPage();
+  }
+
+  get context(): CanvasRenderingContext2D {
+    return this.ctx;
+  }
+
+  newPage(): void {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH * this.scale;
+    canvas.height = PAGE_HEIGHT * this.scale;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error(messages().report.canvasUnsupported);
+
+    ctx.scale(this.scale, this.scale);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    ctx.textBaseline = 'top';
+    this.pages.push(canvas);
+    this.ctx = ctx;
+    this.y = MARGIN;
+  }
+
+  /** Start a new page unless `height` still fits on this one */
+  keepTogether(height: number): void {
+    if (this.y + height > PAGE_HEIGHT - MARGIN && this.y > MARGIN) this.newPage();
+  }
+
+  /** Claim room for a block and return its top edge */
+  reserve(height: number): number {
+    this.keepTogether(height);
+    const top = this.y;
+    this.y += height;
+    return top;
+  }
+
+  space(height: number): void {
+    this.y += height;
+  }
+
+  wrap(text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && this.ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  text(text: string, size: number, options: { weight?: 'normal' | 'bold'; color?: string; indent?: number } = {}): void {
+    const { weight = 'normal', color = '#1f2937', indent = 0 } = options;
+    this.ctx.font = font(size, weight);
+    this.wrap(text, CONTENT_WIDTH - indent).forEach(line => {
+      const top = this.reserve(size * 1.4);
+      this.ctx.font = font(size, weight);
+      this.ctx.fillStyle = color;
+      this.ctx.fillText(line, MARGIN + indent, top);
+    });
+  }
+
+  heading(text: string): void {
+    this.space(12);
+    // Keep a heading with at least a few lines of what follows
+    this.keepTogether(60);
+    this.text(text, 15, { weight: 'bold' });
+    this.space(4);
+  }
+}
+
+function drawTable(writer: PageWriter, table: ExportTable): void {
+  const ROW_HEIGHT = 20;
+  // The station name gets the remaining width
+  const widths = table.columns.map((_, i): number => (i === 0 ? 0 : 80));
+  widths[0] = CONTENT_WIDTH - widths.reduce((sum, width) => sum + width, 0);
+
+  const drawRow = (cells: (string | number | null)[], header: boolean) => {
+    const top = writer.reserve(ROW_HEIGHT);
+    const ctx = writer.context;
+    if (header) {
+      ctx.fillStyle = '#f3f4f6';
+      ctx.fillRect(MARGIN, top, CONTENT_WIDTH, ROW_HEIGHT);
+    }
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.beginPath();
+    ctx.moveTo(MARGIN, top + ROW_HEIGHT);
+    ctx.lineTo(MARGIN + CONTENT_WIDTH, top + ROW_HEIGHT);
+    ctx.stroke();
+
+    ctx.font = font(header ? 9 : 10, header ? 'bold' : 'normal');
+    ctx.fillStyle = '#1f2937';
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      ctx.fillText(cell === null ? '–' : String(cell), x + 4, top + 5, widths[i] - 8);
+      x += widths[i];
+    });
+  };
+
+  const headers = table.columns.map(column => column.header);
+  drawRow(headers, true);
+  table.rows.forEach(row => {
+    const before = writer.pages.length;
+    writer.keepTogether(ROW_HEIGHT);
+    // Repeat the header on every page the table spans
+    if (writer.pages.length !== before) drawRow(headers, true);
+    drawRow(row, false);
+  });
+}
+
+/**
+ * Render the report onto A4 canvases at `scale` times CSS resolution (2 is
+ * about 190 DPI). A single page is returned as a PNG, several as a zip.
+ */
+export async function toReportPNG(report: Report, scale = 2): Promise<ExportFile> {
+  const images = await Promise.all(report.charts.map(chart => loadImage(chart.svg)));
+  const writer = new PageWriter(scale);
+
+  writer.text(report.title, 22, { weight: 'bold' });
+  writer.text(messages().report.period(formatPeriod(report.range)), 12);
+  writer.text(generatedLabel(report), 10, { color: '#6b7280' });
+  const ruleTop = writer.reserve(10);
+  writer.context.fillStyle = '#16a34a';
+  writer.context.fillRect(MARGIN, ruleTop + 4, CONTENT_WIDTH, 2);
+
+  const KPI_GAP = 8;
+  const kpiWidth = (CONTENT_WIDTH - KPI_GAP * (report.kpis.length - 1)) / Math.max(report.kpis.length, 1);
+  const kpiTop = writer.reserve(64);
+  report.kpis.forEach((kpi, i) => {
+    const ctx = writer.context;
+    const x = MARGIN + i * (kpiWidth + KPI_GAP);
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.strokeRect(x, kpiTop, kpiWidth, 58);
+    ctx.fillStyle = '#6b7280';
+    ctx.font = font(9);
+    ctx.fillText(kpi.label, x + 8, kpiTop + 6, kpiWidth - 16);
+    ctx.fillStyle = '#1f2937';
+    ctx.font = font(16, 'bold');
+    ctx.fillText(kpi.value, x + 8, kpiTop + 20, kpiWidth - 16);
+    if (kpi.detail) {
+      ctx.fillStyle = '#6b7280';
+      ctx.font = font(9);
+      ctx.fillText(kpi.detail, x + 8, kpiTop + 42, kpiWidth - 16);
+    }
+  });
+
+  report.charts.forEach((chart, i) => {
+    const ratio = chart.height / chart.width;
+    const height = Math.min(CONTENT_WIDTH * ratio, MAX_CHART_HEIGHT);
+    const width = height / ratio;
+
+    writer.heading(chart.title);
+    const top = writer.reserve(height);
+    writer.context.drawImage(images[i], MARGIN + (CONTENT_WIDTH - width) / 2, top, width, height);
+
+    if (chart.legend.length > 0) {
+      const legendTop = writer.reserve(16);
+      const ctx = writer.context;
+      ctx.font = font(9);
+      let x = MARGIN;
+      chart.legend.forEach(entry => {
+        ctx.fillStyle = entry.color;
+        ctx.fillRect(x, legendTop + 2, 9, 9);
+        ctx.fillStyle = '#374151';
+        ctx.fillText(entry.label, x + 13, legendTop + 1);
+        x += 13 + ctx.measureText(entry.label).width + 14;
+      });
+    }
+    if (chart.caption) writer.text(chart.caption, 10, { color: '#6b7280' });
+  });
+
+  writer.heading(report.stations.name);
+  drawTable(writer, report.stations);
+
+  writer.heading(messages().report.alerts);
+  if (report.alerts.length === 0) {
+    writer.text(messages().report.noAlerts, 10, { color: '#6b7280' });
+  }
+  report.alerts.forEach(alert => writer.text(`• ${alert}`, 10));
+
+  writer.heading(messages().report.recommendations);
+  report.recommendations.forEach(section => {
+    writer.text(section.title, 11, { weight: 'bold' });
+    writer.text(section.text, 10);
+    writer.space(6);
+  });
+
+  writer.space(12);
+  writer.text(messages().app.sources, 9, { color: '#6b7280' });
+
+  // Page numbers go on once the page count is known
+  writer.pages.forEach((canvas, i) => {
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    ctx.font = font(9);
+    ctx.fillStyle = '#6b7280';
+    ctx.textAlign = 'right';
+    ctx.fillText(messages().report.page(i + 1, writer.pages.length), PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2);
+  });
+
+  const pages = await Promise.all(writer.pages.map(toPNG));
+  const base = `${messages().report.filename}_${format(report.range.start, 'yyyyMMdd')}-${format(report.range.end, 'yyyyMMdd')}`;
+  if (pages.length === 1) {
+    return { filename: `${base}.png`, mimeType: 'image/png', content: pages[0] };
+  }
+  return {
+    filename: `${base}.zip`,
+    mimeType: 'application/zip',
+    content: createZip(pages.map((data, i) => ({ name: `${base}_${messages().report.pageFilename}-${i + 1}.png`, data }))),
+  };
+}
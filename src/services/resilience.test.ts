@@ -0,0 +1,151 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  applyResiliencePolicy,
+  backoffDelay,
+  createLimiter,
+  parseRetryAfter,
+  resolvePolicy,
+} from './resilience';
+
+type FakeReply = number | 'network' | { status: number; headers?: Record<string, string> };
+
+// Adapter that answers each request with the next scripted reply
+const fakeAdapter = (replies: FakeReply[]) => {
+  const calls: InternalAxiosRequestConfig[] = [];
+
+  const adapter: AxiosAdapter = async config => {
+    calls.push(config);
+    const reply = replies.length > 1 ? replies.shift()! : replies[0];
+
+    if (reply === 'network') {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+    }
+
+    const { status, headers = {} } = typeof reply === 'number' ? { status: reply } : reply;
+    const response: AxiosResponse = { data: { status }, status, statusText: '', headers, config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, null, response);
+    }
+    return response;
+  };
+
+  return { adapter, calls };
+};
+
+const fastPolicy = resolvePolicy({
+  retries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 4,
+  circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 },
+});
+
+const createClient = (replies: FakeReply[], policy = fastPolicy) => {
+  const { adapter, calls } = fakeAdapter(replies);
+  const client = axios.create({ adapter });
+  const breaker = applyResiliencePolicy(client, 'test', policy);
+  return { client, calls, breaker };
+};
+
+describe('applyResiliencePolicy', () => {
+  it('retries transient failures until a request succeeds', async () => {
+    const { client, calls } = createClient([503, 'network', 200]);
+
+    const response = await client.get('/stations');
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const { client, calls } = createClient([500]);
+
+    await expect(client.get('/stations')).rejects.toThrow('status code 500');
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { client, calls, breaker } = createClient([404]);
+
+    await expect(client.get('/stations')).rejects.toThrow('status code 404');
+    expect(calls).toHaveLength(1);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('honors Retry-After on 429 and fails fast when it is too long', async () => {
+    const short = createClient([{ status: 429, headers: { 'retry-after': '0' } }, 200]);
+    await expect(short.client.get('/stations')).resolves.toMatchObject({ status: 200 });
+    expect(short.calls).toHaveLength(2);
+
+    const long = createClient([{ status: 429, headers: { 'retry-after': '3600' } }, 200]);
+    await expect(long.client.get('/stations')).rejects.toThrow('status code 429');
+    expect(long.calls).toHaveLength(1);
+  });
+
+  it('opens the circuit after repeated failures and stops calling the upstream', async () => {
+    const { client, calls, breaker } = createClient([503], resolvePolicy({ ...fastPolicy, retries: 0 }));
+
+    await expect(client.get('/a')).rejects.toThrow();
+    await expect(client.get('/b')).rejects.toThrow();
+    expect(breaker.getState()).toBe('open');
+
+    await expect(client.get('/c')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(calls).toHaveLength(2);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('lets one trial request through after the reset timeout', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('test', { failureThreshold: 1, resetTimeoutMs: 1000 }, () => now);
+
+    breaker.recordFailure();
+    expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError);
+
+    now = 1000;
+    expect(() => breaker.assertCanRequest()).not.toThrow();
+    expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+});
+
+describe('createLimiter', () => {
+  it('never runs more tasks than the concurrency cap', async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let peak = 0;
+
+    const task = async (value: number) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      active -= 1;
+      return value;
+    };
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(value => limit(() => task(value))));
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('retry delays', () => {
+  it('grows exponentially with jitter and stays under the cap', () => {
+    const policy = resolvePolicy({ baseDelayMs: 100, maxDelayMs: 1000 });
+
+    expect(backoffDelay(0, policy, () => 0)).toBe(50);
+    expect(backoffDelay(2, policy, () => 1)).toBe(400);
+    expect(backoffDelay(10, policy, () => 1)).toBe(1000);
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+});
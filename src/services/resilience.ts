@@ -0,0 +1,232 @@
+// src/services/resilience.ts
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export interface CircuitBreakerPolicy {
+  /** Consecutive failed requests that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through */
+  resetTimeoutMs: number;
+}
+
+export interface ResiliencePolicy {
+  /** Per-attempt request timeout */
+  timeoutMs: number;
+  /** Retries after the first attempt */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** HTTP statuses worth retrying; network errors and timeouts always are */
+  retryStatuses: number[];
+  /** Longest Retry-After we are willing to wait; longer ones fail fast */
+  maxRetryAfterMs: number;
+  /** Parallel requests allowed for per-station fan-out */
+  concurrency: number;
+  circuitBreaker: CircuitBreakerPolicy;
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  timeoutMs: 10000,
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  retryStatuses: [408, 425, 429, 500, 502, 503, 504],
+  maxRetryAfterMs: 30000,
+  concurrency: 4,
+  circuitBreaker: {
+    failureThreshold: 5,
+    resetTimeoutMs: 30000,
+  },
+};
+
+export const resolvePolicy = (overrides: Partial<ResiliencePolicy> = {}): ResiliencePolicy => ({
+  ...DEFAULT_RESILIENCE_POLICY,
+  ...overrides,
+  circuitBreaker: {
+    ...DEFAULT_RESILIENCE_POLICY.circuitBreaker,
+    ...overrides.circuitBreaker,
+  },
+});
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, retryAt: number) {
+    super(`${name} circuit is open until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private name: string,
+    private policy: CircuitBreakerPolicy,
+    private now: () => number = Date.now
+  ) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.policy.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Throws CircuitOpenError while the upstream is considered down. In the
+   * half-open state a single trial request is allowed through.
+   */
+  assertCanRequest(): void {
+    const state = this.getState();
+    if (state === 'closed') return;
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    throw new CircuitOpenError(this.name, this.openedAt + this.policy.resetTimeoutMs);
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures += 1;
+    if (this.state === 'half-open' || this.failures >= this.policy.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+}
+
+/**
+ * Promise-based semaphore: at most `concurrency` tasks run at once, the rest
+ * wait in FIFO order.
+ */
+export function createLimiter(concurrency: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    active -= 1;
+    queue.shift()?.();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const run = () => {
+        active += 1;
+        task().then(resolve, reject).finally(next);
+      };
+
+      if (active < Math.max(1, concurrency)) {
+        run();
+      } else {
+        queue.push(run);
+      }
+    });
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms.
+ */
+export function parseRetryAfter(header: unknown, now: number = Date.now()): number | null {
+  if (typeof header !== 'string' && typeof header !== 'number') return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(header));
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with "equal jitter": half of the exponential delay is
+ * fixed, the other half random, which spreads out synchronized retries.
+ */
+export function backoffDelay(attempt: number, policy: ResiliencePolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return exponential / 2 + random() * (exponential / 2);
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+const isTransient = (error: AxiosError, policy: ResiliencePolicy): boolean => {
+  if (!error.response) {
+    // Network error or timeout, but never a request we cancelled ourselves
+    return error.code !== AxiosError.ERR_CANCELED;
+  }
+  return policy.retryStatuses.includes(error.response.status);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface RetryState {
+  attempt: number;
+}
+
+type ResilientRequestConfig = InternalAxiosRequestConfig & { __retryState?: RetryState };
+
+/**
+ * Install retry, Retry-After handling and a circuit breaker on an axios
+ * instance. Returns the breaker so callers can inspect it.
+ */
+export function applyResiliencePolicy(
+  instance: AxiosInstance,
+  name: string,
+  policy: ResiliencePolicy = DEFAULT_RESILIENCE_POLICY
+): CircuitBreaker {
+  const breaker = new CircuitBreaker(name, policy.circuitBreaker);
+
+  instance.interceptors.request.use((config: ResilientRequestConfig) => {
+    // Retries of a request already admitted by the breaker skip the check
+    if (!config.__retryState) {
+      breaker.assertCanRequest();
+    }
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    response => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error: AxiosError) => {
+      if (error instanceof CircuitOpenError || !error.config) {
+        throw error;
+      }
+
+      const config = error.config as ResilientRequestConfig;
+      const state = config.__retryState || { attempt: 0 };
+      const method = (config.method || 'get').toLowerCase();
+      const transient = isTransient(error, policy);
+
+      if (transient && IDEMPOTENT_METHODS.includes(method) && state.attempt < policy.retries) {
+        const retryAfter = error.response ? parseRetryAfter(error.response.headers?.['retry-after']) : null;
+
+        if (retryAfter === null || retryAfter <= policy.maxRetryAfterMs) {
+          const delay = retryAfter ?? backoffDelay(state.attempt, policy);
+          config.__retryState = { attempt: state.attempt + 1 };
+          await sleep(delay);
+          return instance.request(config);
+        }
+      }
+
+      // Client errors (404, 400...) say nothing about the upstream's health
+      if (transient) {
+        breaker.recordFailure();
+      } else if (error.response) {
+        breaker.recordSuccess();
+      }
+      throw error;
+    }
+  );
+
+  return breaker;
+}
@@ -0,0 +1,36 @@
+import { readItem, readJSON, writeItem, writeJSON } from './storage';
+
+describe('storage', () => {
+  beforeEach(() => localStorage.clear());
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads back what it wrote and ignores unreadable JSON', () => {
+    writeJSON('rules', [{ id: 'a' }]);
+    writeItem('locale', 'en');
+    localStorage.setItem('broken', '{');
+
+    expect(readJSON('rules')).toEqual([{ id: 'a' }]);
+    expect(readItem('locale')).toBe('en');
+    expect(readJSON('broken')).toBeUndefined();
+    expect(readJSON('absent')).toBeUndefined();
+  });
+
+  it('neither throws when storage is disabled nor when it is full', () => {
+    jest.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new DOMException('Storage is disabled', 'SecurityError');
+    });
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Storage is full', 'QuotaExceededError');
+    });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(readItem('locale')).toBeNull();
+    expect(readJSON('rules')).toBeUndefined();
+    writeItem('locale', 'en', 'Language');
+
+    expect(warn).toHaveBeenCalledWith('Language could not be persisted:', 'Storage is full');
+  });
+});
@@ -0,0 +1,44 @@
+// src/services/storage.ts
+// Preferences and caches in localStorage. Access to it throws when storage
+// is disabled and writes throw when the quota is exceeded; the dashboard
+// then keeps working with what it has in memory.
+
+/** localStorage, or null where it is missing (tests, workers) or disabled */
+export function browserStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/** The stored string, null when absent or unreadable */
+export function readItem(key: string): string | null {
+  try {
+    return browserStorage()?.getItem(key) ?? null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/** Store `value`, warning with `what` when it cannot be persisted */
+export function writeItem(key: string, value: string, what: string = key): void {
+  try {
+    browserStorage()?.setItem(key, value);
+  } catch (error) {
+    console.warn(`${what} could not be persisted:`, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** Stored JSON, undefined when absent or unreadable */
+export function readJSON(key: string): unknown {
+  try {
+    const raw = readItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export const writeJSON = (key: string, value: unknown, what: string = key): void =>
+  writeItem(key, JSON.stringify(value), what);
@@ -0,0 +1,73 @@
+import { calculateAQI } from './aqi';
+import { SyntheticDataGenerator, syntheticTimestamps } from './synthetic';
+
+const station = { id: 3, name: 'Berceni', lat: 44.3876, lon: 26.1186, county: 'BUCURESTI' };
+const start = new Date(2026, 0, 5);
+const end = new Date(2026, 1, 1);
+
+const meanAt = (points: { date: string }[], hour: number, field: 'no2' | 'o3') => {
+  const values = points
+    .filter(point => new Date(point.date).getHours() === hour)
+    .map(point => (point as unknown as Record<string, number>)[field]);
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+describe('SyntheticDataGenerator', () => {
+  it('produces the same data for the same seed and date', () => {
+    const a = new SyntheticDataGenerator(7);
+    const b = new SyntheticDataGenerator(7);
+    const date = new Date(2026, 5, 12, 14);
+
+    expect(a.airQualityAt(station, date)).toEqual(b.airQualityAt(station, date));
+    expect(a.weatherAt(date)).toEqual(b.weatherAt(date));
+    expect(new SyntheticDataGenerator(8).measurementsAt(station.id, date)).not.toEqual(
+      a.measurementsAt(station.id, date)
+    );
+  });
+
+  it('returns identical points for overlapping ranges', () => {
+    const generator = new SyntheticDataGenerator(7);
+    const week = generator.historicalAirQuality(station.id, start, new Date(2026, 0, 12));
+    const day = generator.historicalAirQuality(station.id, new Date(2026, 0, 8), new Date(2026, 0, 9));
+
+    day.forEach(point => expect(week).toContainEqual(point));
+  });
+
+  it('derives the AQI from the generated pollutants', () => {
+    const generator = new SyntheticDataGenerator(7);
+    const reading = generator.airQualityAt(station, new Date(2026, 0, 14, 8));
+
+    expect(reading.aqi).toBe(calculateAQI(reading.measurements, 'epa').aqi);
+  });
+
+  it('peaks NO2 at rush hour and O3 in the afternoon', () => {
+    const series = new SyntheticDataGenerator(7).historicalAirQuality(station.id, start, end);
+
+    expect(meanAt(series, 8, 'no2')).toBeGreaterThan(meanAt(series, 3, 'no2') * 1.5);
+    expect(meanAt(series, 15, 'o3')).toBeGreaterThan(meanAt(series, 6, 'o3') * 1.5);
+  });
+
+  it('accumulates pollution when the wind drops', () => {
+    const generator = new SyntheticDataGenerator(7);
+    const hours = syntheticTimestamps(start, end).filter(date => date.getHours() === 12);
+    const readings = hours.map(date => ({
+      wind: generator.weatherAt(date).windSpeed,
+      pm25: generator.measurementsAt(station.id, date).pm25,
+    }));
+    const sorted = [...readings].sort((a, b) => a.wind - b.wind);
+    const third = Math.floor(sorted.length / 3);
+    const mean = (items: typeof readings) => items.reduce((sum, item) => sum + item.pm25, 0) / items.length;
+
+    expect(mean(sorted.slice(0, third))).toBeGreaterThan(mean(sorted.slice(-third)));
+  });
+});
+
+describe('syntheticTimestamps', () => {
+  it('aligns points to whole hours and switches to days for long ranges', () => {
+    const hourly = syntheticTimestamps(new Date(2026, 0, 1, 10, 30), new Date(2026, 0, 1, 13, 0));
+    expect(hourly.map(date => date.getHours())).toEqual([11, 12, 13]);
+
+    const daily = syntheticTimestamps(new Date(2025, 0, 1), new Date(2026, 0, 1));
+    expect(daily).toHaveLength(366);
+  });
+});
@@ -0,0 +1,318 @@
+// src/services/synthetic.ts
+import { getDayOfYear, isWeekend, startOfHour } from 'date-fns';
+import {
+  AirQualityData,
+  AirQualityForecastPoint,
+  AirQualityMeasurement,
+  HistoricalDataPoint,
+  Station,
+  WeatherData,
+} from '../types';
+import { DEFAULT_AQI_SCHEME, calculateAQI } from './aqi';
+import { validateReading } from './quality';
+
+/**
+ * Synthetic air quality and weather for demo mode and upstream fallbacks.
+ *
+ * Every value is a pure function of (seed, station, timestamp): the same seed
+ * and date always produce the same reading, no matter which range is asked
+ * for. The series are built to be plausible together rather than random:
+ *
+ * - a slowly varying "stagnation" signal drives high pressure, low wind and
+ *   accumulation of pollutants, and its opposite clears the air
+ * - NO2, CO and PM follow morning and evening traffic peaks, lower on weekends
+ * - O3 peaks in the afternoon, grows with temperature and is titrated by NO2
+ * - PM and SO2 rise with heating demand in the cold season
+ * - the AQI is always computed from the generated pollutants
+ */
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_SYNTHETIC_SEED = 20240601;
+
+// Series are hourly, falling back to daily points for very long ranges
+const HOURLY_MAX_DAYS = 90;
+
+interface StationProfile {
+  /** Multiplier for traffic pollutants (NO2, CO, PM from resuspension) */
+  traffic: number;
+  /** Multiplier for SO2 from industry and heating plants */
+  industry: number;
+  /** Multiplier for the urban PM background */
+  background: number;
+}
+
+// 32-bit integer hash (a variant of the "lowbias32" mixer)
+const mix = (value: number): number => {
+  let x = value | 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x846ca68b);
+  x ^= x >>> 16;
+  return x >>> 0;
+};
+
+const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = mix(hash ^ text.charCodeAt(i));
+  }
+  return hash;
+};
+
+const round = (value: number, decimals = 1): number => Number(value.toFixed(decimals));
+
+// The forecast model cell is generated like one more station, with its own profile
+const FORECAST_CELL_ID = 0;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Timestamps for a synthetic series, aligned to whole hours (or days for
+ * ranges over 90 days) so that overlapping ranges share their points.
+ */
+export function syntheticTimestamps(start: Date, end: Date): Date[] {
+  const step = end.getTime() - start.getTime() > HOURLY_MAX_DAYS * DAY ? DAY : HOUR;
+  const first = startOfHour(start).getTime();
+  const aligned = first < start.getTime() ? first + HOUR : first;
+  const timestamps: Date[] = [];
+
+  for (let time = aligned; time <= end.getTime(); time += step) {
+    timestamps.push(new Date(time));
+  }
+  return timestamps.length > 0 ? timestamps : [startOfHour(end)];
+}
+
+export class SyntheticDataGenerator {
+  readonly seed: number;
+
+  constructor(seed: number = DEFAULT_SYNTHETIC_SEED) {
+    this.seed = seed;
+  }
+
+  /** Uniform value in [0, 1) for a channel and integer step */
+  private random(channel: string, step: number): number {
+    return mix(mix(this.seed ^ hashString(channel)) ^ mix(step)) / 4294967296;
+  }
+
+  /** Value noise in [-1, 1] that varies smoothly over `period` */
+  private smoothNoise(channel: string, time: number, period: number): number {
+    const position = time / period;
+    const step = Math.floor(position);
+    const t = (1 - Math.cos((position - step) * Math.PI)) / 2;
+    const a = this.random(channel, step);
+    const b = this.random(channel, step + 1);
+    return (a + (b - a) * t) * 2 - 1;
+  }
+
+  /** Hour-to-hour jitter in [-1, 1] */
+  private jitter(channel: string, time: number): number {
+    return this.random(channel, Math.floor(time / HOUR)) * 2 - 1;
+  }
+
+  private stationProfile(stationId: number): StationProfile {
+    const draw = (name: string) => this.random(`station:${stationId}:${name}`, 0);
+    return {
+      traffic: 0.6 + draw('traffic') * 0.9,
+      industry: 0.5 + draw('industry') * 1.2,
+      background: 0.8 + draw('background') * 0.4,
+    };
+  }
+
+  /** 0 for well-ventilated days, 1 for stagnant anticyclonic conditions */
+  private stagnation(time: number): number {
+    return (this.smoothNoise('stagnation', time, 3 * DAY) + 1) / 2;
+  }
+
+  /** Daily mean temperature for the time of year in Bucharest, in °C */
+  private seasonalTemperature(date: Date): number {
+    return 11.5 - 13 * Math.cos((2 * Math.PI * (getDayOfYear(date) - 20)) / 365);
+  }
+
+  /** 0 in summer, up to 1 on the coldest days */
+  private heatingDemand(date: Date): number {
+    return clamp((14 - this.seasonalTemperature(date)) / 15, 0, 1);
+  }
+
+  weatherAt(date: Date): WeatherData {
+    const time = date.getTime();
+    const hour = date.getHours() + date.getMinutes() / 60;
+    const stagnation = this.stagnation(time);
+    const cloudiness = (this.smoothNoise('clouds', time, 12 * HOUR) + 1) / 2 * (1 - stagnation * 0.6);
+    const daily = Math.sin((2 * Math.PI * (hour - 9)) / 24);
+
+    // Clear, calm days warm up and cool down more
+    const temperature =
+      this.seasonalTemperature(date) +
+      (3 + 4 * (1 - cloudiness)) * daily +
+      3 * this.smoothNoise('temperature', time, 2 * DAY) +
+      0.3 * this.jitter('temperature', time);
+
+    const humidity = clamp(
+      62 - 16 * daily + 20 * (cloudiness - 0.5) + 8 * this.smoothNoise('humidity', time, DAY),
+      18,
+      100
+    );
+
+    // Daytime mixing picks the wind up, stagnation calms it down
+    const windSpeed = Math.max(
+      0.5,
+      15 - 11 * stagnation + 3 * Math.max(0, daily) + 3 * this.smoothNoise('wind', time, 6 * HOUR) + this.jitter('wind', time)
+    );
+
+    const pressure = 1013 + 14 * (stagnation - 0.5) + 2 * this.smoothNoise('pressure', time, DAY);
+
+    const sunElevation = Math.sin((Math.PI * (hour - 6)) / 14);
+    const uvPeak = 4.5 - 3.5 * Math.cos((2 * Math.PI * (getDayOfYear(date) - 172)) / 365);
+    const uvIndex = hour >= 6 && hour <= 20 ? Math.max(0, sunElevation * uvPeak * (1 - 0.6 * cloudiness)) : 0;
+
+    // Sunshine deepens the mixing layer, stagnant nights collapse it
+    const boundaryLayerHeight = Math.max(
+      60,
+      (350 + 1300 * Math.max(0, sunElevation) * (1 - 0.5 * cloudiness)) * (1 - 0.55 * stagnation) + 15 * windSpeed
+    );
+    const precipitation = cloudiness > 0.7 ? Math.max(0, 6 * (cloudiness - 0.7) + this.jitter('rain', time)) : 0;
+    // Haze builds up in shallow, humid air; rain washes it out
+    const visibility = clamp(
+      28 * Math.min(1, boundaryLayerHeight / 900) * (1 - Math.max(0, humidity - 75) / 40) - 3 * precipitation,
+      0.4,
+      30
+    );
+    // Bucharest's prevailing winds are north-easterly and westerly
+    const windDirection = (((this.smoothNoise('wind-direction', time, 2 * DAY) + 1) * 180 + 45) % 360 + 360) % 360;
+
+    return {
+      timestamp: date.toISOString(),
+      temperature: round(temperature),
+      humidity: round(humidity, 0),
+      windSpeed: round(windSpeed),
+      pressure: round(pressure),
+      uvIndex: round(uvIndex),
+      visibility: round(visibility),
+      windDirection: Math.round(windDirection),
+      windGusts: round(windSpeed * (1.35 + 0.25 * Math.max(0, daily)) + 2 * Math.abs(this.jitter('gusts', time))),
+      precipitation: round(precipitation),
+      cloudCover: Math.round(cloudiness * 100),
+      boundaryLayerHeight: Math.round(boundaryLayerHeight),
+    };
+  }
+
+  /** Every pollutant, never missing; outages are left to the mock upstream scenarios */
+  measurementsAt(stationId: number, date: Date): Record<keyof AirQualityMeasurement, number> {
+    const time = date.getTime();
+    const hour = date.getHours() + date.getMinutes() / 60;
+    const profile = this.stationProfile(stationId);
+    const weather = this.weatherAt(date);
+    const stagnation = this.stagnation(time);
+    const heating = this.heatingDemand(date);
+
+    const rush = (isWeekend(date) ? 0.6 : 1) *
+      (Math.exp(-((hour - 8) ** 2) / 3) + 0.8 * Math.exp(-((hour - 18.5) ** 2) / 4));
+    // Low wind and night-time inversions keep emissions near the ground
+    const dispersion = 2.6 / (0.6 + weather.windSpeed / 6);
+    const inversion = 1 + 0.4 * stagnation * (hour < 7 || hour > 20 ? 1 : 0.3);
+    const noise = (pollutant: string) => 1 + 0.12 * this.jitter(`${pollutant}:${stationId}`, time);
+
+    const no2 = profile.traffic * (16 + 42 * rush) * dispersion * inversion * noise('no2');
+    const co = profile.traffic * (0.22 + 0.45 * rush + 0.3 * heating) * dispersion * inversion * noise('co');
+    const pm25 =
+      (profile.background * (7 + 14 * heating) + 6 * profile.traffic * rush) *
+      dispersion * inversion * (1 + Math.max(0, weather.humidity - 70) / 100) * noise('pm25');
+    const pm10 = pm25 * (1.45 + 0.25 * profile.traffic) + 8 * profile.traffic * rush * noise('pm10');
+    const so2 = profile.industry * (2.5 + 6 * heating) * dispersion * noise('so2');
+
+    const photochemistry = 0.35 + 0.9 * Math.max(0, Math.sin((Math.PI * (hour - 8)) / 12));
+    const o3 = Math.max(
+      4,
+      (28 + 3.5 * Math.max(0, weather.temperature - 8)) * photochemistry * noise('o3') - 0.45 * no2
+    );
+
+    return {
+      pm25: round(pm25),
+      pm10: round(pm10),
+      no2: round(no2),
+      o3: round(o3),
+      so2: round(so2),
+      co: round(co, 2),
+    };
+  }
+
+  airQualityAt(station: Station, date: Date): AirQualityData {
+    const measurements = this.measurementsAt(station.id, date);
+    return {
+      stationId: station.id,
+      stationName: station.name,
+      timestamp: date.toISOString(),
+      ...validateReading(measurements),
+      aqi: calculateAQI(measurements, DEFAULT_AQI_SCHEME).aqi,
+    };
+  }
+
+  historicalAirQuality(stationId: number, start: Date, end: Date): HistoricalDataPoint[] {
+    return syntheticTimestamps(start, end).map(date => {
+      const measurements = this.measurementsAt(stationId, date);
+      return {
+        date: date.toISOString(),
+        aqi: calculateAQI(measurements, DEFAULT_AQI_SCHEME).aqi,
+        ...measurements,
+      };
+    });
+  }
+
+  historicalWeather(start: Date, end: Date): HistoricalDataPoint[] {
+    return syntheticTimestamps(start, end).map(date => {
+      const {
+        temperature,
+        humidity,
+        windSpeed,
+        pressure,
+        windDirection,
+        windGusts,
+        precipitation,
+        cloudCover,
+        boundaryLayerHeight,
+      } = this.weatherAt(date);
+      return {
+        date: date.toISOString(),
+        aqi: null,
+        pm25: null,
+        pm10: null,
+        temperature,
+        humidity,
+        windSpeed,
+        pressure,
+        windDirection: windDirection ?? undefined,
+        windGusts: windGusts ?? undefined,
+        precipitation: precipitation ?? undefined,
+        cloudCover: cloudCover ?? undefined,
+        boundaryLayerHeight: boundaryLayerHeight ?? undefined,
+      };
+    });
+  }
+
+  hourlyForecast(from: Date, hours: number): WeatherData[] {
+    const first = startOfHour(from).getTime() + HOUR;
+    return Array.from({ length: hours }, (_, i) => this.weatherAt(new Date(first + i * HOUR)));
+  }
+
+  airQualityForecast(from: Date, hours: number): AirQualityForecastPoint[] {
+    const first = startOfHour(from).getTime() + HOUR;
+    return Array.from({ length: hours }, (_, i) => {
+      const date = new Date(first + i * HOUR);
+      const { co, ...measurements } = this.measurementsAt(FORECAST_CELL_ID, date);
+      return {
+        timestamp: date.toISOString(),
+        measurements,
+        aqi: calculateAQI(measurements, DEFAULT_AQI_SCHEME).aqi,
+      };
+    });
+  }
+}
+
+const envSeed = Number(process.env.REACT_APP_MOCK_SEED);
+
+export const syntheticData = new SyntheticDataGenerator(
+  Number.isFinite(envSeed) && process.env.REACT_APP_MOCK_SEED ? envSeed : DEFAULT_SYNTHETIC_SEED
+);
@@ -0,0 +1,69 @@
+import { aggregateSeries, getResolution } from './timeRange';
+
+const point = (date: string, pm25: number, temperature?: number) => ({
+  date,
+  aqi: 0,
+  pm25,
+  pm10: 0,
+  temperature,
+});
+
+describe('getResolution', () => {
+  it('uses hourly points up to three days and daily means beyond', () => {
+    const end = new Date(2026, 9, 19, 12);
+    expect(getResolution({ start: new Date(2026, 9, 18, 12), end })).toBe('hourly');
+    expect(getResolution({ start: new Date(2026, 9, 12, 12), end })).toBe('daily');
+  });
+});
+
+describe('aggregateSeries', () => {
+  const range = { start: new Date(2026, 9, 1), end: new Date(2026, 9, 10, 23) };
+
+  it('averages every field per bucket and drops points outside the range', () => {
+    const series = aggregateSeries(
+      [
+        point(new Date(2026, 9, 2, 1).toISOString(), 10, 12),
+        point(new Date(2026, 9, 2, 13).toISOString(), 20),
+        point(new Date(2026, 9, 3, 8).toISOString(), 40, 8),
+        point(new Date(2026, 8, 20).toISOString(), 99),
+      ],
+      range,
+      'daily'
+    );
+
+    expect(series).toHaveLength(2);
+    expect(series[0].pm25).toBe(15);
+    expect(series[0].temperature).toBe(12);
+    expect(series[1].pm25).toBe(40);
+    expect(new Date(series[1].date)).toEqual(new Date(2026, 9, 3));
+  });
+
+  it('leaves missing values out of the means and keeps empty buckets as gaps', () => {
+    const series = aggregateSeries(
+      [
+        { ...point(new Date(2026, 9, 2, 1).toISOString(), 10), aqi: null },
+        { ...point(new Date(2026, 9, 2, 2).toISOString(), 20), aqi: 40 },
+        { ...point(new Date(2026, 9, 2, 5).toISOString(), 30), aqi: 60 },
+      ],
+      range,
+      'hourly'
+    );
+
+    expect(series.map(item => item.aqi)).toEqual([null, 40, null, null, 60]);
+    expect(series[2].pm25).toBeNull();
+    expect(new Date(series[2].date)).toEqual(new Date(2026, 9, 2, 3));
+  });
+
+  it('averages wind direction on the circle', () => {
+    const series = aggregateSeries(
+      [
+        { ...point(new Date(2026, 9, 2, 1).toISOString(), 0), windDirection: 350 },
+        { ...point(new Date(2026, 9, 2, 2).toISOString(), 0), windDirection: 30 },
+      ],
+      range,
+      'daily'
+    );
+
+    expect(series[0].windDirection).toBeCloseTo(10);
+  });
+});
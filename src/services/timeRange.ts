@@ -0,0 +1,133 @@
+// src/services/timeRange.ts
+import { addDays, addHours, startOfDay, startOfHour, subDays, subHours, differenceInHours } from 'date-fns';
+import { formatDate, localizedLabels } from '../i18n';
+import { HistoricalDataPoint } from '../types';
+
+export type TimeRangePreset = '24h' | '7d' | '30d';
+
+export type TimeRangeSelection = TimeRangePreset | 'custom';
+
+export type Resolution = 'hourly' | 'daily';
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export const TIME_RANGE_LABELS: Record<TimeRangeSelection, string> = localizedLabels(
+  catalog => catalog.timeRange.presets
+);
+
+// Ranges up to three days are charted hour by hour, longer ones as daily means
+const HOURLY_RESOLUTION_MAX_HOURS = 72;
+
+export function resolvePresetRange(preset: TimeRangePreset, now: Date = new Date()): DateRange {
+  switch (preset) {
+    case '24h':
+      return { start: subHours(now, 24), end: now };
+    case '7d':
+      return { start: subDays(now, 7), end: now };
+    case '30d':
+    default:
+      return { start: subDays(now, 30), end: now };
+  }
+}
+
+/** The period of the same length that ends where `range` starts */
+export const previousPeriod = ({ start, end }: DateRange): DateRange => ({
+  start: new Date(start.getTime() - (end.getTime() - start.getTime())),
+  end: start,
+});
+
+export const getResolution = ({ start, end }: DateRange): Resolution =>
+  differenceInHours(end, start) <= HOURLY_RESOLUTION_MAX_HOURS ? 'hourly' : 'daily';
+
+/**
+ * Bucket the points by hour or day and average every numeric field; missing
+ * values are left out of the means, not counted as 0. Points outside the
+ * range are dropped.
+ */
+export function aggregateSeries(
+  points: HistoricalDataPoint[],
+  range: DateRange,
+  resolution: Resolution = getResolution(range)
+): HistoricalDataPoint[] {
+  const bucketStart = resolution === 'hourly' ? startOfHour : startOfDay;
+  const rangeStart = bucketStart(range.start).getTime();
+  const rangeEnd = range.end.getTime();
+  const buckets = new Map<number, HistoricalDataPoint[]>();
+
+  points.forEach(point => {
+    const time = new Date(point.date).getTime();
+    if (isNaN(time) || time < rangeStart || time > rangeEnd) return;
+
+    const key = bucketStart(new Date(time)).getTime();
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(point);
+    } else {
+      buckets.set(key, [point]);
+    }
+  });
+
+  const mean = (bucket: HistoricalDataPoint[], field: keyof HistoricalDataPoint) => {
+    const values = bucket
+      .map(point => point[field])
+      .filter((value): value is number => typeof value === 'number');
+    return values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : undefined;
+  };
+
+  // Angles are averaged as unit vectors, so 350° and 10° make 0°, not 180°
+  const meanDirection = (bucket: HistoricalDataPoint[]) => {
+    const radians = bucket
+      .map(point => point.windDirection)
+      .filter((value): value is number => typeof value === 'number')
+      .map(degrees => (degrees * Math.PI) / 180);
+    if (radians.length === 0) return undefined;
+    const x = radians.reduce((sum, angle) => sum + Math.cos(angle), 0);
+    const y = radians.reduce((sum, angle) => sum + Math.sin(angle), 0);
+    return (((Math.atan2(y, x) * 180) / Math.PI) + 360) % 360;
+  };
+
+  // Buckets without data between the first and the last one stay in the
+  // series with null values, so charts show a gap instead of bridging it
+  const keys = Array.from(buckets.keys()).sort((a, b) => a - b);
+  const nextBucket = resolution === 'hourly' ? addHours : addDays;
+  for (let key = keys[0]; key < keys[keys.length - 1]; key = nextBucket(key, 1).getTime()) {
+    if (!buckets.has(key)) buckets.set(key, []);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, bucket]) => ({
+      date: new Date(key).toISOString(),
+      aqi: mean(bucket, 'aqi') ?? null,
+      pm25: mean(bucket, 'pm25') ?? null,
+      pm10: mean(bucket, 'pm10') ?? null,
+      no2: mean(bucket, 'no2'),
+      o3: mean(bucket, 'o3'),
+      so2: mean(bucket, 'so2'),
+      co: mean(bucket, 'co'),
+      temperature: mean(bucket, 'temperature'),
+      humidity: mean(bucket, 'humidity'),
+      windSpeed: mean(bucket, 'windSpeed'),
+      pressure: mean(bucket, 'pressure'),
+      windDirection: meanDirection(bucket),
+      windGusts: mean(bucket, 'windGusts'),
+      precipitation: mean(bucket, 'precipitation'),
+      cloudCover: mean(bucket, 'cloudCover'),
+      boundaryLayerHeight: mean(bucket, 'boundaryLayerHeight'),
+    }));
+}
+
+export const formatPeriod = ({ start, end }: DateRange): string =>
+  `${formatDate(start, 'date')} – ${formatDate(end, 'date')}`;
+
+export const formatBucket = (date: string, resolution: Resolution): string =>
+  formatDate(date, resolution === 'hourly' ? 'dayMonthTime' : 'dayMonth');
+
+export const RESOLUTION_LABELS: Record<Resolution, string> = localizedLabels(
+  catalog => catalog.timeRange.resolutions
+);
@@ -0,0 +1,79 @@
+import { computeTrend, meanAQISeries, trendBasis } from './trends';
+
+const point = (date: Date, aqi: number, temperature?: number) => ({
+  date: date.toISOString(),
+  aqi,
+  pm25: 0,
+  pm10: 0,
+  temperature,
+});
+
+const hours = (from: Date, count: number, value: (hour: number) => number) =>
+  Array.from({ length: count }, (_, hour) => point(new Date(from.getTime() + hour * 3600 * 1000), value(hour), value(hour)));
+
+describe('trendBasis', () => {
+  it('compares day-long ranges with yesterday and longer ones with the previous period', () => {
+    const end = new Date(2026, 9, 19, 12);
+    expect(trendBasis({ start: new Date(2026, 9, 18, 12), end })).toBe('sameHourYesterday');
+    expect(trendBasis({ start: new Date(2026, 9, 12, 12), end })).toBe('previousPeriod');
+  });
+});
+
+describe('computeTrend', () => {
+  it('compares the latest hour with the same hour yesterday', () => {
+    const range = { start: new Date(2026, 9, 18, 12), end: new Date(2026, 9, 19, 12) };
+    const points = hours(range.start, 25, hour => 50 + hour);
+
+    const trend = computeTrend(range, 'aqi', points, []);
+
+    expect(trend).toMatchObject({ basis: 'sameHourYesterday', current: 74, baseline: 50, change: 24, direction: 'up' });
+    expect(trend?.sentiment).toBe('negative');
+  });
+
+  it('compares the mean of the range with the mean of the previous period', () => {
+    const range = { start: new Date(2026, 9, 12), end: new Date(2026, 9, 19) };
+    const previous = hours(new Date(2026, 9, 5), 7 * 24, () => 60);
+    const points = hours(range.start, 7 * 24, () => 45);
+
+    const trend = computeTrend(range, 'aqi', points, previous);
+
+    expect(trend).toMatchObject({ basis: 'previousPeriod', current: 45, baseline: 60, direction: 'down' });
+    expect(trend?.sentiment).toBe('positive');
+  });
+
+  it('leaves metrics without a preferred direction neutral', () => {
+    const range = { start: new Date(2026, 9, 18, 12), end: new Date(2026, 9, 19, 12) };
+    const trend = computeTrend(range, 'temperature', hours(range.start, 25, hour => 10 + hour), []);
+
+    expect(trend).toMatchObject({ direction: 'up', sentiment: 'neutral' });
+  });
+
+  it('treats changes under 1% as flat', () => {
+    const range = { start: new Date(2026, 9, 18, 12), end: new Date(2026, 9, 19, 12) };
+    const trend = computeTrend(range, 'aqi', hours(range.start, 25, hour => (hour === 24 ? 100.5 : 100)), []);
+
+    expect(trend).toMatchObject({ direction: 'flat', sentiment: 'neutral' });
+  });
+
+  it('returns null without a baseline', () => {
+    const range = { start: new Date(2026, 9, 12), end: new Date(2026, 9, 19) };
+    expect(computeTrend(range, 'aqi', hours(range.start, 24, () => 40), [])).toBeNull();
+  });
+});
+
+describe('meanAQISeries', () => {
+  it('averages the stations hour by hour, each with its latest point', () => {
+    const from = new Date(2026, 9, 19, 10);
+    const live = { date: new Date(2026, 9, 19, 11, 40).toISOString(), aqi: 60 };
+
+    const series = meanAQISeries([
+      [...hours(from, 2, hour => 20 + hour), live],
+      [...hours(from, 2, () => 40), { date: new Date(2026, 9, 19, 11).toISOString(), aqi: null }],
+    ]);
+
+    expect(series.map(item => [item.date, item.aqi])).toEqual([
+      [from.toISOString(), 30],
+      [new Date(2026, 9, 19, 11).toISOString(), 50],
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+// src/services/trends.ts
+import { startOfHour } from 'date-fns';
+import { HistoricalDataPoint } from '../types';
+import { DateRange, previousPeriod } from './timeRange';
+
+/**
+ * What the current value is compared against: the reading 24 hours earlier
+ * for day-long ranges, otherwise the mean of the preceding period of the
+ * same length.
+ */
+export type TrendBasis = 'sameHourYesterday' | 'previousPeriod';
+
+/** Whether a rising value is an improvement; 'neutral' for e.g. temperature */
+export type TrendPolarity = 'higherIsBetter' | 'lowerIsBetter' | 'neutral';
+
+export type TrendField = 'aqi' | 'pm25' | 'pm10' | 'temperature' | 'humidity' | 'windSpeed';
+
+export const TREND_POLARITY: Record<TrendField, TrendPolarity> = {
+  aqi: 'lowerIsBetter',
+  pm25: 'lowerIsBetter',
+  pm10: 'lowerIsBetter',
+  temperature: 'neutral',
+  humidity: 'neutral',
+  windSpeed: 'neutral',
+};
+
+export interface Trend {
+  basis: TrendBasis;
+  /** Latest hourly value, or the mean of the selected range */
+  current: number;
+  baseline: number;
+  change: number;
+  direction: 'up' | 'down' | 'flat';
+  sentiment: 'positive' | 'negative' | 'neutral';
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// A baseline reading may be this far from exactly 24 hours earlier
+const SAME_HOUR_TOLERANCE_MS = 3600 * 1000;
+
+// Changes below 1% of the baseline are shown as flat
+const FLAT_RATIO = 0.01;
+
+export const trendBasis = ({ start, end }: DateRange): TrendBasis =>
+  end.getTime() - start.getTime() <= DAY_MS ? 'sameHourYesterday' : 'previousPeriod';
+
+interface Sample {
+  time: number;
+  value: number;
+}
+
+const samples = (points: HistoricalDataPoint[], field: TrendField, { start, end }: DateRange): Sample[] =>
+  points
+    .map(point => ({ time: new Date(point.date).getTime(), value: point[field] }))
+    .filter(
+      (sample): sample is Sample =>
+        typeof sample.value === 'number' && sample.time >= start.getTime() && sample.time <= end.getTime()
+    );
+
+const mean = (values: Sample[]): number => values.reduce((sum, sample) => sum + sample.value, 0) / values.length;
+
+function compare(range: DateRange, field: TrendField, points: HistoricalDataPoint[], previousPoints: HistoricalDataPoint[]) {
+  const current = samples(points, field, range);
+  if (current.length === 0) return null;
+
+  if (trendBasis(range) === 'previousPeriod') {
+    const previous = samples(previousPoints, field, previousPeriod(range));
+    return previous.length > 0 ? { current: mean(current), baseline: mean(previous) } : null;
+  }
+
+  const latest = current.reduce((last, sample) => (sample.time > last.time ? sample : last));
+  const target = latest.time - DAY_MS;
+  const baseline = [...previousPoints, ...points]
+    .map(point => ({ time: new Date(point.date).getTime(), value: point[field] }))
+    .filter((sample): sample is Sample => typeof sample.value === 'number')
+    .filter(sample => Math.abs(sample.time - target) <= SAME_HOUR_TOLERANCE_MS)
+    .sort((a, b) => Math.abs(a.time - target) - Math.abs(b.time - target))[0];
+  return baseline ? { current: latest.value, baseline: baseline.value } : null;
+}
+
+/**
+ * Hourly mean AQI over several stations, the overview series of the AQI card.
+ * Each station counts once per hour, with its last point of that hour, and
+ * only the stations that have an index for the hour are averaged.
+ */
+export function meanAQISeries(histories: Array<Array<Pick<HistoricalDataPoint, 'date' | 'aqi'>>>): HistoricalDataPoint[] {
+  const hours = new Map<number, number[]>();
+  histories.forEach(history => {
+    const latest = new Map<number, number>();
+    history.forEach(point => {
+      if (point.aqi !== null) latest.set(startOfHour(new Date(point.date)).getTime(), point.aqi);
+    });
+    latest.forEach((aqi, hour) => hours.set(hour, [...(hours.get(hour) ?? []), aqi]));
+  });
+
+  return Array.from(hours.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([hour, values]) => ({
+      date: new Date(hour).toISOString(),
+      aqi: values.reduce((sum, value) => sum + value, 0) / values.length,
+      pm25: null,
+      pm10: null,
+    }));
+}
+
+/**
+ * Trend of one field over the selected range; `previousPoints` covers the
+ * period before it. Null when either side of the comparison has no data.
+ */
+export function computeTrend(
+  range: DateRange,
+  field: TrendField,
+  points: HistoricalDataPoint[],
+  previousPoints: HistoricalDataPoint[],
+  polarity: TrendPolarity = TREND_POLARITY[field]
+): Trend | null {
+  const values = compare(range, field, points, previousPoints);
+  if (!values) return null;
+
+  const change = values.current - values.baseline;
+  const direction =
+    Math.abs(change) <= Math.abs(values.baseline) * FLAT_RATIO ? 'flat' : change > 0 ? 'up' : 'down';
+  const improving = (direction === 'up') === (polarity === 'higherIsBetter');
+
+  return {
+    basis: trendBasis(range),
+    ...values,
+    change,
+    direction,
+    sentiment: direction === 'flat' || polarity === 'neutral' ? 'neutral' : improving ? 'positive' : 'negative',
+  };
+}
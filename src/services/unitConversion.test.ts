@@ -0,0 +1,50 @@
+import { STANDARD_CONDITIONS, convert, normalizeUnits, parseUnit } from './unitConversion';
+
+describe('convert', () => {
+  it('converts gases between mass and mixing ratio at 25 °C and 1 atm', () => {
+    expect(convert('no2', { value: 99.7, unit: 'μg/m³' }, 'ppb')).toBeCloseTo(53, 0);
+    expect(convert('no2', { value: 53, unit: 'ppb' }, 'μg/m³')).toBeCloseTo(99.7, 0);
+    // mg/m³ and ppm share the factor of μg/m³ and ppb
+    expect(convert('co', { value: 1.145, unit: 'mg/m³' }, 'ppm')).toBeCloseTo(1, 2);
+    expect(convert('co', { value: 1000, unit: 'ppb' }, 'mg/m³')).toBeCloseTo(1.146, 3);
+  });
+
+  it('takes the temperature and pressure into account', () => {
+    const cold = convert('o3', { value: 100, unit: 'μg/m³' }, 'ppb', { temperature: -10, pressure: 1013.25 });
+    const standard = convert('o3', { value: 100, unit: 'μg/m³' }, 'ppb', STANDARD_CONDITIONS);
+    // Colder air is denser, so the same mass is a smaller share of it
+    expect(cold).toBeLessThan(standard as number);
+    expect((cold as number) / (standard as number)).toBeCloseTo(263.15 / 298.15, 3);
+  });
+
+  it('converts particulate matter between mass units only', () => {
+    expect(convert('pm25', { value: 0.02, unit: 'mg/m³' }, 'μg/m³')).toBeCloseTo(20);
+    expect(convert('pm25', { value: 20, unit: 'μg/m³' }, 'ppb')).toBeNull();
+  });
+});
+
+describe('parseUnit', () => {
+  it('reads the spellings sources use', () => {
+    expect(parseUnit('ug/m3')).toBe('μg/m³');
+    expect(parseUnit('µg/m³')).toBe('μg/m³');
+    expect(parseUnit(' MG/M3 ')).toBe('mg/m³');
+    expect(parseUnit('PPB')).toBe('ppb');
+    expect(parseUnit('ppt')).toBeNull();
+    expect(parseUnit(undefined)).toBeNull();
+  });
+});
+
+describe('normalizeUnits', () => {
+  it('brings reported units to the stored ones and drops what it cannot read', () => {
+    const values = normalizeUnits(
+      { pm25: 12, pm10: 30, no2: 53, o3: 40, so2: 5, co: 1 },
+      { no2: 'ppb', co: 'ppm', so2: 'ppt' }
+    );
+
+    expect(values.pm25).toBe(12);
+    expect(values.o3).toBe(40);
+    expect(values.no2 as number).toBeCloseTo(99.7, 0);
+    expect(values.co as number).toBeCloseTo(1.146, 3);
+    expect(values.so2).toBeNull();
+  });
+});
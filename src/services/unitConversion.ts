@@ -0,0 +1,115 @@
+// src/services/unitConversion.ts
+// Unit conversions of concentrations, without dependencies on the browser, so
+// the ingestion job of the backend-for-frontend stores the same values the
+// dashboard computes.
+import { AirQualityMeasurement } from '../types';
+
+type Pollutant = keyof AirQualityMeasurement;
+
+export type ConcentrationUnit = 'μg/m³' | 'mg/m³' | 'ppb' | 'ppm';
+
+/** A concentration with the unit it is expressed in */
+export interface Quantity {
+  value: number;
+  unit: ConcentrationUnit;
+}
+
+/** Temperature (°C) and pressure (hPa) the gas volume, and so ppb, refer to */
+export interface AmbientConditions {
+  temperature: number;
+  pressure: number;
+}
+
+// The EPA tables and most ppb figures refer to 25 °C and 1 atm
+export const STANDARD_CONDITIONS: AmbientConditions = { temperature: 25, pressure: 1013.25 };
+
+// Molar volume (L/mol) at the standard conditions
+const STANDARD_MOLAR_VOLUME = 24.45;
+
+/** Units measurements are kept in once ingested, whatever the source reported */
+export const MEASUREMENT_UNITS: Record<Pollutant, ConcentrationUnit> = {
+  pm25: 'μg/m³',
+  pm10: 'μg/m³',
+  no2: 'μg/m³',
+  o3: 'μg/m³',
+  so2: 'μg/m³',
+  co: 'mg/m³',
+};
+
+// g/mol; particulate matter has none, so it only converts between mass units
+export const MOLECULAR_WEIGHTS: Partial<Record<Pollutant, number>> = {
+  no2: 46.01,
+  o3: 48.0,
+  so2: 64.07,
+  co: 28.01,
+};
+
+// Each unit as a multiple of μg/m³ or ppb
+const SCALE: Record<ConcentrationUnit, number> = {
+  'μg/m³': 1,
+  'mg/m³': 1000,
+  ppb: 1,
+  ppm: 1000,
+};
+
+const isMass = (unit: ConcentrationUnit): boolean => unit === 'μg/m³' || unit === 'mg/m³';
+
+/** Volume of a mole of air; it grows with the temperature and shrinks with the pressure */
+export const molarVolume = ({ temperature, pressure }: AmbientConditions): number =>
+  STANDARD_MOLAR_VOLUME * ((temperature + 273.15) / 298.15) * (STANDARD_CONDITIONS.pressure / pressure);
+
+/**
+ * Convert a concentration to another unit. Mass and mixing ratios convert
+ * through the molar volume at `conditions`; null for particulate matter,
+ * which has no molecular weight to do so.
+ */
+export function convert(
+  pollutant: Pollutant,
+  { value, unit }: Quantity,
+  to: ConcentrationUnit,
+  conditions: AmbientConditions = STANDARD_CONDITIONS
+): number | null {
+  if (unit === to) return value;
+  const base = value * SCALE[unit];
+  if (isMass(unit) === isMass(to)) return base / SCALE[to];
+
+  const weight = MOLECULAR_WEIGHTS[pollutant];
+  if (!weight) return null;
+  const volume = molarVolume(conditions);
+  return (isMass(unit) ? (base * volume) / weight : (base * weight) / volume) / SCALE[to];
+}
+
+/** Recognise the unit strings sources use: "ug/m3", "µg/m³", "PPB", ... */
+export function parseUnit(text: unknown): ConcentrationUnit | null {
+  if (typeof text !== 'string') return null;
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/[µu]g/, 'μg')
+    .replace(/m3$/, 'm³')
+    .replace(/\s+/g, '');
+  return (Object.keys(SCALE) as ConcentrationUnit[]).find(unit => unit === normalized) ?? null;
+}
+
+/**
+ * Bring values reported in `units` to MEASUREMENT_UNITS. A pollutant without
+ * a unit is taken to be in it already; one with a unit that cannot be read
+ * or converted is dropped rather than guessed. Mixing ratios are read at
+ * STANDARD_CONDITIONS, as the dashboard shows them again.
+ */
+export function normalizeUnits(
+  values: Partial<Record<Pollutant, unknown>>,
+  units: Partial<Record<Pollutant, unknown>> = {}
+): Partial<Record<Pollutant, unknown>> {
+  return Object.fromEntries(
+    (Object.keys(MEASUREMENT_UNITS) as Pollutant[]).map(pollutant => {
+      const value = values[pollutant];
+      if (units[pollutant] === undefined || typeof value !== 'number') return [pollutant, value];
+      const unit = parseUnit(units[pollutant]);
+      return [
+        pollutant,
+        unit ? convert(pollutant, { value, unit }, MEASUREMENT_UNITS[pollutant]) : null,
+      ];
+    })
+  );
+}
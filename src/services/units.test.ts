@@ -0,0 +1,30 @@
+import { convert, normalizeUnits } from './unitConversion';
+import { formatConcentration, historyInUnits } from './units';
+
+describe('formatConcentration', () => {
+  it('shows gases as mixing ratios in the volume system and keeps PM in μg/m³', () => {
+    expect(formatConcentration('no2', 99.7, 'volume')).toBe('53,0 ppb');
+    expect(formatConcentration('co', 1.145, 'volume')).toBe('1,00 ppm');
+    expect(formatConcentration('pm25', 12, 'volume')).toBe('12,0 μg/m³');
+    expect(formatConcentration('co', 0.4, 'mass')).toBe('0,40 mg/m³');
+    expect(formatConcentration('o3', null, 'volume')).toBe('–');
+  });
+
+  it('shows a reading sent as a mixing ratio with the value that was sent', () => {
+    const { no2, co } = normalizeUnits({ no2: 53, co: 1 }, { no2: 'ppb', co: 'ppm' });
+
+    expect(formatConcentration('no2', no2 as number, 'volume')).toBe('53,0 ppb');
+    expect(formatConcentration('co', co as number, 'volume')).toBe('1,00 ppm');
+  });
+});
+
+describe('historyInUnits', () => {
+  it('converts the gases and leaves particulate matter', () => {
+    const date = new Date(2026, 9, 1, 12).toISOString();
+    const [point] = historyInUnits([{ date, aqi: 20, pm25: 10, pm10: 20, no2: 100 }], 'volume');
+
+    expect(point.pm25).toBe(10);
+    expect(point.no2).toBeCloseTo(convert('no2', { value: 100, unit: 'μg/m³' }, 'ppb') as number);
+    expect(point.o3).toBeUndefined();
+  });
+});
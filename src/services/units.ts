@@ -0,0 +1,53 @@
+// src/services/units.ts
+import { formatDecimal } from '../i18n';
+import { AirQualityMeasurement, HistoricalDataPoint } from '../types';
+import { ConcentrationUnit, MEASUREMENT_UNITS, MOLECULAR_WEIGHTS, convert } from './unitConversion';
+
+export * from './unitConversion';
+
+type Pollutant = keyof AirQualityMeasurement;
+
+/** How concentrations are shown: by mass, or gases as mixing ratios */
+export type UnitSystem = 'mass' | 'volume';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['mass', 'volume'];
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'mass';
+
+/** Unit a pollutant is shown in; particulate matter stays in μg/m³ */
+export const displayUnit = (pollutant: Pollutant, system: UnitSystem): ConcentrationUnit =>
+  system === 'volume' && MOLECULAR_WEIGHTS[pollutant] ? (pollutant === 'co' ? 'ppm' : 'ppb') : MEASUREMENT_UNITS[pollutant];
+
+/**
+ * A stored value in the display unit. Mixing ratios refer to the standard
+ * conditions ingestion converted reported ones at, so a reading sent in
+ * ppb shows the same ppb whatever the weather.
+ */
+export const toDisplay = (pollutant: Pollutant, value: number | null | undefined, system: UnitSystem): number | null =>
+  typeof value === 'number'
+    ? convert(pollutant, { value, unit: MEASUREMENT_UNITS[pollutant] }, displayUnit(pollutant, system))
+    : null;
+
+/** Value and unit, with two decimals for the coarse mg/m³ and ppm */
+export function formatConcentration(
+  pollutant: Pollutant,
+  value: number | null | undefined,
+  system: UnitSystem
+): string {
+  const converted = toDisplay(pollutant, value, system);
+  if (converted === null) return '–';
+  const unit = displayUnit(pollutant, system);
+  return `${formatDecimal(converted, unit === 'mg/m³' || unit === 'ppm' ? 2 : 1)} ${unit}`;
+}
+
+/** A history in display units */
+export function historyInUnits(points: HistoricalDataPoint[], system: UnitSystem): HistoricalDataPoint[] {
+  if (system === 'mass') return points;
+  return points.map(point => {
+    const converted = { ...point };
+    (Object.keys(MEASUREMENT_UNITS) as Pollutant[]).forEach(pollutant => {
+      if (point[pollutant] !== undefined) converted[pollutant] = toDisplay(pollutant, point[pollutant], system);
+    });
+    return converted;
+  });
+}
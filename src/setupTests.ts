@@ -3,3 +3,22 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { setLocale } from './i18n';
+
+// jsdom does not implement ResizeObserver, which recharts' ResponsiveContainer
+// relies on.
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+global.ResizeObserver = global.ResizeObserver || ResizeObserverStub;
+
+// The assertions are written against the Romanian catalog, whatever the
+// language of the machine running the tests.
+setLocale('ro');
+
+beforeEach(() => {
+  setLocale('ro');
+});
@@ -0,0 +1,103 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { readItem, writeItem } from '../services/storage';
+import { AQIPalette, THEMES, Theme, ThemeMode, ThemePreference, aqiLevelColor, lightTheme } from './theme';
+
+interface ThemeContextValue {
+  theme: Theme;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+  aqiPalette: AQIPalette;
+  setAqiPalette: (palette: AQIPalette) => void;
+  /** Colour of an AQI level in the selected palette */
+  aqiColor: (level: { color: string; severity: number }) => string;
+}
+
+const THEME_STORAGE_KEY = 'themePreference';
+const AQI_PALETTE_STORAGE_KEY = 'aqiPalette';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark'];
+const AQI_PALETTES: AQIPalette[] = ['standard', 'colorblind'];
+
+// Components rendered without a provider (tests, the report) get the light theme
+const ThemeContext = createContext<ThemeContextValue>({
+  theme: lightTheme,
+  preference: 'system',
+  setPreference: () => undefined,
+  aqiPalette: 'standard',
+  setAqiPalette: () => undefined,
+  aqiColor: level => level.color,
+});
+
+const readStored = <T extends string>(key: string, allowed: T[], fallback: T): T => {
+  const stored = readItem(key);
+  return allowed.includes(stored as T) ? (stored as T) : fallback;
+};
+
+const store = (key: string, value: string): void => writeItem(key, value, 'Theme preference');
+
+// matchMedia is missing in older browsers and in jsdom
+const darkQuery = (): MediaQueryList | null =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' ? window.matchMedia(DARK_QUERY) : null;
+
+const useSystemMode = (): ThemeMode => {
+  const [mode, setMode] = useState<ThemeMode>(() => (darkQuery()?.matches ? 'dark' : 'light'));
+
+  useEffect(() => {
+    const query = darkQuery();
+    if (!query) return;
+
+    const onChange = (event: MediaQueryListEvent) => setMode(event.matches ? 'dark' : 'light');
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  return mode;
+};
+
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const systemMode = useSystemMode();
+  const [preference, setPreferenceState] = useState<ThemePreference>(() =>
+    readStored(THEME_STORAGE_KEY, THEME_PREFERENCES, 'system')
+  );
+  const [aqiPalette, setAqiPaletteState] = useState<AQIPalette>(() =>
+    readStored(AQI_PALETTE_STORAGE_KEY, AQI_PALETTES, 'standard')
+  );
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    store(THEME_STORAGE_KEY, next);
+    setPreferenceState(next);
+  }, []);
+
+  const setAqiPalette = useCallback((next: AQIPalette) => {
+    store(AQI_PALETTE_STORAGE_KEY, next);
+    setAqiPaletteState(next);
+  }, []);
+
+  const theme = THEMES[preference === 'system' ? systemMode : preference];
+
+  // The page background and native controls live outside the React tree
+  useEffect(() => {
+    const root = document.documentElement;
+    root.dataset.theme = theme.mode;
+    root.style.colorScheme = theme.mode;
+    root.style.setProperty('--page-background', theme.surface.page);
+    root.style.setProperty('--text-color', theme.text.primary);
+  }, [theme]);
+
+  const value = useMemo<ThemeContextValue>(
+    () => ({
+      theme,
+      preference,
+      setPreference,
+      aqiPalette,
+      setAqiPalette,
+      aqiColor: level => aqiLevelColor(level, aqiPalette),
+    }),
+    [theme, preference, setPreference, aqiPalette, setAqiPalette]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = (): ThemeContextValue => useContext(ThemeContext);
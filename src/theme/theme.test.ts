@@ -0,0 +1,37 @@
+import { getAQILevel } from '../services/aqi';
+import { COLORBLIND_AQI_COLORS, aqiLevelColor, darkTheme, lightTheme, textOnColor } from './theme';
+
+describe('aqiLevelColor', () => {
+  it('keeps the official scale colours in the standard palette', () => {
+    const level = getAQILevel(42, 'epa');
+    expect(aqiLevelColor(level, 'standard')).toBe(level.color);
+  });
+
+  it('maps every level of every scheme onto the colorblind ramp in order', () => {
+    (['epa', 'eaqi', 'ro'] as const).forEach(schemeId => {
+      const colors = [0, 60, 120, 180, 250, 400].map(value =>
+        aqiLevelColor(getAQILevel(value, schemeId), 'colorblind')
+      );
+      colors.forEach(color => expect(COLORBLIND_AQI_COLORS).toContain(color));
+      const ranks = colors.map(color => COLORBLIND_AQI_COLORS.indexOf(color));
+      expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+    });
+  });
+});
+
+describe('textOnColor', () => {
+  it('picks dark text on light fills and white text on dark fills', () => {
+    expect(textOnColor(COLORBLIND_AQI_COLORS[0])).toBe(lightTheme.colors.gray[900]);
+    expect(textOnColor(COLORBLIND_AQI_COLORS[5])).toBe('#ffffff');
+  });
+});
+
+describe('themes', () => {
+  it('define the same tokens in the light and dark variants', () => {
+    const keys = (value: object): string[] =>
+      Object.entries(value).flatMap(([key, child]) =>
+        child && typeof child === 'object' ? keys(child).map(nested => `${key}.${nested}`) : [key]
+      );
+    expect(keys(darkTheme)).toEqual(keys(lightTheme));
+  });
+});
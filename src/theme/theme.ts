@@ -1,49 +1,348 @@
-export const theme = {
-  colors: {
-    primary: {
-      50: '#f0f9ff',
-      100: '#e0f2fe',
-      500: '#0ea5e9',
-      600: '#0284c7',
-      700: '#0369a1',
-    },
-    secondary: {
-      50: '#f5f3ff',
-      100: '#ede9fe',
-      500: '#8b5cf6',
-      600: '#7c3aed',
-    },
-    success: {
-      50: '#f0fdf4',
-      500: '#22c55e',
-    },
-    warning: {
-      50: '#fffbeb',
-      500: '#f59e0b',
+import type { CSSProperties } from 'react';
+
+export type ThemeMode = 'light' | 'dark';
+
+/** 'system' follows the operating system's prefers-color-scheme */
+export type ThemePreference = ThemeMode | 'system';
+
+/** Colours of the AQI levels: the official scale colours or a colour-vision-deficiency-safe ramp */
+export type AQIPalette = 'standard' | 'colorblind';
+
+export type Tone = 'info' | 'success' | 'warning' | 'danger' | 'accent' | 'neutral';
+
+export interface ToneColors {
+  background: string;
+  border: string;
+  text: string;
+  /** Icons, badges and solid fills */
+  accent: string;
+}
+
+export type ChartSeries =
+  | 'pm25'
+  | 'pm10'
+  | 'no2'
+  | 'o3'
+  | 'so2'
+  | 'co'
+  | 'aqi'
+  | 'temperature'
+  | 'humidity'
+  | 'windSpeed'
+  | 'windGusts'
+  | 'precipitation'
+  | 'boundaryLayerHeight';
+
+export interface Theme {
+  mode: ThemeMode;
+  colors: typeof colors;
+  surface: {
+    /** Page background, may be a gradient */
+    page: string;
+    card: string;
+    /** Table headers, hovered rows, inactive tracks */
+    muted: string;
+    /** Menus and popovers on top of cards */
+    raised: string;
+  };
+  text: {
+    primary: string;
+    secondary: string;
+    muted: string;
+    inverse: string;
+    link: string;
+  };
+  border: {
+    default: string;
+    subtle: string;
+    input: string;
+  };
+  tones: Record<Tone, ToneColors>;
+  chart: {
+    grid: string;
+    axis: string;
+    tooltip: { background: string; border: string; text: string };
+    cursor: string;
+    /** Empty part of radial gauges */
+    track: string;
+    series: Record<ChartSeries, string>;
+  };
+  map: {
+    land: string;
+    border: string;
+    grid: string;
+    label: string;
+    water: string;
+    marker: string;
+    /** Station without a reading */
+    noData: string;
+    selected: string;
+  };
+  shadows: {
+    sm: string;
+    md: string;
+    lg: string;
+  };
+  radii: {
+    sm: string;
+    md: string;
+    lg: string;
+    xl: string;
+  };
+}
+
+const colors = {
+  primary: {
+    50: '#f0f9ff',
+    100: '#e0f2fe',
+    500: '#0ea5e9',
+    600: '#0284c7',
+    700: '#0369a1',
+  },
+  secondary: {
+    50: '#f5f3ff',
+    100: '#ede9fe',
+    500: '#8b5cf6',
+    600: '#7c3aed',
+  },
+  success: {
+    50: '#f0fdf4',
+    500: '#22c55e',
+  },
+  warning: {
+    50: '#fffbeb',
+    500: '#f59e0b',
+  },
+  danger: {
+    50: '#fef2f2',
+    500: '#ef4444',
+  },
+  gray: {
+    50: '#f8fafc',
+    100: '#f1f5f9',
+    200: '#e2e8f0',
+    300: '#cbd5e1',
+    400: '#94a3b8',
+    500: '#64748b',
+    600: '#475569',
+    700: '#334155',
+    800: '#1e293b',
+    900: '#0f172a',
+  },
+};
+
+const shadows = {
+  sm: '0 1px 2px 0 rgb(0 0 0 / 0.05)',
+  md: '0 4px 6px -1px rgb(0 0 0 / 0.1)',
+  lg: '0 10px 15px -3px rgb(0 0 0 / 0.1)',
+};
+
+const radii = {
+  sm: '0.375rem',
+  md: '0.5rem',
+  lg: '1rem',
+  xl: '1.5rem',
+};
+
+export const lightTheme: Theme = {
+  mode: 'light',
+  colors,
+  surface: {
+    page: 'linear-gradient(135deg, #eff6ff 0%, #e0e7ff 100%)',
+    card: '#ffffff',
+    muted: colors.gray[50],
+    raised: '#ffffff',
+  },
+  text: {
+    primary: colors.gray[800],
+    secondary: colors.gray[600],
+    muted: colors.gray[500],
+    inverse: '#ffffff',
+    link: colors.primary[600],
+  },
+  border: {
+    default: colors.gray[200],
+    subtle: colors.gray[100],
+    input: colors.gray[300],
+  },
+  tones: {
+    info: { background: '#eff6ff', border: '#60a5fa', text: '#1e40af', accent: '#2563eb' },
+    success: { background: colors.success[50], border: '#4ade80', text: '#166534', accent: '#16a34a' },
+    warning: { background: colors.warning[50], border: '#fbbf24', text: '#92400e', accent: '#d97706' },
+    danger: { background: colors.danger[50], border: colors.danger[500], text: '#991b1b', accent: '#dc2626' },
+    accent: { background: colors.secondary[50], border: '#a78bfa', text: '#5b21b6', accent: colors.secondary[600] },
+    neutral: { background: colors.gray[100], border: colors.gray[300], text: colors.gray[700], accent: colors.gray[500] },
+  },
+  chart: {
+    grid: colors.gray[200],
+    axis: colors.gray[500],
+    tooltip: { background: '#ffffff', border: colors.gray[300], text: colors.gray[800] },
+    cursor: colors.gray[100],
+    track: colors.gray[100],
+    series: {
+      pm25: '#ef4444',
+      pm10: '#f97316',
+      no2: '#eab308',
+      o3: '#0ea5e9',
+      so2: '#14b8a6',
+      co: '#64748b',
+      aqi: colors.secondary[500],
+      temperature: '#ef4444',
+      humidity: '#3b82f6',
+      windSpeed: '#14b8a6',
+      windGusts: '#0f766e',
+      precipitation: '#2563eb',
+      boundaryLayerHeight: '#a855f7',
     },
-    danger: {
-      50: '#fef2f2',
-      500: '#ef4444',
+  },
+  map: {
+    land: colors.gray[50],
+    border: colors.gray[300],
+    grid: colors.gray[200],
+    label: colors.gray[400],
+    water: '#93c5fd',
+    marker: colors.gray[500],
+    noData: colors.gray[300],
+    selected: colors.gray[800],
+  },
+  shadows,
+  radii,
+};
+
+export const darkTheme: Theme = {
+  mode: 'dark',
+  colors,
+  surface: {
+    page: 'linear-gradient(135deg, #0f172a 0%, #1e1b4b 100%)',
+    card: colors.gray[800],
+    muted: '#273449',
+    raised: colors.gray[700],
+  },
+  text: {
+    primary: colors.gray[100],
+    secondary: colors.gray[300],
+    muted: colors.gray[400],
+    inverse: colors.gray[900],
+    link: '#7dd3fc',
+  },
+  border: {
+    default: colors.gray[700],
+    subtle: '#273449',
+    input: colors.gray[600],
+  },
+  tones: {
+    info: { background: '#172554', border: '#3b82f6', text: '#bfdbfe', accent: '#60a5fa' },
+    success: { background: '#052e16', border: '#22c55e', text: '#bbf7d0', accent: '#4ade80' },
+    warning: { background: '#451a03', border: colors.warning[500], text: '#fde68a', accent: '#fbbf24' },
+    danger: { background: '#450a0a', border: '#f87171', text: '#fecaca', accent: '#f87171' },
+    accent: { background: '#2e1065', border: colors.secondary[500], text: '#ddd6fe', accent: '#a78bfa' },
+    neutral: { background: colors.gray[700], border: colors.gray[600], text: colors.gray[200], accent: colors.gray[400] },
+  },
+  chart: {
+    grid: colors.gray[700],
+    axis: colors.gray[400],
+    tooltip: { background: colors.gray[900], border: colors.gray[600], text: colors.gray[100] },
+    cursor: colors.gray[700],
+    track: colors.gray[700],
+    series: {
+      pm25: '#f87171',
+      pm10: '#fb923c',
+      no2: '#facc15',
+      o3: '#38bdf8',
+      so2: '#2dd4bf',
+      co: colors.gray[400],
+      aqi: '#a78bfa',
+      temperature: '#f87171',
+      humidity: '#60a5fa',
+      windSpeed: '#2dd4bf',
+      windGusts: '#5eead4',
+      precipitation: '#60a5fa',
+      boundaryLayerHeight: '#c084fc',
     },
-    gray: {
-      50: '#f8fafc',
-      100: '#f1f5f9',
-      200: '#e2e8f0',
-      300: '#cbd5e1',
-      600: '#475569',
-      700: '#334155',
-      800: '#1e293b',
-    }
+  },
+  map: {
+    land: colors.gray[900],
+    border: colors.gray[600],
+    grid: colors.gray[700],
+    label: colors.gray[500],
+    water: '#1d4ed8',
+    marker: colors.gray[400],
+    noData: colors.gray[600],
+    selected: colors.gray[50],
   },
   shadows: {
-    sm: '0 1px 2px 0 rgb(0 0 0 / 0.05)',
-    md: '0 4px 6px -1px rgb(0 0 0 / 0.1)',
-    lg: '0 10px 15px -3px rgb(0 0 0 / 0.1)',
+    sm: '0 1px 2px 0 rgb(0 0 0 / 0.4)',
+    md: '0 4px 6px -1px rgb(0 0 0 / 0.5)',
+    lg: '0 10px 15px -3px rgb(0 0 0 / 0.5)',
   },
-  radii: {
-    sm: '0.375rem',
-    md: '0.5rem',
-    lg: '1rem',
-    xl: '1.5rem',
-  }
-};
\ No newline at end of file
+  radii,
+};
+
+export const THEMES: Record<ThemeMode, Theme> = {
+  light: lightTheme,
+  dark: darkTheme,
+};
+
+/** The light variant, for code rendered outside the ThemeProvider */
+export const theme = lightTheme;
+
+/**
+ * Viridis, one colour per AQI severity from best to worst. Lightness falls
+ * monotonically, so the levels stay in order under every type of colour
+ * vision deficiency and in greyscale print.
+ */
+export const COLORBLIND_AQI_COLORS = ['#fde725', '#7ad151', '#22a884', '#2a788e', '#414487', '#440154'];
+
+export const aqiLevelColor = (level: { color: string; severity: number }, palette: AQIPalette): string =>
+  palette === 'colorblind'
+    ? COLORBLIND_AQI_COLORS[Math.min(level.severity, COLORBLIND_AQI_COLORS.length - 1)]
+    : level.color;
+
+/** Readable text on top of an AQI level colour */
+export const textOnColor = (hex: string): string => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? colors.gray[900] : '#ffffff';
+};
+
+export const cardStyle = (theme: Theme): CSSProperties => ({
+  background: theme.surface.card,
+  color: theme.text.primary,
+  boxShadow: theme.shadows.lg,
+});
+
+export const inputStyle = (theme: Theme): CSSProperties => ({
+  background: theme.surface.card,
+  color: theme.text.primary,
+  border: `1px solid ${theme.border.input}`,
+});
+
+export const popoverStyle = (theme: Theme): CSSProperties => ({
+  background: theme.surface.raised,
+  color: theme.text.primary,
+  border: `1px solid ${theme.border.default}`,
+  boxShadow: theme.shadows.lg,
+});
+
+export const toneStyle =(theme: Theme, tone: Tone): CSSProperties => ({
+  background: theme.tones[tone].background,
+  borderColor: theme.tones[tone].border,
+  color: theme.tones[tone].text,
+});
+
+/** Tooltip props shared by every Recharts chart */
+export const chartTooltipStyle = (theme: Theme) => ({
+  contentStyle: {
+    background: theme.chart.tooltip.background,
+    border: `1px solid ${theme.chart.tooltip.border}`,
+    borderRadius: theme.radii.sm,
+    color: theme.chart.tooltip.text,
+  },
+  labelStyle: { color: theme.chart.tooltip.text },
+  cursor: { fill: theme.chart.cursor, stroke: theme.chart.grid },
+});
+
+/** Axis props shared by every Recharts chart */
+export const chartAxisStyle = (theme: Theme) => ({
+  stroke: theme.chart.axis,
+  tick: { fill: theme.chart.axis },
+});
\ No newline at end of file
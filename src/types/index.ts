@@ -4,23 +4,53 @@ export interface Station {
   lat: number;
   lon: number;
   county: string;
+  city?: string;
 }
 
+/**
+ * μg/m³ (CO in mg/m³), the MEASUREMENT_UNITS of services/unitConversion;
+ * null when the value is missing or failed validation.
+ *
+ * Values are bare numbers on purpose: sources' units are read and converted
+ * once, by normalizeUnits where readings enter the client and the ingestion
+ * job, so past that point the unit depends on the pollutant only. Quantity
+ * carries a unit while converting, at ingestion and for display.
+ */
 export interface AirQualityMeasurement {
-  pm25: number;
-  pm10: number;
-  no2: number;
-  o3: number;
-  so2: number;
-  co: number;
+  pm25: number | null;
+  pm10: number | null;
+  no2: number | null;
+  o3: number | null;
+  so2: number | null;
+  co: number | null;
 }
 
+/** Why a measurement is or is not used; anything but 'valid' leaves the value null */
+export type QualityFlag = 'valid' | 'missing' | 'negative' | 'implausible' | 'stuck' | 'spike' | 'stale';
+
+export type MeasurementQuality = Record<keyof AirQualityMeasurement, QualityFlag>;
+
 export interface AirQualityData {
   stationId: number;
   stationName: string;
+  /** When the station took the reading */
   timestamp: string;
   measurements: AirQualityMeasurement;
-  aqi: number;
+  quality: MeasurementQuality;
+  /** Null when no pollutant passed validation */
+  aqi: number | null;
+}
+
+/** Pollutants the air quality forecast covers */
+export type ForecastPollutant = Exclude<keyof AirQualityMeasurement, 'co'>;
+
+/** One hour of the Copernicus (CAMS) air quality forecast for the city */
+export interface AirQualityForecastPoint {
+  timestamp: string;
+  /** μg/m³; null for hours the model did not deliver */
+  measurements: Record<ForecastPollutant, number | null>;
+  /** Null for hours without any pollutant, so a gap does not read as clean air */
+  aqi: number | null;
 }
 
 export interface WeatherData {
@@ -29,5 +59,80 @@ export interface WeatherData {
   humidity: number;
   windSpeed: number;
   pressure: number;
-  uvIndex: number;
+  uvIndex: number | null;
+  /** km */
+  visibility: number | null;
+  /** Degrees the wind blows from, 0 = north */
+  windDirection: number | null;
+  /** km/h */
+  windGusts: number | null;
+  /** mm over the preceding hour */
+  precipitation: number | null;
+  /** % */
+  cloudCover: number | null;
+  /** Height of the mixing layer in m; a low one traps pollutants near the ground */
+  boundaryLayerHeight: number | null;
+}
+
+export interface HistoricalDataPoint {
+  date: string;
+  /** Null for hours without a valid pollutant, which charts show as gaps */
+  aqi: number | null;
+  pm25: number | null;
+  pm10: number | null;
+  no2?: number | null;
+  o3?: number | null;
+  so2?: number | null;
+  co?: number | null;
+  /** Flags of the pollutants validation rejected */
+  quality?: Partial<MeasurementQuality>;
+  temperature?: number;
+  humidity?: number;
+  windSpeed?: number;
+  /** hPa */
+  pressure?: number;
+  windDirection?: number;
+  windGusts?: number;
+  precipitation?: number;
+  cloudCover?: number;
+  boundaryLayerHeight?: number;
+}
+
+export type DataSource = 'live' | 'cache' | 'mock';
+
+export interface Provenance {
+  source: DataSource;
+  /** ISO timestamp of when the data was obtained */
+  fetchedAt: string;
+  /** Error that forced a fallback, if any */
+  error?: string;
+}
+
+export interface Sourced<T> {
+  data: T;
+  provenance: Provenance;
+}
+
+export interface DashboardProvenance {
+  airQuality: Provenance;
+  currentWeather: Provenance;
+  hourlyForecast: Provenance;
+  airQualityForecast: Provenance;
+  stations: Provenance;
+  historical: Provenance;
+  historicalWeather: Provenance;
+}
+
+export interface DashboardData {
+  airQuality: AirQualityData[];
+  weather: {
+    current: WeatherData;
+    hourly: WeatherData[];
+  };
+  airQualityForecast: AirQualityForecastPoint[];
+  stations: Station[];
+  historical: HistoricalDataPoint[];
+  historicalWeather: HistoricalDataPoint[];
+  provenance: DashboardProvenance;
+  lastUpdated: Date;
 }
\ No newline at end of file